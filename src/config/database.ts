@@ -7,6 +7,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { MongoClient, Db, Collection, Document } from 'mongodb';
+import type { GenerationJob } from '../types/questionSet';
 
 const MONGODB_URI: string = process.env.MONGODB_URI || 'mongodb://localhost:27017';
 // Automatically select database name based on environment if not explicitly set
@@ -132,8 +133,267 @@ export async function setupIndexes(): Promise<void> {
       }
     );
 
+    // Index for school/class item analysis reports
+    await attemptsCol.createIndex(
+      { school_id: 1, class_number: 1, subject: 1, submitted_at: -1 },
+      {
+        name: 'school_class_attempts_idx',
+        background: true,
+      }
+    );
+
     console.log('[Database] ✅ question_set_attempts indexes created');
 
+    // ============================================================================
+    // QUIZ SESSIONS INDEXES - For server-side quiz delivery
+    // ============================================================================
+    const sessionsCol = database.collection('quiz_sessions');
+
+    // Index for session ID
+    // Used by: QuizSessionService.findSessionById()
+    await sessionsCol.createIndex(
+      { session_id: 1 },
+      {
+        name: 'session_id_idx',
+        unique: true,
+        background: true,
+      }
+    );
+
+    // Index for finding a student's sessions by topic
+    await sessionsCol.createIndex(
+      {
+        student_id: 1,
+        class_number: 1,
+        subject: 1,
+        chapter: 1,
+        topic: 1,
+        status: 1,
+      },
+      {
+        name: 'student_topic_sessions_idx',
+        background: true,
+      }
+    );
+
+    // Index for finding expired timed sessions
+    // Used by: QuizSessionService.finalizeExpiredSessions()
+    await sessionsCol.createIndex(
+      { status: 1, expires_at: 1 },
+      {
+        name: 'session_expiry_idx',
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ quiz_sessions indexes created');
+
+    // ============================================================================
+    // GENERATION JOBS INDEXES - For asynchronous question set generation
+    // ============================================================================
+    const jobsCol = database.collection('generation_jobs');
+
+    await jobsCol.createIndex(
+      { job_id: 1 },
+      {
+        name: 'generation_job_id_idx',
+        unique: true,
+        background: true,
+      }
+    );
+
+    // One queued/running job per request; finished jobs drop their active_key
+    // Used by: GenerationJobService.enqueue()
+    await jobsCol.createIndex(
+      { active_key: 1 },
+      {
+        name: 'generation_job_active_key_idx',
+        unique: true,
+        sparse: true,
+        background: true,
+      }
+    );
+
+    // Finished jobs by request, to hand a job's set to the students who waited for it
+    // Used by: GenerationJobService.findGeneratedSetId()
+    await jobsCol.createIndex(
+      { dedupe_key: 1, status: 1, finished_at: -1 },
+      {
+        name: 'generation_job_dedupe_key_idx',
+        background: true,
+      }
+    );
+
+    // Index for claiming the oldest queued job
+    // Used by: GenerationJobService.claimNext()
+    await jobsCol.createIndex(
+      { status: 1, created_at: 1 },
+      {
+        name: 'generation_job_queue_idx',
+        background: true,
+      }
+    );
+
+    // TTL index: finished jobs are removed after 7 days
+    await jobsCol.createIndex(
+      { finished_at: 1 },
+      {
+        name: 'generation_job_expiry_idx',
+        expireAfterSeconds: 7 * 24 * 60 * 60,
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ generation_jobs indexes created');
+
+    // ============================================================================
+    // UPLOADED DOCUMENT INDEXES - Duplicate detection and quarantine
+    // ============================================================================
+
+    // One document per file content and school (documents uploaded before hashing have none)
+    // Used by: POST /api/upload/syllabus
+    // Replaces the global document_content_hash_idx, which let one school's upload
+    // return another school's documentId
+    await database.collection('chapters').dropIndex('document_content_hash_idx').catch(() => undefined);
+    await database.collection('chapters').createIndex(
+      { content_hash: 1, school_id: 1 },
+      {
+        name: 'document_content_hash_school_idx',
+        unique: true,
+        partialFilterExpression: { content_hash: { $exists: true } },
+        background: true,
+      }
+    );
+
+    await database.collection('quarantined_uploads').createIndex(
+      { content_hash: 1 },
+      {
+        name: 'quarantine_content_hash_idx',
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ uploaded document indexes created');
+
+    // ============================================================================
+    // CHAPTER CONTENTS INDEXES - Per-chapter text cut from syllabus PDFs
+    // ============================================================================
+    const chapterContentsCol = database.collection('chapter_contents');
+
+    // Lookup by chapter id or name within a class + subject
+    // Used by: SyllabusService.getChapterText()
+    await chapterContentsCol.createIndex(
+      { classNumber: 1, subjectName: 1, chapterId: 1 },
+      {
+        name: 'chapter_content_id_idx',
+        background: true,
+      }
+    );
+
+    await chapterContentsCol.createIndex(
+      { classNumber: 1, subjectName: 1, chapterKey: 1 },
+      {
+        name: 'chapter_content_name_idx',
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ chapter_contents indexes created');
+
+    // One cached text per uploaded document
+    // Used by: DocumentTextService.getText()
+    await database.collection('pdf_texts').createIndex(
+      { documentId: 1 },
+      {
+        name: 'pdf_text_document_idx',
+        unique: true,
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ pdf_texts indexes created');
+
+    // ============================================================================
+    // SYLLABUS VERSION INDEXES - Snapshot and diff of every syllabus change
+    // ============================================================================
+
+    // One entry per syllabus and version number; newest first
+    // Used by: SyllabusVersionService.recordVersion(), listVersions()
+    await database.collection('syllabus_versions').createIndex(
+      { syllabusId: 1, version: -1 },
+      {
+        name: 'syllabus_version_idx',
+        unique: true,
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ syllabus_versions indexes created');
+
+    // ============================================================================
+    // SYLLABUS INDEXES - Board and school-specific curricula
+    // ============================================================================
+
+    // Syllabus of a class and subject for a board or a school's override
+    // Used by: CurriculumService.resolveSyllabus(), listSyllabi()
+    await database.collection('syllabi').createIndex(
+      { classNumber: 1, subjectName: 1, schoolId: 1, board: 1 },
+      {
+        name: 'syllabus_curriculum_idx',
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ syllabi indexes created');
+
+    // ============================================================================
+    // REVIEW QUEUE INDEXES - For spaced-repetition review
+    // ============================================================================
+    const reviewItemsCol = database.collection('review_items');
+
+    // One review item per student and question
+    // Used by: ReviewService.addIncorrectAnswers()
+    await reviewItemsCol.createIndex(
+      { student_id: 1, set_id: 1, question_id: 1 },
+      {
+        name: 'review_item_question_idx',
+        unique: true,
+        background: true,
+      }
+    );
+
+    await reviewItemsCol.createIndex(
+      { item_id: 1 },
+      {
+        name: 'review_item_id_idx',
+        unique: true,
+        background: true,
+      }
+    );
+
+    // Index for finding due items
+    // Used by: ReviewService.generateReviewQuiz()
+    await reviewItemsCol.createIndex(
+      { student_id: 1, subject: 1, due_at: 1 },
+      {
+        name: 'review_due_idx',
+        background: true,
+      }
+    );
+
+    const reviewSessionsCol = database.collection('review_sessions');
+
+    await reviewSessionsCol.createIndex(
+      { session_id: 1 },
+      {
+        name: 'review_session_id_idx',
+        unique: true,
+        background: true,
+      }
+    );
+
+    console.log('[Database] ✅ review queue indexes created');
+
     // ============================================================================
     // STUDENT SKILL STATS INDEXES - For analytics
     // ============================================================================
@@ -264,7 +524,11 @@ export const collections = {
   school_admins: () => getCollection('school_admins'), // School admins - school-specific access
   admins: () => getCollection('admins'), // DEPRECATED: Use super_admins or school_admins instead
   chapters: () => getCollection('chapters'),
+  quarantined_uploads: () => getCollection('quarantined_uploads'),
   syllabi: () => getCollection('syllabi'),
+  chapter_contents: () => getCollection('chapter_contents'),
+  syllabus_versions: () => getCollection('syllabus_versions'),
+  pdf_texts: () => getCollection('pdf_texts'),
   pdf_documents: () => getCollection('pdf_documents'),
   quiz_attempts: () => getCollection('quiz_attempts'),
   study_plans: () => getCollection('study_plans'),
@@ -273,7 +537,11 @@ export const collections = {
   // New quiz data model collections
   question_sets: () => getCollection('question_sets'),
   question_set_attempts: () => getCollection('question_set_attempts'),
+  quiz_sessions: () => getCollection('quiz_sessions'),
+  generation_jobs: () => getCollection<GenerationJob>('generation_jobs'),
   student_skill_stats: () => getCollection('student_skill_stats'),
+  review_items: () => getCollection('review_items'),
+  review_sessions: () => getCollection('review_sessions'),
 
   // Teacher management collections
   teachers: () => getCollection('teachers'),
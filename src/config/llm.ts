@@ -0,0 +1,67 @@
+// src/config/llm.ts
+/**
+ * LLM Provider Configuration
+ *
+ * LLM_PROVIDER selects the backend:
+ *   openai             - OpenAI API (OPENAI_API_KEY)
+ *   openai_compatible  - any OpenAI-compatible endpoint, e.g. Ollama or llama.cpp (LLM_BASE_URL)
+ *   fake               - deterministic fixture responses, no network (tests, offline demos)
+ *
+ * Model and temperature default per task and can be overridden with
+ * LLM_<TASK>_MODEL / LLM_<TASK>_TEMPERATURE (e.g. LLM_STUDY_PLAN_MODEL).
+ * LLM_MAX_REPAIR_ATTEMPTS bounds how often an invalid reply is sent back for repair.
+ * Settings are read on each call so tests and scripts can change them at runtime.
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+export type LLMProviderName = 'openai' | 'openai_compatible' | 'fake';
+
+export type LLMTask = 'question_generation' | 'explanations' | 'syllabus_parsing' | 'study_plan';
+
+export interface LLMTaskSettings {
+  model: string;
+  temperature: number;
+}
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'openai_compatible', 'fake'];
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+const TASK_TEMPERATURES: Record<LLMTask, number> = {
+  question_generation: 0.3,
+  explanations: 0.2,
+  syllabus_parsing: 0.2,
+  study_plan: 0.4,
+};
+
+export function getLLMProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase() as LLMProviderName;
+
+  if (!PROVIDERS.includes(name)) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}" (expected one of: ${PROVIDERS.join(', ')})`);
+  }
+  return name;
+}
+
+/**
+ * Model and temperature for a task
+ */
+export function getLLMTaskSettings(task: LLMTask): LLMTaskSettings {
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const temperature = parseFloat(process.env[`${prefix}_TEMPERATURE`] || '');
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || DEFAULT_MODEL,
+    temperature: Number.isFinite(temperature) ? temperature : TASK_TEMPERATURES[task],
+  };
+}
+
+/**
+ * Follow-up requests allowed after a reply fails validation (0 disables repair)
+ */
+export function getLLMMaxRepairAttempts(): number {
+  const attempts = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '');
+  return Number.isInteger(attempts) && attempts >= 0 ? attempts : DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
@@ -0,0 +1,82 @@
+// src/controllers/itemAnalysisController.ts
+/**
+ * Item Analysis Controller - Per-set and per-question reports for teachers
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { ItemAnalysisService } from '../services/itemAnalysisService';
+import type { ItemAnalysisFilter } from '../types/itemAnalysis';
+
+/**
+ * Read the report filter from the query string
+ * School staff can only report on their own school
+ */
+function parseFilter(req: AuthRequest): ItemAnalysisFilter {
+  const schoolId = req.query.school_id as string | undefined;
+
+  if (!schoolId) {
+    throw { status: 400, detail: 'school_id is required' };
+  }
+  if (req.user?.role !== 'super_admin' && req.user?.schoolId !== schoolId) {
+    throw { status: 403, detail: 'Forbidden: school_id does not match your school' };
+  }
+
+  const classNumber = req.query.class_number as string | undefined;
+  if (classNumber !== undefined && isNaN(parseInt(classNumber))) {
+    throw { status: 400, detail: 'class_number must be a number' };
+  }
+
+  return {
+    school_id: schoolId,
+    ...(classNumber !== undefined && { class_number: parseInt(classNumber) }),
+    ...(req.query.class_id && { class_id: req.query.class_id as string }),
+    ...(req.query.subject && { subject: req.query.subject as string }),
+    ...(req.query.chapter && { chapter: req.query.chapter as string }),
+    ...(req.query.topic && { topic: req.query.topic as string }),
+  };
+}
+
+export class ItemAnalysisController {
+  /**
+   * List attempted sets with a summary of their item analysis
+   *
+   * GET /api/quiz-v2/item-analysis/sets?school_id=...&class_number=...&class_id=...&subject=...&chapter=...&topic=...&limit=...
+   */
+  static async listSets(req: AuthRequest, res: Response): Promise<void | Response> {
+    try {
+      const filter = parseFilter(req);
+      const limit = parseInt(req.query.limit as string) || undefined;
+
+      const sets = await ItemAnalysisService.listSetReports(filter, limit);
+
+      res.json({ sets, count: sets.length });
+    } catch (error: any) {
+      console.error('[ItemAnalysisController] List sets error:', error);
+      res.status(error.status || 500).json({
+        error: error.detail || error.message || 'Failed to get item analysis',
+      });
+    }
+  }
+
+  /**
+   * Per-question report for one set: option counts, percent correct,
+   * discrimination and flags
+   *
+   * GET /api/quiz-v2/item-analysis/sets/:set_id?school_id=...&class_number=...&class_id=...
+   */
+  static async getSetReport(req: AuthRequest, res: Response): Promise<void | Response> {
+    try {
+      const filter = parseFilter(req);
+
+      const report = await ItemAnalysisService.getSetReport(req.params.set_id, filter);
+
+      res.json(report);
+    } catch (error: any) {
+      console.error('[ItemAnalysisController] Set report error:', error);
+      res.status(error.status || 500).json({
+        error: error.detail || error.message || 'Failed to get item analysis',
+      });
+    }
+  }
+}
@@ -7,96 +7,61 @@ import { Request, Response } from 'express';
 import { QuestionSetService } from '../services/questionSetService';
 import { AttemptService } from '../services/attemptService';
 import { SkillStatsService } from '../services/skillStatsService';
-import { LLMService } from '../services/llmService';
-import { SyllabusService } from '../services/syllabusService';
+import { GenerationJobService } from '../services/generationJobService';
+import { QuestionPoolService } from '../services/questionPoolService';
+import {
+  LLMService,
+  DEFAULT_QUESTIONS_PER_SET,
+  MIN_QUESTIONS_PER_SET,
+  MAX_QUESTIONS_PER_SET,
+} from '../services/llmService';
+import { QuizSessionService } from '../services/quizSessionService';
+import { AdaptiveDifficultyService } from '../services/adaptiveDifficultyService';
+import { CurriculumService } from '../services/curriculumService';
 import type {
   GenerateQuizRequest,
   GenerateQuizResponse,
   SubmitQuizRequest,
   SubmitQuizResponse,
-  Question,
+  QuestionSet,
+  QuizSession,
 } from '../types/questionSet';
 
 /**
- * Generate questions using AI based on chapter text
+ * Build the client payload for a delivered (or resumed) quiz session
  */
-async function generateQuestionsWithAI(
-  classNumber: number,
-  classLabel: string,
-  subject: string,
-  chapter: string,
-  topic: string,
-  numQuestions: number
-): Promise<{ questions: Question[]; difficulty_level: number }> {
-  console.log(`[AI Generation] Starting for ${subject} > ${chapter} > ${topic}`);
-
-  // 1. Get chapter text from syllabus
-  const chapterText = await SyllabusService.getChapterText(
-    classNumber,
-    subject,
-    chapter
-  );
-
-  if (!chapterText || chapterText.trim().length === 0) {
-    throw new Error(
-      `No content found for ${subject} > ${chapter}. Please ensure syllabus is uploaded.`
-    );
-  }
-
-  console.log(`[AI Generation] Retrieved ${chapterText.length} chars of chapter text`);
-
-  // 2. Generate questions using LLM
-  const llmQuestions = await LLMService.generateQuestionsFromText(
-    chapterText,
-    classLabel,
-    subject,
-    chapter,
-    classNumber
-  );
-
-  if (!llmQuestions || llmQuestions.length === 0) {
-    throw new Error('AI generated 0 questions. Please try again.');
-  }
-
-  // 3. Convert to new Question format and calculate overall difficulty
-  const questions: Question[] = llmQuestions.map((q) => ({
-    id: q.id,
-    question: q.question,
-    options: q.options,
-    correct_option_index: q.correct_option_index,
-    skills: q.skills,
-    features: {
-      memorization: q.features.memorization,
-      reasoning: q.features.reasoning,
-      numerical: q.features.numerical,
-      language: q.features.language,
-    },
-    difficulty_score: q.features.difficulty_score,
-  }));
-
-  // Calculate average difficulty for the set
-  const avgDifficultyScore =
-    questions.reduce((sum, q) => sum + q.difficulty_score, 0) / questions.length;
-
-  // Convert to 1-5 scale for difficulty_level
-  const difficulty_level = Math.max(1, Math.min(5, Math.round(avgDifficultyScore / 2)));
-
-  console.log(
-    `[AI Generation] Generated ${questions.length} questions with avg difficulty ${avgDifficultyScore.toFixed(2)} (level ${difficulty_level})`
-  );
-
+function buildSessionResponse(
+  session: QuizSession,
+  questionSet: QuestionSet,
+  isNewSet: boolean,
+  message: string
+): GenerateQuizResponse {
   return {
-    questions,
-    difficulty_level,
+    session_id: session.session_id,
+    set_id: questionSet.set_id,
+    questions: QuizSessionService.toPublicQuestions(questionSet.questions, session),
+    difficulty_level: questionSet.difficulty_level,
+    started_at: session.started_at,
+    time_limit_seconds: session.time_limit_seconds,
+    expires_at: session.expires_at,
+    is_new_set: isNewSet,
+    saved_answers: session.saved_answers || {},
+    ...(session.difficulty_target && {
+      target_difficulty_level: session.difficulty_target.target_level,
+      difficulty_rationale: session.difficulty_target.rationale,
+    }),
+    message,
   };
 }
 
 export class NewQuizController {
   /**
    * Generate or retrieve a quiz for a student
+   * Opens a quiz session; questions are returned without the answer key
+   * Without a usable set, queues a generation job and responds 202 with its job_id
    *
    * POST /api/quiz/generate
-   * Body: { student_id, school_id, class_number, class_label, subject, chapter, topic, num_questions? }
+   * Body: { student_id, school_id, class_number, class_label, subject, chapter, topic, num_questions?, difficulty_label?, question_types? }
    */
   static async generateQuiz(req: Request, res: Response): Promise<void | Response> {
     try {
@@ -124,10 +89,32 @@ export class NewQuizController {
         });
       }
 
-      const numQuestions = request.num_questions || 10;
+      const numQuestions = request.num_questions ?? DEFAULT_QUESTIONS_PER_SET;
+      if (
+        !Number.isInteger(numQuestions) ||
+        numQuestions < MIN_QUESTIONS_PER_SET ||
+        numQuestions > MAX_QUESTIONS_PER_SET
+      ) {
+        return res.status(400).json({
+          error: `num_questions must be a whole number from ${MIN_QUESTIONS_PER_SET} to ${MAX_QUESTIONS_PER_SET}`,
+        });
+      }
+
+      if (request.difficulty_label && !LLMService.isDifficultyLabel(request.difficulty_label)) {
+        return res.status(400).json({ error: 'difficulty_label must be one of: easy, medium, hard' });
+      }
 
-      // Step 1: Try to find an unattempted question set
-      const unattemptedSet = await QuestionSetService.findUnattemptedSet(
+      // The school's curriculum (board or own syllabus) decides which sets are used and generated
+      const { curriculum } = await CurriculumService.resolveSyllabus(
+        request.class_number,
+        request.subject,
+        request.school_id
+      );
+      delete request.curriculum_school_id;
+      Object.assign(request, CurriculumService.setFields(curriculum));
+
+      // Step 1: Resume the student's open quiz for this topic, if any
+      const openSessions = await QuizSessionService.findOpenSessions(
         request.student_id,
         request.class_number,
         request.subject,
@@ -135,94 +122,232 @@ export class NewQuizController {
         request.topic
       );
 
-      if (unattemptedSet) {
-        // Return existing unattempted set
-        const response: GenerateQuizResponse = {
-          set_id: unattemptedSet.set_id,
-          questions: unattemptedSet.questions,
-          difficulty_level: unattemptedSet.difficulty_level,
-          is_new_set: false,
-          message: 'Returning an existing question set you have not attempted yet',
-        };
-
-        return res.json(response);
+      if (request.resume !== false && openSessions.length > 0) {
+        const openSession = openSessions[0];
+        const openSet = await QuestionSetService.findSetById(openSession.set_id);
+
+        if (openSet) {
+          return res.json({
+            ...buildSessionResponse(
+              openSession,
+              openSet,
+              false,
+              'Resuming your open quiz for this topic'
+            ),
+            is_resumed: true,
+          });
+        }
       }
 
-      // Step 2: All sets attempted (or no sets exist), generate a new one
-      console.log(`Generating new AI question set for ${request.topic}...`);
+      // Step 2: Cap concurrently open quizzes per student and topic
+      const maxOpen = QuizSessionService.getMaxOpenSessionsPerTopic();
+      if (openSessions.length >= maxOpen) {
+        return res.status(409).json({
+          error: `You already have ${openSessions.length} open quizzes for this topic. Please finish one before starting another.`,
+          max_open_sessions: maxOpen,
+          open_session_ids: openSessions.map((os) => os.session_id),
+        });
+      }
 
-      const { questions, difficulty_level } = await generateQuestionsWithAI(
+      // Step 3: Pick the difficulty to target from the student's recent performance
+      const difficultyTarget = await AdaptiveDifficultyService.resolveTarget(request);
+
+      console.log('[NewQuizController] Difficulty target:', {
+        student_id: request.student_id,
+        topic: request.topic,
+        ...difficultyTarget,
+      });
+
+      // Step 4: Try to find an unattempted question set near the target
+      // (not already open in another session)
+      const unattemptedSet = await QuestionSetService.findUnattemptedSet(
+        request.student_id,
         request.class_number,
-        request.class_label,
         request.subject,
         request.chapter,
         request.topic,
-        numQuestions
+        openSessions.map((os) => os.set_id),
+        difficultyTarget,
+        numQuestions,
+        curriculum
       );
 
-      // Step 3: Save the new question set
-      const newSet = await QuestionSetService.createQuestionSet(
-        request,
-        questions,
-        difficulty_level
+      if (unattemptedSet) {
+        // Return existing unattempted set
+        const session = await QuizSessionService.createSession(
+          request,
+          unattemptedSet,
+          difficultyTarget
+        );
+
+        return res.json(
+          buildSessionResponse(
+            session,
+            unattemptedSet,
+            false,
+            'Returning an existing question set you have not attempted yet'
+          )
+        );
+      }
+
+      // Step 5: Deliver the set of a generation job this student waited for, even
+      // if it came out further from the target than Step 4 accepts
+      const attemptedSetIds = await QuestionSetService.getAttemptedSetIds(
+        request.student_id,
+        request.class_number,
+        request.subject,
+        request.chapter,
+        request.topic
+      );
+      const generatedSetId = await GenerationJobService.findGeneratedSetId(
+        { ...request, num_questions: numQuestions },
+        difficultyTarget,
+        [...attemptedSetIds, ...openSessions.map((os) => os.set_id)]
       );
+      const generatedSet = generatedSetId ? await QuestionSetService.findSetById(generatedSetId) : null;
 
-      const response: GenerateQuizResponse = {
-        set_id: newSet.set_id,
-        questions: newSet.questions,
-        difficulty_level: newSet.difficulty_level,
-        is_new_set: true,
-        message: 'Generated a new AI question set',
-      };
+      if (generatedSet) {
+        const session = await QuizSessionService.createSession(request, generatedSet, difficultyTarget);
 
-      res.json(response);
+        return res.json(
+          buildSessionResponse(session, generatedSet, true, 'Returning the question set generated for you')
+        );
+      }
+
+      // Step 6: No suitable set, queue generation of one at the target level
+      // (or attach to the job already generating it)
+      const { job, is_new_job } = await GenerationJobService.enqueue(
+        { ...request, num_questions: numQuestions },
+        difficultyTarget
+      );
+
+      res.status(202).json({
+        ...GenerationJobService.toResponse(job),
+        is_new_job,
+        difficulty_rationale: difficultyTarget.rationale,
+        message: 'Generating a new question set. Poll the job and call generate again once it has succeeded',
+      });
     } catch (error: any) {
       console.error('[NewQuizController] Generate error:', error);
       res.status(500).json({ error: error.message || 'Failed to generate quiz' });
     }
   }
 
+  /**
+   * Get the status of a question set generation job
+   * Once it has succeeded, calling generate again delivers the new set
+   *
+   * GET /api/quiz/jobs/:job_id?student_id=...
+   */
+  static async getGenerationJob(req: Request, res: Response): Promise<void | Response> {
+    try {
+      const jobId = req.params.job_id;
+      const studentId = req.query.student_id as string | undefined;
+
+      const job = await GenerationJobService.findJobById(jobId);
+
+      if (!job || (studentId && !job.requested_by.includes(studentId))) {
+        return res.status(404).json({ error: 'Generation job not found' });
+      }
+
+      res.json(GenerationJobService.toResponse(job));
+    } catch (error: any) {
+      console.error('[NewQuizController] Get generation job error:', error);
+      res.status(500).json({ error: error.message || 'Failed to get generation job' });
+    }
+  }
+
   /**
    * Submit quiz answers and record attempt
+   * Grades against the question set stored for the session. For timed
+   * sessions, submissions after the deadline are rejected (the session is
+   * finalized with its saved answers) or penalized, depending on policy.
    *
    * POST /api/quiz/submit
-   * Body: { student_id, school_id, set_id, answers: [{ question_id, selected_option_index }] }
+   * Body: { session_id, student_id, school_id, answers: [{ question_id, selected_option_index | response }] }
    */
   static async submitQuiz(req: Request, res: Response): Promise<void | Response> {
     try {
       const request: SubmitQuizRequest = req.body;
+      const receivedAt = new Date();
 
-      // Validate required fields
+      // Validate required fields (answers may be omitted if they were saved as drafts)
       if (
+        !request.session_id ||
         !request.student_id ||
         !request.school_id ||
-        !request.set_id ||
-        !request.answers ||
-        request.answers.length === 0
+        (request.answers !== undefined && !Array.isArray(request.answers))
       ) {
         return res.status(400).json({
           error: 'Missing required fields',
-          required: ['student_id', 'school_id', 'set_id', 'answers'],
+          required: ['session_id', 'student_id', 'school_id', 'answers'],
         });
       }
 
-      // Step 1: Fetch the question set
-      const questionSet = await QuestionSetService.findSetById(request.set_id);
+      // Step 1: Claim the session (rejects unknown, foreign or already-submitted sessions)
+      const session = await QuizSessionService.claimForSubmission(
+        request.session_id,
+        request.student_id
+      );
 
-      if (!questionSet) {
-        return res.status(404).json({ error: 'Question set not found' });
+      if (!session) {
+        const existing = await QuizSessionService.findSessionById(request.session_id);
+
+        if (!existing) {
+          return res.status(404).json({ error: 'Quiz session not found' });
+        }
+        if (existing.student_id !== request.student_id) {
+          return res.status(403).json({ error: 'Quiz session belongs to another student' });
+        }
+        return res.status(409).json({
+          error: 'Quiz session already submitted',
+          attempt_id: existing.attempt_id,
+        });
       }
 
-      // Step 2: Create the attempt record
-      const attempt = await AttemptService.createAttempt(request, questionSet);
+      // Step 2: Enforce the deadline for timed sessions
+      if (
+        QuizSessionService.isLate(session, receivedAt) &&
+        QuizSessionService.getLatePolicy() === 'reject'
+      ) {
+        const { attempt } = await QuizSessionService.finalizeExpiredSession(session);
 
-      // Step 3: Update student skill stats
-      const updatedStats = await SkillStatsService.updateStudentStats(
-        attempt,
-        questionSet
+        return res.status(410).json({
+          error: 'Quiz time limit exceeded',
+          details: 'The quiz was auto-submitted with the answers saved before the deadline',
+          attempt_id: attempt.attempt_id,
+          expires_at: session.expires_at,
+        });
+      }
+
+      // Step 3: Merge draft answers with the submitted ones (submitted answers win)
+      const answers = QuizSessionService.mergeWithSavedAnswers(session, request.answers || []);
+
+      if (answers.length === 0) {
+        await QuizSessionService.releaseSession(session.session_id);
+        return res.status(400).json({ error: 'No answers submitted or saved for this quiz' });
+      }
+
+      // Step 4: Grade against the stored set and update student skill stats
+      const { attempt, stats } = await QuizSessionService.gradeSession(
+        session,
+        { ...request, answers },
+        {
+          submitted_at: receivedAt,
+          auto_submitted: false,
+        }
       );
 
-      // Step 4: Build response
+      // Step 5: Top up the topic's question pool if this attempt consumed it
+      QuestionPoolService.refillTopicInBackground(
+        session.class_number,
+        session.subject,
+        session.chapter,
+        session.topic,
+        CurriculumService.ofSet(session)
+      );
+
+      // Step 6: Build response
       const response: SubmitQuizResponse = {
         attempt_id: attempt.attempt_id,
         score_total: attempt.score_total,
@@ -231,13 +356,134 @@ export class NewQuizController {
         incorrect_count: attempt.incorrect_count,
         total_questions: attempt.total_questions,
         features_aggregated: attempt.features_aggregated,
-        skill_breakdown: updatedStats.skills,
+        skill_breakdown: stats.skills,
+        time_taken_seconds: attempt.time_taken_seconds,
+        is_late: attempt.is_late,
+        late_penalty_percent: attempt.late_penalty_percent,
       };
 
       res.json(response);
     } catch (error: any) {
       console.error('[NewQuizController] Submit error:', error);
-      res.status(500).json({ error: error.message || 'Failed to submit quiz' });
+      res
+        .status(error.status || 500)
+        .json({ error: error.detail || error.message || 'Failed to submit quiz' });
+    }
+  }
+
+  /**
+   * Get an open quiz session to resume it (questions, saved answers, deadline)
+   *
+   * GET /api/quiz/session/:session_id?student_id=...
+   */
+  static async getSession(req: Request, res: Response): Promise<void | Response> {
+    try {
+      const sessionId = req.params.session_id;
+      const studentId = req.query.student_id as string | undefined;
+
+      const session = await QuizSessionService.findSessionById(sessionId);
+
+      if (!session || (studentId && session.student_id !== studentId)) {
+        return res.status(404).json({ error: 'Quiz session not found' });
+      }
+
+      if (session.status !== 'active') {
+        return res.json({
+          session_id: session.session_id,
+          status: session.status,
+          attempt_id: session.attempt_id,
+        });
+      }
+
+      const questionSet = await QuestionSetService.findSetById(session.set_id);
+
+      if (!questionSet) {
+        return res.status(404).json({ error: 'Question set not found' });
+      }
+
+      res.json({
+        ...buildSessionResponse(session, questionSet, false, 'Resuming your open quiz'),
+        status: session.status,
+        is_resumed: true,
+      });
+    } catch (error: any) {
+      console.error('[NewQuizController] Get session error:', error);
+      res.status(500).json({ error: error.message || 'Failed to get quiz session' });
+    }
+  }
+
+  /**
+   * Save the draft answer for a single question
+   *
+   * PATCH /api/quiz/session/:session_id/answers/:question_id
+   * Body: { student_id, response }  (or selected_option_index for MCQ; null or -1 clears the answer)
+   */
+  static async saveAnswer(req: Request, res: Response): Promise<void | Response> {
+    try {
+      const { session_id: sessionId, question_id: questionId } = req.params;
+      const { student_id: studentId } = req.body;
+      const response =
+        req.body.response !== undefined ? req.body.response : req.body.selected_option_index;
+
+      if (!studentId || response === undefined) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['student_id', 'response'],
+        });
+      }
+
+      const session = await QuizSessionService.saveAnswer(
+        sessionId,
+        studentId,
+        questionId,
+        response
+      );
+
+      res.json({
+        session_id: session.session_id,
+        saved_answers: session.saved_answers || {},
+        answered_count: Object.keys(session.saved_answers || {}).length,
+        total_questions: session.question_ids.length,
+        last_saved_at: session.last_saved_at,
+      });
+    } catch (error: any) {
+      console.error('[NewQuizController] Save answer error:', error);
+      res
+        .status(error.status || 500)
+        .json({ error: error.detail || error.message || 'Failed to save answer' });
+    }
+  }
+
+  /**
+   * Set or clear the time limit for a question set (teachers/admins)
+   *
+   * PATCH /api/quiz/sets/:set_id/time-limit
+   * Body: { time_limit_seconds: number | null }
+   */
+  static async updateSetTimeLimit(req: Request, res: Response): Promise<void | Response> {
+    try {
+      const setId = req.params.set_id;
+      const timeLimit = req.body.time_limit_seconds;
+
+      if (
+        timeLimit !== null &&
+        (typeof timeLimit !== 'number' || !Number.isInteger(timeLimit) || timeLimit <= 0)
+      ) {
+        return res.status(400).json({
+          error: 'time_limit_seconds must be a positive whole number of seconds, or null to clear it',
+        });
+      }
+
+      const updated = await QuestionSetService.updateTimeLimit(setId, timeLimit);
+
+      if (!updated) {
+        return res.status(404).json({ error: 'Question set not found' });
+      }
+
+      res.json({ set_id: setId, time_limit_seconds: timeLimit });
+    } catch (error: any) {
+      console.error('[NewQuizController] Update time limit error:', error);
+      res.status(500).json({ error: error.message || 'Failed to update time limit' });
     }
   }
 
@@ -369,8 +615,10 @@ export class NewQuizController {
 
   /**
    * Get detailed attempt by ID
+   * Correct answers are only revealed to the student who took the attempt, as
+   * review data, once its quiz session has been submitted
    *
-   * GET /api/quiz/attempt/:attempt_id
+   * GET /api/quiz/attempt/:attempt_id?student_id=...
    */
   static async getAttemptDetails(
     req: Request,
@@ -378,19 +626,28 @@ export class NewQuizController {
   ): Promise<void | Response> {
     try {
       const attemptId = req.params.attempt_id;
+      const studentId = req.query.student_id as string | undefined;
+
+      if (!studentId) {
+        return res.status(400).json({ error: 'Missing required query parameter: student_id' });
+      }
 
       const attempt = await AttemptService.getAttemptById(attemptId);
 
-      if (!attempt) {
+      if (!attempt || attempt.student_id !== studentId) {
         return res.status(404).json({ error: 'Attempt not found' });
       }
 
-      // Also fetch the question set for full details
-      const questionSet = await QuestionSetService.findSetById(attempt.set_id);
+      const session = attempt.session_id
+        ? await QuizSessionService.findSessionById(attempt.session_id)
+        : null;
+      const questionSet = QuizSessionService.isReviewable(attempt, session)
+        ? await QuestionSetService.findSetById(attempt.set_id)
+        : null;
 
       res.json({
         attempt,
-        question_set: questionSet,
+        review: questionSet ? QuizSessionService.buildReview(questionSet, attempt) : [],
       });
     } catch (error: any) {
       console.error('[NewQuizController] Attempt details error:', error);
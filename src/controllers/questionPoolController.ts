@@ -0,0 +1,68 @@
+// src/controllers/questionPoolController.ts
+/**
+ * Question Pool Controller - Pool health and manual refills for super admins
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { QuestionPoolService, type PoolFilter } from '../services/questionPoolService';
+import { CurriculumService } from '../services/curriculumService';
+
+/**
+ * Read the class/subject/curriculum filter from the query string
+ */
+function parseFilter(req: AuthRequest): PoolFilter {
+  const classNumber = req.query.class_number as string | undefined;
+  if (classNumber !== undefined && isNaN(parseInt(classNumber))) {
+    throw { status: 400, detail: 'class_number must be a number' };
+  }
+
+  return {
+    ...(classNumber !== undefined && { class_number: parseInt(classNumber) }),
+    ...(req.query.subject && { subject: req.query.subject as string }),
+    ...(req.query.board && { board: CurriculumService.normalizeBoard(req.query.board) }),
+    ...(req.query.school_id && { school_id: req.query.school_id as string }),
+  };
+}
+
+export class QuestionPoolController {
+  /**
+   * Pool health per class and subject
+   *
+   * GET /api/admin/question-pools?class_number=...&subject=...
+   */
+  static async getPoolHealth(req: AuthRequest, res: Response): Promise<void | Response> {
+    try {
+      const pools = await QuestionPoolService.getPoolHealth(parseFilter(req));
+
+      res.json({
+        min_sets_per_topic: QuestionPoolService.getMinSetsPerTopic(),
+        pools,
+        count: pools.length,
+      });
+    } catch (error: any) {
+      console.error('[QuestionPoolController] Pool health error:', error);
+      res.status(error.status || 500).json({
+        error: error.detail || error.message || 'Failed to get question pool health',
+      });
+    }
+  }
+
+  /**
+   * Queue generation jobs for topics below the minimum now
+   *
+   * POST /api/admin/question-pools/refill?class_number=...&subject=...
+   */
+  static async refill(req: AuthRequest, res: Response): Promise<void | Response> {
+    try {
+      const result = await QuestionPoolService.refillPools(parseFilter(req));
+
+      res.status(202).json(result);
+    } catch (error: any) {
+      console.error('[QuestionPoolController] Refill error:', error);
+      res.status(error.status || 500).json({
+        error: error.detail || error.message || 'Failed to refill question pools',
+      });
+    }
+  }
+}
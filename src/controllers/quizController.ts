@@ -7,6 +7,9 @@ import { Request, Response } from 'express';
 import { QuizService } from '../services/quizService';
 import { StudyPlanService } from '../services/studyPlanService';
 import { QuestionSetService } from '../services/questionSetService';
+import { QuizSessionService } from '../services/quizSessionService';
+import { CurriculumService } from '../services/curriculumService';
+import { LLMService, MIN_QUESTIONS_PER_SET, MAX_QUESTIONS_PER_SET } from '../services/llmService';
 import type { GenerateQuizRequest, SubmitQuizRequest } from '../types/questionSet';
 
 /**
@@ -92,6 +95,33 @@ function validateQuizPayload(body: any): ValidationError[] {
     });
   }
 
+  // difficultyLabel: optional, easy | medium | hard
+  const difficultyLabel =
+    typeof body.difficultyLabel === 'string' ? body.difficultyLabel.trim().toLowerCase() : body.difficultyLabel;
+  if (difficultyLabel && !LLMService.isDifficultyLabel(difficultyLabel)) {
+    errors.push({
+      field: 'difficultyLabel',
+      message: 'Optional field must be one of: easy, medium, hard',
+      receivedValue: body.difficultyLabel,
+      expectedType: 'string',
+    });
+  }
+
+  // numQuestions: optional whole number in the supported range
+  if (
+    body.numQuestions !== undefined &&
+    (!Number.isInteger(body.numQuestions) ||
+      body.numQuestions < MIN_QUESTIONS_PER_SET ||
+      body.numQuestions > MAX_QUESTIONS_PER_SET)
+  ) {
+    errors.push({
+      field: 'numQuestions',
+      message: `Optional field must be a whole number from ${MIN_QUESTIONS_PER_SET} to ${MAX_QUESTIONS_PER_SET}`,
+      receivedValue: body.numQuestions,
+      expectedType: 'number',
+    });
+  }
+
   return errors;
 }
 
@@ -194,9 +224,9 @@ export const generateQuiz = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    if (error.message?.includes('OPENAI_API_KEY')) {
+    if (error.message?.includes('OPENAI_API_KEY') || error.message?.includes('LLM_')) {
       res.status(500).json({
-        error: 'OpenAI API configuration error',
+        error: 'LLM provider configuration error',
         details: 'The AI service is not properly configured',
       });
       return;
@@ -414,7 +444,7 @@ export const getAllStudyPlans = async (req: Request, res: Response): Promise<voi
  *   chapter: string,
  *   topic: string,
  *   difficultyLabel?: string,  // "easy" | "medium" | "hard" | optional
- *   numQuestions?: number       // Default 10
+ *   numQuestions?: number       // 5-30, default 10
  * }
  */
 export const generateQuizV2 = async (req: Request, res: Response): Promise<void> => {
@@ -431,7 +461,7 @@ export const generateQuizV2 = async (req: Request, res: Response): Promise<void>
       res.status(400).json({
         error: 'Invalid request payload',
         validationErrors,
-        hint: 'Expected camelCase payload with: studentId, schoolId, classNumber, classLabel, subject, chapter, topic, difficultyLabel? (optional)',
+        hint: 'Expected camelCase payload with: studentId, schoolId, classNumber, classLabel, subject, chapter, topic, difficultyLabel? (easy | medium | hard), numQuestions? (5-30)',
       });
       return;
     }
@@ -459,26 +489,34 @@ export const generateQuizV2 = async (req: Request, res: Response): Promise<void>
       subject: subject.trim(),
       chapter: chapter.trim(),
       topic: topic.trim(),
-      difficulty_label: difficultyLabel?.trim(),
+      difficulty_label: difficultyLabel?.trim().toLowerCase(),
       num_questions: numQuestions,
     };
 
-    // Fetch chapter text (needed for AI generation if quiz set doesn't exist)
-    const { SyllabusService } = await import('../services/syllabusService');
-    const chapterText = await SyllabusService.getChapterText(
-      classNumber,
-      subject.trim(),
-      chapter.trim()
-    );
-
-    if (!chapterText) {
-      throw new Error(`No syllabus content found for class ${classNumber}, subject ${subject}, chapter ${chapter}`);
-    }
+    // The school's curriculum (board or own syllabus) decides which sets are reused and generated
+    const { curriculum } = await CurriculumService.resolveSyllabus(classNumber, request.subject, request.school_id);
+    Object.assign(request, CurriculumService.setFields(curriculum));
+
+    // Chapter text is only fetched if no existing quiz set can be reused
+    const loadChapterText = async () => {
+      const { SyllabusService } = await import('../services/syllabusService');
+      const chapterText = await SyllabusService.getChapterText(
+        classNumber,
+        subject.trim(),
+        chapter.trim(),
+        curriculum
+      );
+
+      if (!chapterText) {
+        throw new Error(`No syllabus content found for class ${classNumber}, subject ${subject}, chapter ${chapter}`);
+      }
+      return chapterText;
+    };
 
     console.log('[QuizController V2] Calling QuestionSetService.findOrCreateQuizSet');
 
     // Find or create quiz set (core reuse logic)
-    const { questionSet, is_new } = await QuestionSetService.findOrCreateQuizSet(request, chapterText);
+    const { questionSet, is_new } = await QuestionSetService.findOrCreateQuizSet(request, loadChapterText);
 
     console.log('[QuizController V2] Quiz set obtained:', {
       set_id: questionSet.set_id,
@@ -486,14 +524,8 @@ export const generateQuizV2 = async (req: Request, res: Response): Promise<void>
       question_count: questionSet.questions.length,
     });
 
-    // Don't send correct answers to frontend
-    const questionsForFrontend = questionSet.questions.map((q) => ({
-      id: q.id,
-      question: q.question,
-      options: q.options,
-      skills: q.skills,
-      features: q.features,
-    }));
+    // Don't send correct answers to frontend; typed questions keep what they need to be answered
+    const questionsForFrontend = QuizSessionService.toPublicQuestions(questionSet.questions);
 
     res.status(201).json({
       set_id: questionSet.set_id,
@@ -522,9 +554,9 @@ export const generateQuizV2 = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (error.message?.includes('OPENAI_API_KEY')) {
+    if (error.message?.includes('OPENAI_API_KEY') || error.message?.includes('LLM_')) {
       res.status(500).json({
-        error: 'OpenAI API configuration error',
+        error: 'LLM provider configuration error',
         details: 'The AI service is not properly configured',
       });
       return;
@@ -545,6 +577,8 @@ export const generateQuizV2 = async (req: Request, res: Response): Promise<void>
  * This endpoint stores student quiz attempts separately from quiz sets.
  * Multiple students can attempt the same quiz set, and each student can
  * attempt the same set multiple times.
+ * Attempts recorded here have no quiz session, so GET /api/quiz-v2/attempt
+ * never reveals their answer key (any answers can be submitted to any set).
  *
  * Expected payload:
  * {
@@ -605,6 +639,7 @@ export const submitQuizV2 = async (req: Request, res: Response): Promise<void> =
       answers: answers.map((ans: any) => ({
         question_id: ans.questionId,
         selected_option_index: ans.selectedOptionIndex,
+        response: ans.response,
       })),
     };
 
@@ -0,0 +1,83 @@
+// src/controllers/reviewController.ts
+/**
+ * Review Controller - Spaced-repetition review quizzes built from missed questions
+ */
+
+import { Request, Response } from 'express';
+import { ReviewService } from '../services/reviewService';
+import type { GenerateReviewRequest, SubmitReviewRequest } from '../types/review';
+
+export class ReviewController {
+  /**
+   * Get a student's review queue summary (due count per topic)
+   *
+   * GET /api/quiz-v2/review/queue/:student_id?subject=...
+   */
+  static async getQueue(req: Request, res: Response): Promise<void | Response> {
+    try {
+      const studentId = req.params.student_id;
+      const subject = req.query.subject as string | undefined;
+
+      const summary = await ReviewService.getQueueSummary(studentId, subject);
+
+      res.json(summary);
+    } catch (error: any) {
+      console.error('[ReviewController] Queue error:', error);
+      res.status(500).json({ error: error.message || 'Failed to get review queue' });
+    }
+  }
+
+  /**
+   * Build today's review quiz from due items across topics
+   *
+   * POST /api/quiz-v2/review/generate
+   * Body: { student_id, school_id, subject?, limit? }
+   */
+  static async generateReview(req: Request, res: Response): Promise<void | Response> {
+    try {
+      const request: GenerateReviewRequest = req.body;
+
+      if (!request.student_id || !request.school_id) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['student_id', 'school_id'],
+        });
+      }
+
+      const response = await ReviewService.generateReviewQuiz(request);
+
+      res.json(response);
+    } catch (error: any) {
+      console.error('[ReviewController] Generate error:', error);
+      res.status(500).json({ error: error.message || 'Failed to generate review quiz' });
+    }
+  }
+
+  /**
+   * Submit a review quiz; reschedules each item, does not record a quiz attempt
+   *
+   * POST /api/quiz-v2/review/submit
+   * Body: { session_id, student_id, answers: [{ question_id, selected_option_index | response }] }
+   */
+  static async submitReview(req: Request, res: Response): Promise<void | Response> {
+    try {
+      const request: SubmitReviewRequest = req.body;
+
+      if (!request.session_id || !request.student_id || !Array.isArray(request.answers)) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['session_id', 'student_id', 'answers'],
+        });
+      }
+
+      const response = await ReviewService.submitReviewQuiz(request);
+
+      res.json(response);
+    } catch (error: any) {
+      console.error('[ReviewController] Submit error:', error);
+      res
+        .status(error.status || 500)
+        .json({ error: error.detail || error.message || 'Failed to submit review quiz' });
+    }
+  }
+}
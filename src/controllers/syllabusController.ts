@@ -11,15 +11,27 @@ import { AuthRequest } from '../middleware/auth';
  * Trigger AI parsing for uploaded PDF
  * POST /api/syllabus/parse/:documentId
  */
-export const parseSyllabus = async (req: Request, res: Response): Promise<void> => {
+export const parseSyllabus = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { documentId } = req.params;
-    const { classHint, subjectHint } = req.body;
+    const { classHint, subjectHint, board, schoolId } = req.body;
+
+    // School admins parse into their own school's syllabus; super admins into a board's or any school's
+    const isSuperAdmin = req.user?.role === 'super_admin';
+    if (!isSuperAdmin && (!req.user?.schoolId || (schoolId && schoolId !== req.user.schoolId))) {
+      res.status(403).json({ error: 'Forbidden: school_admins can only parse their own school\'s syllabus' });
+      return;
+    }
+
+    // The document itself must be the caller's school's upload
+    await SyllabusService.checkDocumentAccess(documentId, req.user);
 
     const syllabus = await SyllabusService.uploadAndParseSyllabus(
       documentId,
       classHint,
-      subjectHint
+      subjectHint,
+      req.user?.userId,
+      { board, schoolId: isSuperAdmin ? schoolId : req.user?.schoolId }
     );
 
     res.status(201).json({
@@ -28,12 +40,15 @@ export const parseSyllabus = async (req: Request, res: Response): Promise<void>
         classLabel: syllabus.classLabel,
         classNumber: syllabus.classNumber,
         subjectName: syllabus.subjectName,
+        board: syllabus.board,
+        schoolId: syllabus.schoolId,
         chapterCount: syllabus.chapters.length,
+        version: syllabus.version,
       },
     });
   } catch (error: any) {
     console.error('Error parsing syllabus:', error);
-    res.status(500).json({ error: error.message || 'Failed to parse syllabus' });
+    res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to parse syllabus' });
   }
 };
 
@@ -61,7 +76,10 @@ export const getSubjectsForStudent = async (
     }
 
     console.log('[Syllabus] Fetching subjects for class:', classNumber);
-    const subjects = await SyllabusService.getSubjectsForClass(classNumber);
+    const subjects = await SyllabusService.getSubjectsForClass(
+      classNumber,
+      req.student?.schoolId || req.user?.schoolId
+    );
 
     console.log('[Syllabus] Found', subjects.length, 'subjects');
     res.json({ subjects });
@@ -0,0 +1,208 @@
+// src/controllers/syllabusEditController.ts
+/**
+ * Syllabus Edit Controller - Admin curation of chapters and topics
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { SyllabusEditService } from '../services/syllabusEditService';
+import { SyllabusService } from '../services/syllabusService';
+import { SyllabusVersionService } from '../services/syllabusVersionService';
+import { CurriculumService } from '../services/curriculumService';
+import { Chapter, SyllabusDocument } from '../types/syllabus';
+
+/**
+ * Route guard: the admin must be allowed to read or change :syllabusId
+ */
+export const requireSyllabusAccess =
+  (access: 'read' | 'write') =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const syllabus = await SyllabusEditService.getSyllabus(req.params.syllabusId);
+      SyllabusEditService.assertAccess(syllabus, req.user, access);
+      next();
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to load syllabus' });
+    }
+  };
+
+/**
+ * Run one edit and reply with the updated syllabus
+ */
+const runEdit = async (
+  req: AuthRequest,
+  res: Response,
+  edit: (chapters: Chapter[]) => Chapter[],
+  options: { chaptersChanged?: boolean; status?: number } = {}
+): Promise<void> => {
+  try {
+    const { syllabus: edited, previousChapters } = await SyllabusEditService.applyEdit(req.params.syllabusId, edit);
+    await SyllabusVersionService.recordVersion(edited, previousChapters, 'edit', req.user?.userId);
+
+    // Chapter contents are re-cut from the source document when chapters changed
+    let syllabus = edited;
+    if (options.chaptersChanged && edited.sourcePdfId) {
+      try {
+        syllabus = await SyllabusService.refreshChapterContents(edited);
+      } catch (error: any) {
+        console.warn('[SyllabusEdit] ⚠️ Could not refresh chapter contents:', error.message);
+      }
+    }
+
+    res.status(options.status || 200).json({ syllabus: toResponse(syllabus) });
+  } catch (error: any) {
+    console.error('[SyllabusEdit] Error editing syllabus:', error);
+    res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to edit syllabus' });
+  }
+};
+
+const toResponse = (syllabus: SyllabusDocument) => ({
+  id: syllabus._id?.toString(),
+  classLabel: syllabus.classLabel,
+  classNumber: syllabus.classNumber,
+  subjectName: syllabus.subjectName,
+  board: CurriculumService.ofSyllabus(syllabus).board,
+  schoolId: syllabus.schoolId || null,
+  sourcePdfId: syllabus.sourcePdfId || null,
+  version: syllabus.version || null,
+  updatedAt: syllabus.updatedAt,
+  chapters: syllabus.chapters.map((chapter) => ({
+    chapterId: chapter.chapterId,
+    chapterName: chapter.chapterName,
+    source: chapter.source || 'ai',
+    locked: chapter.locked === true,
+    located: Boolean(chapter.textRange),
+    topics: chapter.topics.map((topic) => ({
+      topicId: topic.topicId,
+      topicName: topic.topicName,
+      source: topic.source || 'ai',
+      locked: topic.locked === true,
+    })),
+  })),
+});
+
+/**
+ * Create an empty syllabus by hand
+ * POST /api/syllabus
+ */
+export const createSyllabus = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    // School admins can only create their own school's override
+    const input = { ...req.body };
+    if (req.user?.role !== 'super_admin') {
+      if (!req.user?.schoolId || (input.schoolId !== undefined && input.schoolId !== req.user.schoolId)) {
+        throw { status: 403, detail: 'Forbidden: school admins can only create their own school\'s syllabus' };
+      }
+      input.schoolId = req.user.schoolId;
+    }
+
+    const syllabus = await SyllabusEditService.createSyllabus(input);
+    await SyllabusVersionService.recordVersion(syllabus, [], 'create', req.user?.userId);
+    res.status(201).json({ syllabus: toResponse(syllabus) });
+  } catch (error: any) {
+    console.error('[SyllabusEdit] Error creating syllabus:', error);
+    res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to create syllabus' });
+  }
+};
+
+/**
+ * Get a syllabus with curation details
+ * GET /api/syllabus/:syllabusId
+ */
+export const getSyllabus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const syllabus = await SyllabusEditService.getSyllabus(req.params.syllabusId);
+    res.json({ syllabus: toResponse(syllabus) });
+  } catch (error: any) {
+    console.error('[SyllabusEdit] Error getting syllabus:', error);
+    res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to get syllabus' });
+  }
+};
+
+/**
+ * POST /api/syllabus/:syllabusId/chapters
+ */
+export const createChapter = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) => SyllabusEditService.createChapter(chapters, req.body), {
+    chaptersChanged: true,
+    status: 201,
+  });
+
+/**
+ * PATCH /api/syllabus/:syllabusId/chapters/:chapterId
+ */
+export const updateChapter = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) => SyllabusEditService.updateChapter(chapters, req.params.chapterId, req.body), {
+    chaptersChanged: req.body.chapterName !== undefined,
+  });
+
+/**
+ * DELETE /api/syllabus/:syllabusId/chapters/:chapterId
+ */
+export const deleteChapter = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) => SyllabusEditService.deleteChapter(chapters, req.params.chapterId), {
+    chaptersChanged: true,
+  });
+
+/**
+ * POST /api/syllabus/:syllabusId/chapters/reorder
+ */
+export const reorderChapters = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) => SyllabusEditService.reorderChapters(chapters, req.body.chapterIds), {
+    chaptersChanged: true,
+  });
+
+/**
+ * POST /api/syllabus/:syllabusId/chapters/merge
+ */
+export const mergeChapters = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(
+    req,
+    res,
+    (chapters) => SyllabusEditService.mergeChapters(chapters, req.body.chapterIds, req.body.chapterName),
+    { chaptersChanged: true }
+  );
+
+/**
+ * POST /api/syllabus/:syllabusId/chapters/:chapterId/split
+ */
+export const splitChapter = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(
+    req,
+    res,
+    (chapters) =>
+      SyllabusEditService.splitChapter(chapters, req.params.chapterId, req.body.atTopicId, req.body.newChapterName),
+    { chaptersChanged: true }
+  );
+
+/**
+ * POST /api/syllabus/:syllabusId/chapters/:chapterId/topics
+ */
+export const addTopic = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) => SyllabusEditService.addTopic(chapters, req.params.chapterId, req.body), {
+    status: 201,
+  });
+
+/**
+ * PATCH /api/syllabus/:syllabusId/chapters/:chapterId/topics/:topicId
+ */
+export const updateTopic = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) =>
+    SyllabusEditService.updateTopic(chapters, req.params.chapterId, req.params.topicId, req.body)
+  );
+
+/**
+ * DELETE /api/syllabus/:syllabusId/chapters/:chapterId/topics/:topicId
+ */
+export const deleteTopic = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) =>
+    SyllabusEditService.deleteTopic(chapters, req.params.chapterId, req.params.topicId)
+  );
+
+/**
+ * POST /api/syllabus/:syllabusId/chapters/:chapterId/topics/reorder
+ */
+export const reorderTopics = (req: AuthRequest, res: Response): Promise<void> =>
+  runEdit(req, res, (chapters) =>
+    SyllabusEditService.reorderTopics(chapters, req.params.chapterId, req.body.topicIds)
+  );
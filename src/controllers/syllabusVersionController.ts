@@ -0,0 +1,61 @@
+// src/controllers/syllabusVersionController.ts
+/**
+ * Syllabus Version Controller - Version history, diffs and topic migration
+ */
+
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { SyllabusVersionService } from '../services/syllabusVersionService';
+
+const parseVersion = (value: string): number => {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) throw { status: 400, detail: 'version must be a positive integer' };
+  return version;
+};
+
+/**
+ * List a syllabus's versions, newest first (diffs without snapshots)
+ * GET /api/syllabus/:syllabusId/versions
+ */
+export const listVersions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const versions = await SyllabusVersionService.listVersions(req.params.syllabusId);
+    res.json({ versions, count: versions.length });
+  } catch (error: any) {
+    console.error('[SyllabusVersion] Error listing versions:', error);
+    res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to list versions' });
+  }
+};
+
+/**
+ * One version with its snapshot and diff
+ * GET /api/syllabus/:syllabusId/versions/:version
+ */
+export const getVersion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const version = await SyllabusVersionService.getVersion(req.params.syllabusId, parseVersion(req.params.version));
+    res.json({ version });
+  } catch (error: any) {
+    console.error('[SyllabusVersion] Error getting version:', error);
+    res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to get version' });
+  }
+};
+
+/**
+ * Re-point question sets, attempts and sessions to the version's topics
+ * POST /api/syllabus/:syllabusId/versions/:version/migrate
+ */
+export const migrateVersion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const migration = await SyllabusVersionService.migrate(
+      req.params.syllabusId,
+      parseVersion(req.params.version),
+      req.body?.mappings,
+      req.user?.userId
+    );
+    res.json({ migration });
+  } catch (error: any) {
+    console.error('[SyllabusVersion] Error migrating version:', error);
+    res.status(error.status || 500).json({ error: error.detail || error.message || 'Failed to migrate version' });
+  }
+};
@@ -5,6 +5,9 @@ dotenv.config();
 import app from './app';
 import { connectDB } from './config/database';
 import { initializePdfDirectory } from './utils/pathUtils';
+import { QuizSessionService } from './services/quizSessionService';
+import { GenerationJobService } from './services/generationJobService';
+import { QuestionPoolService } from './services/questionPoolService';
 import logger from './utils/logger';
 
 const PORT: number = parseInt(process.env.PORT || '8000');
@@ -15,6 +18,15 @@ connectDB()
     // Initialize PDF directory and list available PDFs
     await initializePdfDirectory();
 
+    // Auto-submit timed quiz sessions that have run past their deadline
+    QuizSessionService.startExpirySweep();
+
+    // Process queued question set generation jobs
+    GenerationJobService.startWorker();
+
+    // Keep a minimum of unattempted question sets per syllabus topic
+    QuestionPoolService.startPoolManager();
+
     app.listen(PORT, () => {
       logger.info(`🚀 Backend server running on http://localhost:${PORT}`);
       logger.info(`✅ MongoDB connected successfully`);
@@ -4,6 +4,7 @@ import express from 'express';
 import { getSystemAnalytics } from '../controllers/analyticsController';
 // @ts-ignore
 import { getAllUsers } from '../controllers/userManagementController';
+import { QuestionPoolController } from '../controllers/questionPoolController';
 import { authenticateToken, requireRole } from '../middleware/auth';
 
 const router = express.Router();
@@ -15,4 +16,8 @@ router.use(requireRole(['super_admin']));
 router.get('/analytics', getSystemAnalytics);
 router.get('/users', getAllUsers);
 
+// Pre-warmed question set pools per syllabus topic
+router.get('/question-pools', QuestionPoolController.getPoolHealth);
+router.post('/question-pools/refill', QuestionPoolController.refill);
+
 export default router;
@@ -5,6 +5,9 @@
 
 import express, { Router } from 'express';
 import { NewQuizController } from '../controllers/newQuizController';
+import { ReviewController } from '../controllers/reviewController';
+import { ItemAnalysisController } from '../controllers/itemAnalysisController';
+import { authenticateToken, requireRole } from '../middleware/auth';
 
 const router: Router = express.Router();
 
@@ -15,9 +18,43 @@ const router: Router = express.Router();
 // POST /api/quiz-v2/generate - Generate or retrieve a quiz
 router.post('/generate', NewQuizController.generateQuiz);
 
+// GET /api/quiz-v2/jobs/:job_id - Status of a question set generation job
+router.get('/jobs/:job_id', NewQuizController.getGenerationJob);
+
 // POST /api/quiz-v2/submit - Submit quiz answers
 router.post('/submit', NewQuizController.submitQuiz);
 
+// GET /api/quiz-v2/session/:session_id - Resume an open quiz
+router.get('/session/:session_id', NewQuizController.getSession);
+
+// PATCH /api/quiz-v2/session/:session_id/answers/:question_id - Save one draft answer
+router.patch('/session/:session_id/answers/:question_id', NewQuizController.saveAnswer);
+
+// ============================================================
+// SPACED-REPETITION REVIEW
+// ============================================================
+
+// GET /api/quiz-v2/review/queue/:student_id - Review queue summary
+router.get('/review/queue/:student_id', ReviewController.getQueue);
+
+// POST /api/quiz-v2/review/generate - Build a review quiz from due items
+router.post('/review/generate', ReviewController.generateReview);
+
+// POST /api/quiz-v2/review/submit - Grade a review quiz and reschedule items
+router.post('/review/submit', ReviewController.submitReview);
+
+// ============================================================
+// QUESTION SET SETTINGS
+// ============================================================
+
+// PATCH /api/quiz-v2/sets/:set_id/time-limit - Set or clear a set's time limit
+router.patch(
+  '/sets/:set_id/time-limit',
+  authenticateToken,
+  requireRole(['super_admin', 'school_admin', 'teacher']),
+  NewQuizController.updateSetTimeLimit
+);
+
 // ============================================================
 // STUDENT ANALYTICS
 // ============================================================
@@ -47,4 +84,20 @@ router.get(
   NewQuizController.getClassStats
 );
 
+// GET /api/quiz-v2/item-analysis/sets - Item analysis summary of attempted sets
+router.get(
+  '/item-analysis/sets',
+  authenticateToken,
+  requireRole(['super_admin', 'school_admin', 'teacher']),
+  ItemAnalysisController.listSets
+);
+
+// GET /api/quiz-v2/item-analysis/sets/:set_id - Per-question item analysis for a set
+router.get(
+  '/item-analysis/sets/:set_id',
+  authenticateToken,
+  requireRole(['super_admin', 'school_admin', 'teacher']),
+  ItemAnalysisController.getSetReport
+);
+
 export default router;
@@ -6,12 +6,28 @@ import {
   getSubjectsForStudent,
   getChapters,
 } from '../controllers/syllabusController';
-import { authenticateStudent } from '../middleware/auth';
+import {
+  createSyllabus,
+  getSyllabus,
+  createChapter,
+  updateChapter,
+  deleteChapter,
+  reorderChapters,
+  mergeChapters,
+  splitChapter,
+  addTopic,
+  updateTopic,
+  deleteTopic,
+  reorderTopics,
+  requireSyllabusAccess,
+} from '../controllers/syllabusEditController';
+import { listVersions, getVersion, migrateVersion } from '../controllers/syllabusVersionController';
+import { authenticateStudent, authenticateToken, requireRole } from '../middleware/auth';
 
 const router: Router = express.Router();
 
-// Parse uploaded PDF with AI
-router.post('/parse/:documentId', parseSyllabus);
+// Parse uploaded PDF with AI (admins only, like the upload itself)
+router.post('/parse/:documentId', authenticateToken, requireRole(['super_admin', 'school_admin']), parseSyllabus);
 
 // Get subjects for student (protected)
 router.get('/subjects-for-student', authenticateStudent, getSubjectsForStudent);
@@ -19,4 +35,30 @@ router.get('/subjects-for-student', authenticateStudent, getSubjectsForStudent);
 // Get chapters for a syllabus
 router.get('/:syllabusId/chapters', getChapters);
 
+// Manual curation (admins only); edited entries are locked against re-parsing
+// Board syllabi are changed by super admins, school overrides by their school's admins
+const requireAdmin = [authenticateToken, requireRole(['super_admin', 'school_admin'])];
+const canRead = [...requireAdmin, requireSyllabusAccess('read')];
+const canWrite = [...requireAdmin, requireSyllabusAccess('write')];
+
+router.post('/', ...requireAdmin, createSyllabus);
+router.get('/:syllabusId', ...canRead, getSyllabus);
+
+router.post('/:syllabusId/chapters', ...canWrite, createChapter);
+router.post('/:syllabusId/chapters/reorder', ...canWrite, reorderChapters);
+router.post('/:syllabusId/chapters/merge', ...canWrite, mergeChapters);
+router.patch('/:syllabusId/chapters/:chapterId', ...canWrite, updateChapter);
+router.delete('/:syllabusId/chapters/:chapterId', ...canWrite, deleteChapter);
+router.post('/:syllabusId/chapters/:chapterId/split', ...canWrite, splitChapter);
+
+router.post('/:syllabusId/chapters/:chapterId/topics', ...canWrite, addTopic);
+router.post('/:syllabusId/chapters/:chapterId/topics/reorder', ...canWrite, reorderTopics);
+router.patch('/:syllabusId/chapters/:chapterId/topics/:topicId', ...canWrite, updateTopic);
+router.delete('/:syllabusId/chapters/:chapterId/topics/:topicId', ...canWrite, deleteTopic);
+
+// Version history; migration re-points question sets and attempts to changed topics
+router.get('/:syllabusId/versions', ...canRead, listVersions);
+router.get('/:syllabusId/versions/:version', ...canRead, getVersion);
+router.post('/:syllabusId/versions/:version/migrate', ...canWrite, migrateVersion);
+
 export default router;
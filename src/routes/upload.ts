@@ -1,50 +1,42 @@
 // backend/src/routes/upload.ts
-import { Router, Request, Response } from "express";
+import { Router, Response } from "express";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
 
 import { collections } from "../config/database";
 import { ObjectId } from "mongodb";
 import { SyllabusService } from "../services/syllabusService";
+import { CurriculumService } from "../services/curriculumService";
+import { DocumentTextService } from "../services/documentTextService";
+import { DocumentStorageService } from "../services/documentStorageService";
+import { UploadScanService } from "../services/uploadScanService";
+import {
+  DocumentExtractorService,
+  DOCUMENT_FORMAT_EXTENSIONS,
+  DOCUMENT_FORMAT_MIME_TYPES,
+} from "../services/documentExtractorService";
+import { authenticateToken, requireRole, AuthRequest } from "../middleware/auth";
 
 const router = Router();
 
-// Folder to store PDFs (./pdfs at project root by default)
-const PDF_FOLDER =
-  process.env.PDF_FOLDER || path.join(__dirname, "../../pdfs");
+const UPLOAD_MAX_PAGES = parseInt(process.env.UPLOAD_MAX_PAGES || "1000") || 1000;
 
-// Ensure folder exists
-if (!fs.existsSync(PDF_FOLDER)) {
-  fs.mkdirSync(PDF_FOLDER, { recursive: true });
-}
-
-// Multer disk storage
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, PDF_FOLDER);
-  },
-  filename: (req, file, cb) => {
-    // Keep using ObjectId for tracking
-    const documentId = new ObjectId().toHexString();
-    (req as any).documentId = documentId;
-
-    // Text fields from the form
-    const body = req.body as any;
-
-    const classId = body.class_id || 'unknown_class';
-    const subjectId = body.subject_id || 'unknown_subject';
-    const chapterCode = body.chapter_code || 'ch1';
+// Only admins may upload course material
+router.use(authenticateToken, requireRole(["super_admin", "school_admin"]));
 
-    const ext = path.extname(file.originalname) || '.pdf';
-
-    // 👉 IMPORTANT: this matches what pdfService expects
-    const fileName = `${classId}_${subjectId}_${chapterCode}${ext}`;
+// Client filenames are only kept as metadata: no path, no control characters
+function sanitizeFilename(name: string): string {
+  const base = name.split(/[\\/]/).pop() || "";
+  return base.replace(/[\x00-\x1f\x7f]/g, "").slice(0, 255) || "upload";
+}
 
-    cb(null, fileName);
-  },
-});
+// OCR details recorded while the document's text was extracted (scanned PDFs only)
+async function getOcrSummary(documentId: string) {
+  const doc = await collections.chapters().findOne({ documentId });
+  return doc?.ocr || null;
+}
 
+// Files are held in memory until their format is known, then written to document storage
+const storage = multer.memoryStorage();
 
 const upload = multer({
   storage,
@@ -54,16 +46,17 @@ const upload = multer({
 });
 
 // POST /api/upload/syllabus
+// Accepts PDF, DOCX, PPTX, EPUB, HTML and Markdown (detected from the file's bytes)
 router.post(
   "/syllabus",
   upload.single("file"),
-  async (req: Request, res: Response) => {
+  async (req: AuthRequest, res: Response) => {
     try {
-      const { class_id, subject_id, chapter_name, chapter_code, school_id } =
+      const { class_id, subject_id, chapter_name, chapter_code, school_id, board } =
         req.body;
 
       const file = req.file;
-      const documentId = (req as any).documentId as string;
+      const documentId = new ObjectId().toHexString();
 
       if (!file) {
         return res.status(400).json({ error: "No file uploaded" });
@@ -75,29 +68,135 @@ router.post(
         });
       }
 
+      // School admins upload their own school's syllabus; super admins a board's or any school's
+      const isSuperAdmin = req.user?.role === "super_admin";
+      if (!isSuperAdmin && school_id && school_id !== req.user?.schoolId) {
+        return res.status(403).json({ error: "Forbidden: school_id does not match your school" });
+      }
+      const targetSchoolId: string | undefined = isSuperAdmin ? school_id || undefined : req.user?.schoolId;
+      if (!isSuperAdmin && !targetSchoolId) {
+        return res.status(403).json({ error: "Forbidden: no school on your account" });
+      }
+      if (board !== undefined && !CurriculumService.isValidBoard(board)) {
+        return res.status(400).json({
+          error: "board must be 2-32 letters, digits, spaces, hyphens or underscores",
+        });
+      }
+
+      // Detect the real format from the file contents, not the name or MIME type
+      const format = DocumentExtractorService.detectFormat(file.buffer);
+      if (!format) {
+        return res.status(415).json({
+          error: "Unsupported file type",
+          supportedFormats: Object.keys(DOCUMENT_FORMAT_EXTENSIONS),
+        });
+      }
+
+      // Reject files that do not parse as their format or are too long
+      let pageCount: number | null;
+      try {
+        pageCount = await DocumentExtractorService.countPages(file.buffer, format);
+      } catch (pageError: any) {
+        return res.status(422).json({ error: `Invalid ${format} file: ${pageError.message}` });
+      }
+      if (pageCount !== null && pageCount > UPLOAD_MAX_PAGES) {
+        return res.status(413).json({
+          error: `Document has ${pageCount} pages; at most ${UPLOAD_MAX_PAGES} are allowed`,
+        });
+      }
+
+      const originalFilename = sanitizeFilename(file.originalname);
+      const contentHash = DocumentTextService.hashContent(file.buffer);
+
+      // The same school uploaded the same file before: reuse that document instead of parsing it again
+      const duplicateResponse = (existing: any) =>
+        res.status(200).json({
+          message: "Document already uploaded",
+          duplicate: true,
+          documentId: existing.documentId,
+          storageKey: existing.storage_key,
+          format: existing.format,
+          originalName: existing.original_filename,
+        });
+
+      const duplicateFilter = DocumentTextService.duplicateFilter(contentHash, targetSchoolId);
+      const existing = await collections.chapters().findOne(duplicateFilter);
+      if (existing) {
+        console.log('[upload/syllabus] Duplicate upload of document:', existing.documentId);
+        return duplicateResponse(existing);
+      }
+
+      // Malware scan before anything is stored as a document
+      let scan;
+      try {
+        scan = await UploadScanService.scan(file.buffer);
+      } catch (scanError: any) {
+        console.error('[upload/syllabus] Scan failed:', scanError.message);
+        return res.status(503).json({ error: "File could not be scanned, please try again later" });
+      }
+
+      if (!scan.clean) {
+        const quarantineId = await UploadScanService.quarantine(file.buffer, {
+          content_hash: contentHash,
+          original_filename: originalFilename,
+          uploaded_by: req.user?.userId,
+          result: scan,
+        });
+        return res.status(422).json({
+          error: "File rejected by malware scan",
+          signature: scan.signature,
+          quarantineId,
+        });
+      }
+
+      // Every upload gets its own key, so uploads never overwrite each other
+      const documentStorage = DocumentStorageService.getStorage();
+      const storageKey = DocumentStorageService.documentKey(documentId, format);
+      await documentStorage.put(storageKey, file.buffer);
+
       // ✅ Insert metadata into MongoDB "chapters" collection
-      await collections.chapters().insertOne({
-        documentId,                         // UUID used to link file + DB
-        school_id: school_id || null,      // later you can use real school id
-        class_id,                          // free-text label from superadmin
-        subject_id,                        // free-text label
-        chapter_name: chapter_name || null,
-        chapter_code: chapter_code || null,
-        original_filename: file.originalname,
-        stored_filename: file.filename,
-        file_size: file.size,
-        mime_type: file.mimetype,
-        created_at: new Date(),
-      });
-
-      console.log('[upload/syllabus] PDF uploaded to chapters collection. Starting AI parsing...');
+      try {
+        await collections.chapters().insertOne({
+          documentId,                         // ObjectId hex used to link file + DB
+          school_id: targetSchoolId || null, // School whose syllabus this is (null: board syllabus)
+          class_id,                          // free-text label from superadmin
+          subject_id,                        // free-text label
+          chapter_name: chapter_name || null,
+          chapter_code: chapter_code || null,
+          original_filename: originalFilename,
+          storage_backend: documentStorage.backend,
+          storage_key: storageKey,
+          content_hash: contentHash,
+          file_size: file.size,
+          mime_type: DOCUMENT_FORMAT_MIME_TYPES[format],
+          declared_mime_type: file.mimetype,
+          format,
+          page_count: pageCount,
+          scanned_by: scan.scanner,
+          uploaded_by: req.user?.userId || null,
+          created_at: new Date(),
+        });
+      } catch (dbError: any) {
+        await documentStorage.delete(storageKey).catch(() => undefined);
+
+        // The same school uploaded the same file concurrently and won the unique index
+        if (dbError.code === 11000) {
+          const winner = await collections.chapters().findOne(duplicateFilter);
+          if (winner) return duplicateResponse(winner);
+        }
+        throw dbError;
+      }
+
+      console.log('[upload/syllabus] Document uploaded to chapters collection. Starting AI parsing...', { format });
 
       // 🆕 Automatically parse with AI and store in syllabi collection
       try {
         const syllabusDoc = await SyllabusService.uploadAndParseSyllabus(
           documentId,
           class_id,
-          subject_id
+          subject_id,
+          req.user?.userId,
+          { schoolId: targetSchoolId, board }
         );
 
         console.log('[upload/syllabus] AI parsing successful:', {
@@ -110,14 +209,16 @@ router.post(
         return res.status(201).json({
           message: "Document uploaded and parsed successfully",
           documentId,
-          fileName: file.filename,
-          originalName: file.originalname,
+          storageKey,
+          format,
+          originalName: originalFilename,
           syllabus: {
             classLabel: syllabusDoc.classLabel,
             classNumber: syllabusDoc.classNumber,
             subjectName: syllabusDoc.subjectName,
             chapterCount: syllabusDoc.chapters.length,
           },
+          ocr: await getOcrSummary(documentId),
         });
       } catch (parseError: any) {
         console.error('[upload/syllabus] AI parsing failed:', parseError.message);
@@ -126,10 +227,12 @@ router.post(
         return res.status(201).json({
           message: "Document uploaded but AI parsing failed",
           documentId,
-          fileName: file.filename,
-          originalName: file.originalname,
+          storageKey,
+          format,
+          originalName: originalFilename,
           parseError: parseError.message,
-          note: "PDF was saved. You can manually trigger parsing later via /api/syllabus/parse/:documentId"
+          ocr: await getOcrSummary(documentId),
+          note: "Document was saved. You can manually trigger parsing later via /api/syllabus/parse/:documentId"
         });
       }
     } catch (err) {
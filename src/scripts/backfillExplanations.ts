@@ -0,0 +1,43 @@
+// src/scripts/backfillExplanations.ts
+/**
+ * Backfill explanations for existing question sets
+ *
+ * Usage: npm run backfill-explanations -- [batchSize] [maxBatches]
+ * Sets are processed oldest first; re-running picks up where a failed run stopped.
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectDB, closeDB } from '../config/database';
+import { QuestionSetService } from '../services/questionSetService';
+
+async function main(): Promise<void> {
+  const batchSize = parseInt(process.argv[2] || '20');
+  const maxBatches = parseInt(process.argv[3] || '50');
+
+  await connectDB();
+
+  let totalSets = 0;
+  let totalQuestions = 0;
+
+  for (let batch = 1; batch <= maxBatches; batch++) {
+    const result = await QuestionSetService.backfillExplanations(batchSize);
+    totalSets += result.sets_processed;
+    totalQuestions += result.questions_updated;
+
+    console.log(`[Backfill] Batch ${batch}:`, result);
+
+    // Stop when nothing is left, or when a whole batch made no progress
+    if (result.sets_processed === 0 || result.questions_updated === 0) break;
+  }
+
+  console.log(`[Backfill] ✅ Done: ${totalQuestions} questions in ${totalSets} sets`);
+}
+
+main()
+  .catch((error) => {
+    console.error('[Backfill] ❌ Failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDB());
@@ -0,0 +1,31 @@
+// src/scripts/calibrateItems.ts
+/**
+ * Calibrate question difficulty and discrimination from attempt data
+ *
+ * Usage: npm run calibrate-items -- [minResponses] [maxSets]
+ * Only sets with new attempts since their last calibration are processed.
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectDB, closeDB } from '../config/database';
+import { CalibrationService } from '../services/calibrationService';
+
+async function main(): Promise<void> {
+  const minResponses = parseInt(process.argv[2] || String(CalibrationService.getMinResponses()));
+  const maxSets = parseInt(process.argv[3] || '200');
+
+  await connectDB();
+
+  const result = await CalibrationService.calibrateAll({ minResponses, limit: maxSets });
+
+  console.log('[Calibration] ✅ Done:', result);
+}
+
+main()
+  .catch((error) => {
+    console.error('[Calibration] ❌ Failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDB());
@@ -0,0 +1,29 @@
+// src/scripts/migrateDifficultyLevels.ts
+/**
+ * Move question set difficulty levels from the old 1-10 scale to 1-5
+ *
+ * Usage: npm run migrate-difficulty-levels
+ * Levels are recomputed from each set's question difficulty scores, so the
+ * migration can be re-run safely.
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectDB, closeDB } from '../config/database';
+import { QuestionSetService } from '../services/questionSetService';
+
+async function main(): Promise<void> {
+  await connectDB();
+
+  const result = await QuestionSetService.migrateDifficultyLevels();
+
+  console.log('[Migration] ✅ Done:', result);
+}
+
+main()
+  .catch((error) => {
+    console.error('[Migration] ❌ Failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDB());
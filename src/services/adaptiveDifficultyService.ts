@@ -0,0 +1,109 @@
+// src/services/adaptiveDifficultyService.ts
+/**
+ * Adaptive Difficulty Service - Picks the target difficulty for a student's next quiz
+ *
+ * The target is a set difficulty_level (1-5). An explicit difficulty_label
+ * wins and accepts any level of its DIFFICULTY_LABEL_LEVELS range;
+ * otherwise the last attempt in the topic steps the level up after a strong
+ * score and down after a weak one, falling back to subject accuracy from
+ * student_skill_stats, then to the middle level.
+ */
+
+import { AttemptService } from './attemptService';
+import { QuestionSetService } from './questionSetService';
+import { SkillStatsService } from './skillStatsService';
+import { DIFFICULTY_LABEL_LEVELS } from './llmService';
+import type { DifficultyTarget, GenerateQuizRequest } from '../types/questionSet';
+
+const MIN_LEVEL = 1;
+const MAX_LEVEL = 5;
+const DEFAULT_LEVEL = 3;
+const STEP_UP_SCORE = 80;     // score_percentage at or above which the level goes up
+const STEP_DOWN_SCORE = 50;   // score_percentage below which the level goes down
+
+export class AdaptiveDifficultyService {
+  static clampLevel(level: number): number {
+    return Math.max(MIN_LEVEL, Math.min(MAX_LEVEL, Math.round(level)));
+  }
+
+  /**
+   * Map overall subject accuracy (0-100) to a starting level
+   */
+  static levelFromAccuracy(accuracy: number): number {
+    if (accuracy < 40) return 1;
+    if (accuracy < 55) return 2;
+    if (accuracy < 70) return 3;
+    if (accuracy < 85) return 4;
+    return 5;
+  }
+
+  /**
+   * Step from the previous quiz's level based on how the student scored on it
+   */
+  static stepLevel(previousLevel: number, scorePercentage: number): number {
+    if (scorePercentage >= STEP_UP_SCORE) return this.clampLevel(previousLevel + 1);
+    if (scorePercentage < STEP_DOWN_SCORE) return this.clampLevel(previousLevel - 1);
+    return this.clampLevel(previousLevel);
+  }
+
+  /**
+   * Resolve the difficulty target for a quiz request
+   */
+  static async resolveTarget(request: GenerateQuizRequest): Promise<DifficultyTarget> {
+    const label = request.difficulty_label?.toLowerCase();
+    const range = label ? DIFFICULTY_LABEL_LEVELS[label] : undefined;
+    if (range) {
+      return {
+        // The level of the range closest to the middle
+        target_level: Math.min(range.max, Math.max(range.min, DEFAULT_LEVEL)),
+        min_level: range.min,
+        max_level: range.max,
+        source: 'requested',
+        rationale: `Requested "${label}" difficulty`,
+      };
+    }
+
+    const [lastAttempt] = await AttemptService.getStudentAttempts(request.student_id, {
+      subject: request.subject,
+      chapter: request.chapter,
+      topic: request.topic,
+      limit: 1,
+    });
+
+    if (lastAttempt) {
+      const lastSet = await QuestionSetService.findSetById(lastAttempt.set_id);
+
+      if (lastSet) {
+        const previousLevel = this.clampLevel(lastSet.difficulty_level);
+        const target = this.stepLevel(previousLevel, lastAttempt.score_percentage);
+        const score = Math.round(lastAttempt.score_percentage);
+        const step =
+          target > previousLevel ? 'stepping up' : target < previousLevel ? 'stepping down' : 'staying';
+
+        return {
+          target_level: target,
+          source: 'recent_attempt',
+          rationale: `Scored ${score}% on a level ${previousLevel} quiz in this topic; ${step} to level ${target}`,
+        };
+      }
+    }
+
+    const stats = await SkillStatsService.getStudentStats(request.student_id, request.subject);
+
+    if (stats && stats.total_questions_answered > 0) {
+      const target = this.levelFromAccuracy(stats.accuracy_percentage);
+
+      return {
+        target_level: target,
+        source: 'skill_stats',
+        rationale: `${Math.round(stats.accuracy_percentage)}% accuracy across ${stats.total_questions_answered} ${request.subject} questions; starting at level ${target}`,
+      };
+    }
+
+    return {
+      target_level: DEFAULT_LEVEL,
+      source: 'default',
+      rationale: `No previous attempts; starting at level ${DEFAULT_LEVEL}`,
+    };
+  }
+}
@@ -5,47 +5,52 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { collections } from '../config/database';
+import { GradingService } from './gradingService';
+import { CurriculumService } from './curriculumService';
 import type {
+  Question,
   QuestionSet,
   QuestionSetAttempt,
   QuestionAnswer,
   QuestionFeatures,
   SubmitQuizRequest,
+  QuizSession,
+  AttemptTiming,
+  AnswerValue,
 } from '../types/questionSet';
 
 export class AttemptService {
   /**
-   * Calculate aggregated features based on student answers
-   * Features are weighted by correctness (correct answers contribute more)
+   * Calculate aggregated features based on graded answers
+   * Features are weighted by credit (correct answers contribute more)
    */
   static calculateAggregatedFeatures(
     questionSet: QuestionSet,
-    answers: Array<{ question_id: string; selected_option_index: number }>
+    answers: Array<Pick<QuestionAnswer, 'question_id' | 'is_correct' | 'credit'>>
   ): QuestionFeatures {
     let totalMemorization = 0;
     let totalReasoning = 0;
     let totalNumerical = 0;
     let totalLanguage = 0;
-    let correctCount = 0;
-    let totalQuestions = questionSet.questions.length;
+    let totalWeight = 0;
 
     questionSet.questions.forEach((question) => {
       const answer = answers.find((a) => a.question_id === question.id);
       if (!answer) return;
 
-      const isCorrect = answer.selected_option_index === question.correct_option_index;
-      const weight = isCorrect ? 1.0 : 0.5; // Correct answers have higher weight
+      const credit = answer.credit !== undefined ? answer.credit : answer.is_correct ? 1 : 0;
+      const weight = 0.5 + 0.5 * credit; // Full credit weighs 1.0, no credit 0.5
 
       totalMemorization += question.features.memorization * weight;
       totalReasoning += question.features.reasoning * weight;
       totalNumerical += question.features.numerical * weight;
       totalLanguage += question.features.language * weight;
-
-      if (isCorrect) correctCount++;
+      totalWeight += weight;
     });
 
-    // Normalize by dividing by total weighted count
-    const totalWeight = correctCount * 1.0 + (totalQuestions - correctCount) * 0.5;
+    if (totalWeight === 0) {
+      return { memorization: 0, reasoning: 0, numerical: 0, language: 0 };
+    }
 
     return {
       memorization: totalMemorization / totalWeight,
@@ -55,60 +60,161 @@ export class AttemptService {
     };
   }
 
+  /**
+   * Map an option index as displayed to the student back to the canonical index
+   * Unanswered (-1) or out-of-range indices are returned unchanged
+   */
+  static toCanonicalOptionIndex(displayedIndex: number, order?: number[]): number {
+    if (!order || displayedIndex < 0 || displayedIndex >= order.length) {
+      return displayedIndex;
+    }
+    return order[displayedIndex];
+  }
+
+  /**
+   * Map a response as displayed back to canonical option indices
+   * Only option-based types are affected; -1 entries in match responses stay -1
+   */
+  static toCanonicalResponse(
+    question: Question,
+    response: AnswerValue | undefined,
+    order?: number[]
+  ): AnswerValue | undefined {
+    const type = GradingService.getQuestionType(question);
+    if (response === undefined || !GradingService.usesOptionIndices(type)) {
+      return response;
+    }
+
+    if (Array.isArray(response)) {
+      return response.map((i) => this.toCanonicalOptionIndex(i, order));
+    }
+
+    return typeof response === 'number' ? this.toCanonicalOptionIndex(response, order) : response;
+  }
+
+  /**
+   * Grade one canonical response into a stored answer
+   */
+  static buildGradedAnswer(
+    questionId: string,
+    question: Question | undefined,
+    response: AnswerValue | undefined
+  ): QuestionAnswer {
+    const grade = question
+      ? GradingService.gradeResponse(question, response)
+      : { credit: 0, is_correct: false };
+    const isIndexType =
+      !question || ['mcq', 'true_false'].includes(GradingService.getQuestionType(question));
+
+    return {
+      question_id: questionId,
+      selected_option_index: isIndexType && typeof response === 'number' ? response : -1,
+      ...(!isIndexType && response !== undefined && { response }),
+      is_correct: grade.is_correct,
+      credit: grade.credit,
+    };
+  }
+
+  /**
+   * Score graded answers against the number of questions in the quiz
+   * Questions without an answer count as incorrect, so answering only some
+   * questions cannot raise the percentage
+   */
+  static scoreAnswers(
+    answers: QuestionAnswer[],
+    totalQuestions: number,
+    latePenaltyPercent?: number
+  ): Pick<
+    QuestionSetAttempt,
+    'score_total' | 'score_percentage' | 'total_questions' | 'correct_count' | 'incorrect_count'
+  > {
+    const total = Math.max(totalQuestions, answers.length);
+    const correctCount = answers.filter((a) => a.is_correct).length;
+    const scoreTotal = parseFloat(answers.reduce((sum, a) => sum + (a.credit || 0), 0).toFixed(2));
+    const rawPercentage = total > 0 ? (scoreTotal / total) * 100 : 0;
+
+    return {
+      score_total: scoreTotal,
+      score_percentage: latePenaltyPercent ? rawPercentage * (1 - latePenaltyPercent / 100) : rawPercentage,
+      total_questions: total,
+      correct_count: correctCount,
+      incorrect_count: total - correctCount,
+    };
+  }
+
   /**
    * Create a new question set attempt
+   * If the quiz was delivered through a shuffled session, answers are
+   * un-permuted first so grading and analytics use canonical option indices
+   * Each answer is graded by its question type and may earn partial credit
+   * Timing (time on task, lateness) is recorded when the attempt comes from a session
    */
   static async createAttempt(
     request: SubmitQuizRequest,
-    questionSet: QuestionSet
+    questionSet: QuestionSet,
+    delivery?: Pick<QuizSession, 'question_ids' | 'option_orders'>,
+    timing?: AttemptTiming
   ): Promise<QuestionSetAttempt> {
     const attemptsCol = collections.question_set_attempts();
 
     const attemptId = request.attempt_id || `attempt_${uuidv4().substring(0, 12)}`;
 
-    // Build answers array with correctness
+    // Build answers array with per-question credit
     const answers: QuestionAnswer[] = request.answers.map((answer) => {
       const question = questionSet.questions.find((q) => q.id === answer.question_id);
-      const isCorrect = question
-        ? answer.selected_option_index === question.correct_option_index
-        : false;
-
-      return {
-        question_id: answer.question_id,
-        selected_option_index: answer.selected_option_index,
-        is_correct: isCorrect,
-      };
+      const response = question
+        ? this.toCanonicalResponse(
+            question,
+            GradingService.getResponse(answer),
+            delivery?.option_orders[answer.question_id]
+          )
+        : undefined;
+
+      return this.buildGradedAnswer(answer.question_id, question, response);
     });
 
-    // Calculate stats
-    const correctCount = answers.filter((a) => a.is_correct).length;
-    const incorrectCount = answers.length - correctCount;
-    const scorePercentage = (correctCount / answers.length) * 100;
+    // Calculate stats (score_total is the sum of partial credit) over every delivered question
+    const score = this.scoreAnswers(
+      answers,
+      delivery?.question_ids.length || questionSet.questions.length,
+      timing?.late_penalty_percent
+    );
 
     // Calculate aggregated features
-    const featuresAggregated = this.calculateAggregatedFeatures(
-      questionSet,
-      request.answers
-    );
+    const featuresAggregated = this.calculateAggregatedFeatures(questionSet, answers);
 
     const attempt: QuestionSetAttempt = {
       attempt_id: attemptId,
       student_id: request.student_id,
       school_id: request.school_id,
-      set_id: request.set_id,
+      set_id: questionSet.set_id,
+      ...(request.session_id && { session_id: request.session_id }),
+      ...(delivery && {
+        question_order: delivery.question_ids,
+        option_orders: delivery.option_orders,
+      }),
       class_number: questionSet.class_number,
       class_label: questionSet.class_label,
       subject: questionSet.subject,
       chapter: questionSet.chapter,
       topic: questionSet.topic,
+      ...(questionSet.topic_id && { chapter_id: questionSet.chapter_id, topic_id: questionSet.topic_id }),
+      ...CurriculumService.setFields(CurriculumService.ofSet(questionSet)),
       answers: answers,
-      score_total: correctCount,
-      score_percentage: scorePercentage,
-      total_questions: answers.length,
-      correct_count: correctCount,
-      incorrect_count: incorrectCount,
+      ...score,
       features_aggregated: featuresAggregated,
-      submitted_at: new Date(),
+      ...(timing && {
+        started_at: timing.started_at,
+        time_taken_seconds: Math.max(
+          0,
+          Math.round((timing.submitted_at.getTime() - new Date(timing.started_at).getTime()) / 1000)
+        ),
+        time_limit_seconds: timing.time_limit_seconds,
+        is_late: timing.is_late,
+        late_penalty_percent: timing.late_penalty_percent,
+        auto_submitted: timing.auto_submitted,
+      }),
+      submitted_at: timing?.submitted_at || new Date(),
     };
 
     await attemptsCol.insertOne(attempt);
@@ -186,6 +292,7 @@ export class AttemptService {
       topic: string;
       attempts: number;
       avg_score: number;
+      avg_time_seconds: number | null;
       last_attempt: Date;
     }>
   > {
@@ -203,6 +310,7 @@ export class AttemptService {
           _id: '$topic',
           attempts: { $sum: 1 },
           avg_score: { $avg: '$score_percentage' },
+          avg_time_seconds: { $avg: '$time_taken_seconds' },
           last_attempt: { $max: '$submitted_at' },
         },
       },
@@ -212,6 +320,7 @@ export class AttemptService {
           topic: '$_id',
           attempts: 1,
           avg_score: 1,
+          avg_time_seconds: 1,
           last_attempt: 1,
         },
       },
@@ -225,6 +334,7 @@ export class AttemptService {
       topic: string;
       attempts: number;
       avg_score: number;
+      avg_time_seconds: number | null;
       last_attempt: Date;
     }>;
   }
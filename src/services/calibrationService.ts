@@ -0,0 +1,208 @@
+// src/services/calibrationService.ts
+/**
+ * Calibration Service - Empirical item difficulty from attempt data
+ *
+ * difficulty_score on a question is the LLM's own estimate. Once enough
+ * students have answered a question, classical item statistics replace it:
+ * the p-value (mean credit) gives difficulty and the corrected point-biserial
+ * (item score vs. score on the rest of the set) gives discrimination.
+ *
+ * When most questions in a set are calibrated, the set's difficulty_level is
+ * recomputed from them so adaptive set selection uses observed difficulty.
+ */
+
+import { collections } from '../config/database';
+import type { ItemCalibration, QuestionSet, QuestionSetAttempt } from '../types/questionSet';
+
+const MIN_RESPONSES = parseInt(process.env.CALIBRATION_MIN_RESPONSES || '30');
+const MIN_CALIBRATED_SHARE = 0.5; // Share of calibrated questions needed to override the set level
+
+export class CalibrationService {
+  static getMinResponses(): number {
+    return MIN_RESPONSES;
+  }
+
+  /**
+   * p-value and corrected point-biserial for one item
+   * Each response is the item's credit and the total credit on the whole set
+   */
+  static computeItemStats(
+    responses: Array<{ item: number; total: number }>
+  ): Pick<ItemCalibration, 'p_value' | 'discrimination' | 'sample_size'> {
+    const n = responses.length;
+    if (n === 0) {
+      return { p_value: 0, discrimination: null, sample_size: 0 };
+    }
+
+    const items = responses.map((r) => r.item);
+    const rest = responses.map((r) => r.total - r.item); // Exclude the item itself
+
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const meanItem = mean(items);
+    const meanRest = mean(rest);
+
+    let cov = 0;
+    let varItem = 0;
+    let varRest = 0;
+    for (let i = 0; i < n; i++) {
+      cov += (items[i] - meanItem) * (rest[i] - meanRest);
+      varItem += (items[i] - meanItem) ** 2;
+      varRest += (rest[i] - meanRest) ** 2;
+    }
+
+    // Undefined when everyone scored the same on the item or on the rest of the set
+    const discrimination =
+      varItem > 0 && varRest > 0 ? parseFloat((cov / Math.sqrt(varItem * varRest)).toFixed(3)) : null;
+
+    return {
+      p_value: parseFloat(meanItem.toFixed(3)),
+      discrimination,
+      sample_size: n,
+    };
+  }
+
+  /**
+   * Map mean empirical difficulty (0-1) onto the set difficulty_level scale (1-5)
+   */
+  static difficultyToLevel(difficulty: number): number {
+    return Math.max(1, Math.min(5, Math.ceil(difficulty * 5)));
+  }
+
+  /**
+   * Calibrate every question of a set that has enough responses
+   */
+  static async calibrateSet(
+    questionSet: QuestionSet,
+    minResponses: number = MIN_RESPONSES
+  ): Promise<{ calibrated_questions: number; difficulty_level: number; level_updated: boolean }> {
+    const attemptsCol = collections.question_set_attempts();
+    const questionSetsCol = collections.question_sets();
+
+    const attempts = (await attemptsCol
+      .find({ set_id: questionSet.set_id })
+      .project({ answers: 1 })
+      .toArray()) as Pick<QuestionSetAttempt, 'answers'>[];
+
+    // Per-attempt credit by question, and total credit on the set
+    const scored = attempts.map((attempt) => {
+      const credits = new Map<string, number>();
+      attempt.answers.forEach((a) => {
+        credits.set(a.question_id, a.credit !== undefined ? a.credit : a.is_correct ? 1 : 0);
+      });
+      const total = Array.from(credits.values()).reduce((sum, c) => sum + c, 0);
+      return { credits, total };
+    });
+
+    const now = new Date();
+    const setFields: Record<string, any> = { calibrated_at: now };
+    const calibratedDifficulties: number[] = [];
+
+    questionSet.questions.forEach((question, index) => {
+      const responses = scored
+        .filter((s) => s.credits.has(question.id))
+        .map((s) => ({ item: s.credits.get(question.id)!, total: s.total }));
+
+      if (responses.length < minResponses) return;
+
+      const stats = this.computeItemStats(responses);
+      const calibration: ItemCalibration = {
+        ...stats,
+        difficulty: parseFloat((1 - stats.p_value).toFixed(3)),
+        calibrated_at: now,
+      };
+
+      setFields[`questions.${index}.calibration`] = calibration;
+      calibratedDifficulties.push(calibration.difficulty);
+    });
+
+    let difficultyLevel = questionSet.difficulty_level;
+    const levelUpdated =
+      calibratedDifficulties.length > 0 &&
+      calibratedDifficulties.length >= questionSet.questions.length * MIN_CALIBRATED_SHARE;
+
+    if (levelUpdated) {
+      const meanDifficulty =
+        calibratedDifficulties.reduce((sum, d) => sum + d, 0) / calibratedDifficulties.length;
+      difficultyLevel = this.difficultyToLevel(meanDifficulty);
+
+      setFields.difficulty_level = difficultyLevel;
+      setFields.llm_difficulty_level =
+        questionSet.llm_difficulty_level !== undefined
+          ? questionSet.llm_difficulty_level
+          : questionSet.difficulty_level;
+    }
+
+    await questionSetsCol.updateOne({ set_id: questionSet.set_id }, { $set: setFields });
+
+    console.log('[CalibrationService] Set calibrated:', {
+      set_id: questionSet.set_id,
+      attempts: attempts.length,
+      calibrated_questions: calibratedDifficulties.length,
+      difficulty_level: difficultyLevel,
+    });
+
+    return {
+      calibrated_questions: calibratedDifficulties.length,
+      difficulty_level: difficultyLevel,
+      level_updated: levelUpdated,
+    };
+  }
+
+  /**
+   * Calibrate sets that have enough attempts and new data since their last calibration
+   */
+  static async calibrateAll(options: { minResponses?: number; limit?: number } = {}): Promise<{
+    sets_checked: number;
+    sets_calibrated: number;
+    questions_calibrated: number;
+  }> {
+    const attemptsCol = collections.question_set_attempts();
+    const minResponses = options.minResponses || MIN_RESPONSES;
+
+    const candidates = (await attemptsCol
+      .aggregate([
+        {
+          $group: {
+            _id: '$set_id',
+            attempts: { $sum: 1 },
+            last_submitted_at: { $max: '$submitted_at' },
+          },
+        },
+        { $match: { attempts: { $gte: minResponses } } },
+        { $sort: { last_submitted_at: -1 } },
+        { $limit: options.limit || 200 },
+      ])
+      .toArray()) as Array<{ _id: string; attempts: number; last_submitted_at: Date }>;
+
+    let setsCalibrated = 0;
+    let questionsCalibrated = 0;
+
+    for (const candidate of candidates) {
+      const questionSet = (await collections
+        .question_sets()
+        .findOne({ set_id: candidate._id })) as QuestionSet | null;
+
+      if (!questionSet) continue;
+      if (questionSet.calibrated_at && questionSet.calibrated_at >= candidate.last_submitted_at) {
+        continue; // No attempts since the last run
+      }
+
+      try {
+        const result = await this.calibrateSet(questionSet, minResponses);
+        setsCalibrated++;
+        questionsCalibrated += result.calibrated_questions;
+      } catch (error: any) {
+        console.error('[CalibrationService] Failed to calibrate set:', {
+          set_id: candidate._id,
+          error: error.message,
+        });
+      }
+    }
+
+    return {
+      sets_checked: candidates.length,
+      sets_calibrated: setsCalibrated,
+      questions_calibrated: questionsCalibrated,
+    };
+  }
+}
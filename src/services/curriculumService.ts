@@ -0,0 +1,154 @@
+// src/services/curriculumService.ts
+/**
+ * Curriculum Service - Which syllabus a school follows
+ *
+ * Syllabi belong to a board (CBSE, ICSE, a state board, ...). A school follows
+ * its board's syllabus for a class and subject, unless it has its own
+ * school-specific override. Question sets carry the curriculum they were
+ * generated for, so a set is only reused within the same board (or, for an
+ * override, the same school).
+ *
+ * Syllabi, chapter contents, question sets, attempts and sessions from before
+ * boards existed have no board; they count as DEFAULT_BOARD.
+ */
+
+import { collections } from '../config/database';
+import type { Curriculum, SyllabusDocument } from '../types/syllabus';
+
+const BOARD_PATTERN = /^[A-Z0-9][A-Z0-9 _-]{1,31}$/;
+
+const normalize = (board: string) => board.trim().replace(/\s+/g, ' ').toUpperCase();
+
+const DEFAULT_BOARD = normalize(process.env.DEFAULT_BOARD || 'CBSE');
+
+export class CurriculumService {
+  static defaultBoard(): string {
+    return DEFAULT_BOARD;
+  }
+
+  static isValidBoard(board: unknown): board is string {
+    return typeof board === 'string' && BOARD_PATTERN.test(normalize(board));
+  }
+
+  /**
+   * Normalized board code; undefined means the default board
+   */
+  static normalizeBoard(board?: unknown): string {
+    if (board === undefined || board === null || board === '') return DEFAULT_BOARD;
+    if (!this.isValidBoard(board)) {
+      throw { status: 400, detail: 'board must be 2-32 letters, digits, spaces, hyphens or underscores' };
+    }
+    return normalize(board);
+  }
+
+  /**
+   * Board filter that also matches documents from before boards
+   */
+  private static boardMatch(board: string): string | { $in: Array<string | null> } {
+    return board === DEFAULT_BOARD ? { $in: [board, null] } : board;
+  }
+
+  /**
+   * Filter for syllabi and chapter_contents of exactly this curriculum
+   */
+  static syllabusFilter(curriculum: Curriculum): Record<string, any> {
+    return curriculum.schoolId
+      ? { schoolId: curriculum.schoolId }
+      : { board: this.boardMatch(curriculum.board), schoolId: null };
+  }
+
+  /**
+   * Filter for question sets, attempts and quiz sessions of exactly this curriculum
+   */
+  static setFilter(curriculum: Curriculum): Record<string, any> {
+    return curriculum.schoolId
+      ? { curriculum_school_id: curriculum.schoolId }
+      : { board: this.boardMatch(curriculum.board), curriculum_school_id: null };
+  }
+
+  /**
+   * Curriculum fields stored on question sets, attempts and quiz sessions
+   */
+  static setFields(curriculum: Curriculum): { board: string; curriculum_school_id?: string } {
+    return {
+      board: curriculum.board,
+      ...(curriculum.schoolId && { curriculum_school_id: curriculum.schoolId }),
+    };
+  }
+
+  static ofSyllabus(syllabus: Pick<SyllabusDocument, 'board' | 'schoolId'>): Curriculum {
+    return {
+      board: syllabus.board || DEFAULT_BOARD,
+      ...(syllabus.schoolId && { schoolId: syllabus.schoolId }),
+    };
+  }
+
+  /**
+   * Curriculum of a question set, attempt, session or generation request
+   */
+  static ofSet(doc: { board?: string; curriculum_school_id?: string }): Curriculum {
+    return {
+      board: doc.board || DEFAULT_BOARD,
+      ...(doc.curriculum_school_id && { schoolId: doc.curriculum_school_id }),
+    };
+  }
+
+  /**
+   * Board a school follows (the default board for unknown schools)
+   */
+  static async boardForSchool(schoolId?: string): Promise<string> {
+    if (!schoolId) return DEFAULT_BOARD;
+
+    const school = await collections.schools().findOne({ school_id: schoolId }, { projection: { board: 1 } });
+    return school?.board ? normalize(school.board) : DEFAULT_BOARD;
+  }
+
+  /**
+   * The syllabus a school uses for a class and subject: its own override if it
+   * has one, otherwise its board's. Without a syllabus, the curriculum is the
+   * school's board.
+   */
+  static async resolveSyllabus(
+    classNumber: number,
+    subjectName: string,
+    schoolId?: string
+  ): Promise<{ syllabus: SyllabusDocument | null; curriculum: Curriculum }> {
+    const syllabusCol = collections.syllabi();
+    const key = { classNumber, subjectName: subjectName.toLowerCase() };
+
+    if (schoolId) {
+      const override = await syllabusCol.findOne({ ...key, schoolId });
+      if (override) {
+        const syllabus = override as unknown as SyllabusDocument;
+        return { syllabus, curriculum: this.ofSyllabus(syllabus) };
+      }
+    }
+
+    const board = await this.boardForSchool(schoolId);
+    const syllabus = (await syllabusCol.findOne({
+      ...key,
+      ...this.syllabusFilter({ board }),
+    })) as unknown as SyllabusDocument | null;
+
+    return { syllabus, curriculum: { board } };
+  }
+
+  /**
+   * Every syllabus a school uses for a class, one per subject
+   */
+  static async listSyllabi(classNumber: number, schoolId?: string): Promise<SyllabusDocument[]> {
+    const board = await this.boardForSchool(schoolId);
+
+    const syllabi = (await collections
+      .syllabi()
+      .find({
+        classNumber,
+        $or: [this.syllabusFilter({ board }), ...(schoolId ? [{ schoolId }] : [])],
+      })
+      .toArray()) as unknown as SyllabusDocument[];
+
+    // A school's override replaces the board syllabus of the same subject
+    const overridden = new Set(syllabi.filter((s) => s.schoolId).map((s) => s.subjectName));
+    return syllabi.filter((s) => s.schoolId || !overridden.has(s.subjectName));
+  }
+}
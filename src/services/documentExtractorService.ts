@@ -0,0 +1,280 @@
+// src/services/documentExtractorService.ts
+/**
+ * Document Extractor Service - Text from uploaded course material
+ *
+ * Besides PDFs, teachers upload DOCX, PPTX, EPUB, HTML and Markdown. The
+ * format is detected from the file's bytes (the extension and the declared
+ * MIME type are not trusted), and each format has an extractor that returns
+ * normalized text plus page offsets: PDF pages, DOCX page breaks, PPTX
+ * slides and EPUB spine documents. Everything downstream (syllabus parsing,
+ * chapter segmentation, generation) works on that text.
+ */
+
+import path from 'path';
+import { PDFService, ExtractedPDF } from './pdfService';
+import { isZip, openZip, ZipArchive } from '../utils/zipUtils';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'epub' | 'html' | 'markdown';
+
+export const DOCUMENT_FORMAT_EXTENSIONS: Record<DocumentFormat, string> = {
+  pdf: '.pdf',
+  docx: '.docx',
+  pptx: '.pptx',
+  epub: '.epub',
+  html: '.html',
+  markdown: '.md',
+};
+
+export const DOCUMENT_FORMAT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  epub: 'application/epub+zip',
+  html: 'text/html',
+  markdown: 'text/markdown',
+};
+
+export interface ExtractedDocument extends ExtractedPDF {
+  format: DocumentFormat;
+}
+
+export interface DocumentExtractor {
+  extract(content: Buffer, name: string): Promise<ExtractedPDF>;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+const SLIDE_PATTERN = /^ppt\/slides\/slide\d+\.xml$/;
+
+const BLOCK_TAGS =
+  'address|article|aside|blockquote|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tr|ul';
+
+export class DocumentExtractorService {
+  private static extractors: Record<DocumentFormat, DocumentExtractor> = {
+    pdf: { extract: (content, name) => PDFService.extractPagesFromBuffer(content, name) },
+    docx: { extract: async (content) => this.extractDocx(openZip(content)) },
+    pptx: { extract: async (content) => this.extractPptx(openZip(content)) },
+    epub: { extract: async (content) => this.extractEpub(openZip(content)) },
+    html: { extract: async (content) => this.fromPages([this.htmlToText(this.decodeText(content))]) },
+    markdown: { extract: async (content) => this.fromPages([this.markdownToText(this.decodeText(content))]) },
+  };
+
+  /**
+   * Detect a document's format from its bytes; null when unsupported
+   */
+  static detectFormat(content: Buffer): DocumentFormat | null {
+    if (content.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+
+    if (isZip(content)) {
+      let zip: ZipArchive;
+      try {
+        zip = openZip(content);
+      } catch {
+        return null;
+      }
+
+      if (zip.readText('mimetype')?.trim() === 'application/epub+zip') return 'epub';
+      if (zip.names.includes('[Content_Types].xml')) {
+        if (zip.names.includes('word/document.xml')) return 'docx';
+        if (zip.names.some((name) => SLIDE_PATTERN.test(name))) return 'pptx';
+      }
+      return null;
+    }
+
+    // Anything else must be UTF-8 text: HTML if it looks like markup, otherwise Markdown (or plain text)
+    if (content.includes(0)) return null;
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(content);
+    } catch {
+      return null;
+    }
+
+    const head = text.slice(0, 2048).replace(/^\uFEFF/, '').trimStart().toLowerCase();
+    const isDocument = /^<(!doctype\s+html|html|head|body)\b/.test(head);
+    const isFragment = head.startsWith('<') && /<\/(p|div|body)>/i.test(text);
+
+    return isDocument || isFragment ? 'html' : 'markdown';
+  }
+
+  /**
+   * Page count of paged formats (PDF pages, PPTX slides); null for the others
+   * Throws when a PDF cannot be parsed
+   */
+  static async countPages(content: Buffer, format: DocumentFormat): Promise<number | null> {
+    if (format === 'pdf') return PDFService.countPages(content);
+    if (format === 'pptx') return openZip(content).names.filter((name) => SLIDE_PATTERN.test(name)).length;
+    return null;
+  }
+
+  /**
+   * Detect the format of a document and extract its text (name is only used in messages)
+   */
+  static async extract(content: Buffer, name: string): Promise<ExtractedDocument> {
+    const format = this.detectFormat(content);
+    if (!format) {
+      throw new Error(
+        `Unsupported document format (${name}); supported: ${Object.keys(DOCUMENT_FORMAT_EXTENSIONS).join(', ')}`
+      );
+    }
+
+    console.log('[DocumentExtractorService] Extracting text:', { document: name, format });
+
+    const extracted = await this.extractors[format].extract(content, name);
+    if (extracted.text.trim().length === 0) {
+      throw new Error(`No text could be extracted from the ${format} document`);
+    }
+
+    return { ...extracted, format };
+  }
+
+  static decodeText(content: Buffer): string {
+    return content.toString('utf8').replace(/^\uFEFF/, '');
+  }
+
+  static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  /**
+   * Unix newlines, single spaces, no trailing whitespace and at most one blank line in a row
+   */
+  static normalizeText(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[\u00a0\t ]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Normalized pages joined by blank lines, with the offset where each starts
+   */
+  static fromPages(pages: string[]): ExtractedPDF {
+    const pageOffsets: number[] = [];
+    let text = '';
+
+    pages
+      .map((page) => this.normalizeText(page))
+      .filter((page) => page.length > 0)
+      .forEach((page) => {
+        if (text) text += '\n\n';
+        pageOffsets.push(text.length);
+        text += page;
+      });
+
+    return { text, pageOffsets: pageOffsets.length > 0 ? pageOffsets : [0] };
+  }
+
+  static htmlToText(html: string): string {
+    const text = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|head|template|noscript)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<br\b[^>]*>/gi, '\n')
+      .replace(/<\/(td|th)\s*>/gi, '\t')
+      .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+      .replace(/<[^>]+>/g, '');
+
+    return this.decodeEntities(text);
+  }
+
+  static markdownToText(markdown: string): string {
+    return markdown
+      .replace(/^[ \t]*(```|~~~).*$/gm, '')                        // Code fences (their content is kept)
+      .replace(/^ {0,3}#{1,6}[ \t]+(.*?)[ \t#]*$/gm, '$1')         // ATX headings
+      .replace(/^ {0,3}(=+|-+)[ \t]*$/gm, '')                      // Setext underlines and rules
+      .replace(/^ {0,3}([*_])( *\1){2,}[ \t]*$/gm, '')             // Other horizontal rules
+      .replace(/^ {0,3}>[ \t]?/gm, '')                             // Blockquotes
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')                    // Images: alt text
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')                     // Links: link text
+      .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')             // Bold
+      .replace(/(^|[^*\w])\*(?=\S)([^*\n]*?\S)\*/g, '$1$2')        // Italic
+      .replace(/`([^`\n]+)`/g, '$1')                               // Inline code
+      .replace(/<[^>\n]+>/g, '');                                  // Inline HTML tags
+  }
+
+  /**
+   * Paragraph text of an Office Open XML part: <w:t>/<a:t> runs, with tabs and breaks
+   */
+  static officeXmlToText(xml: string): string {
+    const text = xml
+      // Field codes and deleted (tracked) text are not part of the document text
+      .replace(/<w:(instrText|delText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '')
+      .replace(/<(w|a):tab\b[^>]*\/>/g, '\t')
+      .replace(/<w:br\b[^>]*w:type="page"[^>]*\/>/g, '\f')
+      .replace(/<(w|a):br\b[^>]*\/>|<w:cr\b[^>]*\/>/g, '\n')
+      .replace(/<\/(w|a):p>/g, '\n')
+      .replace(/<[^>]+>/g, '');
+
+    return this.decodeEntities(text);
+  }
+
+  /**
+   * DOCX body text; explicit page breaks start new pages
+   */
+  private static extractDocx(zip: ZipArchive): ExtractedPDF {
+    const xml = zip.readText('word/document.xml') || '';
+    return this.fromPages(this.officeXmlToText(xml).split('\f'));
+  }
+
+  /**
+   * PPTX slide text, one page per slide in slide order
+   */
+  private static extractPptx(zip: ZipArchive): ExtractedPDF {
+    const slideNumber = (name: string) => parseInt(name.match(/slide(\d+)\.xml$/)![1]);
+    const slides = zip.names
+      .filter((name) => SLIDE_PATTERN.test(name))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+
+    return this.fromPages(slides.map((name) => this.officeXmlToText(zip.readText(name) || '')));
+  }
+
+  /**
+   * EPUB text, one page per spine document in reading order
+   */
+  private static extractEpub(zip: ZipArchive): ExtractedPDF {
+    const container = zip.readText('META-INF/container.xml') || '';
+    const opfPath = container.match(/full-path="([^"]+)"/)?.[1];
+    const opf = opfPath ? zip.readText(opfPath) || '' : '';
+    const baseDir = opfPath ? path.posix.dirname(opfPath) : '.';
+
+    const manifest = new Map<string, string>();
+    for (const [item] of opf.matchAll(/<item\b[^>]*>/g)) {
+      const id = item.match(/\bid="([^"]+)"/)?.[1];
+      const href = item.match(/\bhref="([^"]+)"/)?.[1];
+      if (id && href) manifest.set(id, path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href))));
+    }
+
+    let documents = Array.from(opf.matchAll(/<itemref\b[^>]*\bidref="([^"]+)"/g))
+      .map(([, idref]) => manifest.get(idref))
+      .filter((name): name is string => !!name && zip.names.includes(name));
+
+    // No usable spine: fall back to every (X)HTML file in archive order
+    if (documents.length === 0) {
+      documents = zip.names.filter((name) => /\.x?html?$/i.test(name));
+    }
+
+    return this.fromPages(documents.map((name) => this.htmlToText(zip.readText(name) || '')));
+  }
+}
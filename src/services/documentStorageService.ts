@@ -0,0 +1,224 @@
+// src/services/documentStorageService.ts
+/**
+ * Document Storage Service - Where uploaded course documents live
+ *
+ * Uploads are stored under a key derived from their documentId
+ * (documents/<documentId>.<ext>), so two uploads never share a file. The
+ * backend is chosen with STORAGE_BACKEND:
+ *   local - files under the documents directory (PDF_FOLDER, default ./pdfs)
+ *   s3    - an S3-compatible bucket (AWS S3, MinIO, ...), for hosts whose
+ *           filesystem does not survive a redeploy
+ *
+ * Documents uploaded before storage keys existed only have a stored_filename
+ * and are still read from the local documents directory.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getPdfDirectory, getPdfPath } from '../utils/pathUtils';
+import { signS3Request, sha256Hex, encodeS3Key, S3Credentials } from '../utils/s3Signer';
+import { DOCUMENT_FORMAT_EXTENSIONS, DocumentFormat } from './documentExtractorService';
+
+const STORAGE_BACKEND = (process.env.STORAGE_BACKEND || 'local').toLowerCase();
+const S3_REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Where an uploaded document (a chapters collection entry) is stored
+ */
+export interface StoredDocumentRef {
+  documentId: string;
+  storage_key?: string;
+  stored_filename?: string;      // Uploads from before document storage
+}
+
+export interface DocumentStorage {
+  readonly backend: string;
+  put(key: string, content: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Relative keys only: no absolute paths, empty segments or ".."
+ */
+function assertValidKey(key: string): void {
+  if (!key || key.startsWith('/') || key.split('/').some((segment) => !segment || segment === '..' || segment === '.')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export class LocalDocumentStorage implements DocumentStorage {
+  readonly backend = 'local';
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename, so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const filePath = this.resolve(key);
+    try {
+      return await fs.readFile(filePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new Error(`Document not found in storage: ${key}`);
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export class S3DocumentStorage implements DocumentStorage {
+  readonly backend = 's3';
+
+  /**
+   * endpoint: base URL of an S3-compatible service (path-style requests);
+   * without it the AWS virtual-hosted endpoint for the region is used
+   */
+  constructor(
+    private readonly bucket: string,
+    private readonly credentials: S3Credentials,
+    private readonly endpoint?: string
+  ) {}
+
+  private objectUrl(key: string): URL {
+    assertValidKey(key);
+
+    return this.endpoint
+      ? new URL(`${this.endpoint.replace(/\/+$/, '')}/${this.bucket}/${encodeS3Key(key)}`)
+      : new URL(`https://${this.bucket}.s3.${this.credentials.region}.amazonaws.com/${encodeS3Key(key)}`);
+  }
+
+  private async send(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = this.objectUrl(key);
+    const { host, ...headers } = signS3Request(
+      {
+        method,
+        host: url.host,
+        path: url.pathname,
+        headers: contentType ? { 'content-type': contentType } : {},
+        payloadHash: sha256Hex(body || ''),
+      },
+      this.credentials
+    );
+
+    return fetch(url, {
+      method,
+      headers,
+      body: body ? new Uint8Array(body) : undefined,
+      signal: AbortSignal.timeout(S3_REQUEST_TIMEOUT_MS),
+    });
+  }
+
+  private async fail(response: Response, action: string, key: string): Promise<never> {
+    const detail = (await response.text().catch(() => '')).match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new Error(`S3 ${action} failed for ${key}: ${response.status}${detail ? ` ${detail}` : ''}`);
+  }
+
+  async put(key: string, content: Buffer, contentType: string = 'application/octet-stream'): Promise<void> {
+    const response = await this.send('PUT', key, content, contentType);
+    if (!response.ok) await this.fail(response, 'upload', key);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) throw new Error(`Document not found in storage: ${key}`);
+    if (!response.ok) await this.fail(response, 'download', key);
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.send('HEAD', key);
+    if (response.status === 404) return false;
+    if (!response.ok) await this.fail(response, 'lookup', key);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) await this.fail(response, 'delete', key);
+  }
+}
+
+export class DocumentStorageService {
+  private static storage: DocumentStorage | null = null;
+
+  /**
+   * The configured storage backend (created on first use)
+   */
+  static getStorage(): DocumentStorage {
+    if (this.storage) return this.storage;
+
+    if (STORAGE_BACKEND === 's3') {
+      const bucket = process.env.S3_BUCKET;
+      const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error('STORAGE_BACKEND=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+
+      this.storage = new S3DocumentStorage(
+        bucket,
+        { accessKeyId, secretAccessKey, region: process.env.S3_REGION || 'us-east-1' },
+        process.env.S3_ENDPOINT
+      );
+    } else if (STORAGE_BACKEND === 'local') {
+      this.storage = new LocalDocumentStorage(getPdfDirectory());
+    } else {
+      throw new Error(`Unknown STORAGE_BACKEND "${STORAGE_BACKEND}" (expected local or s3)`);
+    }
+
+    console.log('[DocumentStorageService] Using storage backend:', this.storage.backend);
+    return this.storage;
+  }
+
+  static documentKey(documentId: string, format: DocumentFormat): string {
+    return `documents/${documentId}${DOCUMENT_FORMAT_EXTENSIONS[format]}`;
+  }
+
+  /**
+   * Contents of an uploaded document (a chapters collection entry)
+   */
+  static async readDocument(doc: StoredDocumentRef): Promise<Buffer> {
+    if (doc.storage_key) {
+      return this.getStorage().get(doc.storage_key);
+    }
+
+    if (!doc.stored_filename) {
+      throw new Error(`Document ${doc.documentId} has no storage key or stored filename`);
+    }
+
+    // Uploaded before storage keys: a file in the local documents directory
+    try {
+      return await fs.readFile(getPdfPath(doc.stored_filename));
+    } catch (error: any) {
+      throw new Error(`Failed to read document file: ${error.message}`);
+    }
+  }
+}
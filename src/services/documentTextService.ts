@@ -0,0 +1,97 @@
+// src/services/documentTextService.ts
+/**
+ * Document Text Service - Extracted document text cached per document
+ *
+ * Parsing a PDF takes seconds, so the extracted text of an uploaded document
+ * (PDF or other course material, with page offsets) is stored in pdf_texts
+ * once per documentId together with a SHA-256 hash of the file. Documents in
+ * storage are keyed by documentId and never overwritten, so the hash recorded
+ * at upload identifies the cached text without downloading the file; older
+ * uploads are read and hashed. When pages had to be read with OCR, the
+ * per-page confidence is recorded on the document's chapters entry.
+ */
+
+import crypto from 'crypto';
+import { collections } from '../config/database';
+import { ExtractedPDF } from './pdfService';
+import { DocumentExtractorService } from './documentExtractorService';
+import { DocumentStorageService, type StoredDocumentRef } from './documentStorageService';
+
+const MAX_CACHED_TEXT_CHARS = 8 * 1024 * 1024;   // Keep entries well under MongoDB's 16 MB document limit
+
+export class DocumentTextService {
+  static hashContent(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Filter for an upload of the same file by the same school (null: board syllabus)
+   * Uploads are deduplicated per school, so a documentId never crosses tenants
+   */
+  static duplicateFilter(contentHash: string, schoolId?: string | null): { content_hash: string; school_id: string | null } {
+    return { content_hash: contentHash, school_id: schoolId || null };
+  }
+
+  /**
+   * Extracted text of an uploaded document, parsing the file only on a cache miss
+   */
+  static async getText(documentId: string): Promise<ExtractedPDF> {
+    const pdfDoc = await collections.chapters().findOne<StoredDocumentRef & { content_hash?: string }>({ documentId });
+    if (!pdfDoc) {
+      throw new Error(`Source PDF document not found (ID: ${documentId})`);
+    }
+
+    const textsCol = collections.pdf_texts();
+    const findCached = (contentHash: string) => textsCol.findOne({ documentId, content_hash: contentHash });
+
+    // Stored objects never change, so the hash recorded at upload is enough to trust the cache
+    let cached = pdfDoc.content_hash ? await findCached(pdfDoc.content_hash) : null;
+    let content: Buffer | null = null;
+
+    if (!cached) {
+      content = await DocumentStorageService.readDocument(pdfDoc);
+      cached = await findCached(this.hashContent(content));
+    }
+
+    if (cached) {
+      console.log('[DocumentTextService] Using cached text:', { documentId, length: cached.text.length });
+      return { text: cached.text, pageOffsets: cached.page_offsets || [0] };
+    }
+
+    const contentHash = this.hashContent(content!);
+    const extracted = await DocumentExtractorService.extract(content!, pdfDoc.storage_key || pdfDoc.stored_filename || documentId);
+
+    await collections.chapters().updateOne(
+      { documentId },
+      extracted.ocr ? { $set: { ocr: extracted.ocr } } : { $unset: { ocr: '' } }
+    );
+
+    if (extracted.text.length > MAX_CACHED_TEXT_CHARS) {
+      console.warn('[DocumentTextService] ⚠️ Text too large to cache:', { documentId, length: extracted.text.length });
+      return extracted;
+    }
+
+    try {
+      await textsCol.updateOne(
+        { documentId },
+        {
+          $set: {
+            content_hash: contentHash,
+            format: extracted.format,
+            text: extracted.text,
+            page_offsets: extracted.pageOffsets,
+            extracted_at: new Date(),
+          },
+        },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // A concurrent extraction of the same document inserted it first
+      if (error.code !== 11000) throw error;
+    }
+
+    console.log('[DocumentTextService] Cached extracted text:', { documentId, length: extracted.text.length });
+
+    return extracted;
+  }
+}
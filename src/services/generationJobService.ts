@@ -0,0 +1,383 @@
+// src/services/generationJobService.ts
+/**
+ * Generation Job Service - Asynchronous question set generation
+ *
+ * Generating a set (chapter text extraction plus an LLM round trip) is too
+ * slow for a single HTTP request. When no reusable set exists, generate
+ * enqueues a job in generation_jobs and returns its id; an in-process worker
+ * claims queued jobs, generates and saves the set, and records the set_id.
+ *
+ * While a job is queued or running it holds an active_key (curriculum, class,
+ * subject, chapter, topic, difficulty, size and question types) behind a unique
+ * index, so identical requests attach to it instead of starting another LLM
+ * call. The key is removed when the job finishes.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { collections } from '../config/database';
+import { QuestionSetService } from './questionSetService';
+import { LLMService, DEFAULT_QUESTIONS_PER_SET } from './llmService';
+import { SyllabusService } from './syllabusService';
+import { GradingService } from './gradingService';
+import { CurriculumService } from './curriculumService';
+import type {
+  GenerateQuizRequest,
+  GenerationJob,
+  GenerationJobResponse,
+  DifficultyTarget,
+  Question,
+} from '../types/questionSet';
+
+const WORKER_CONCURRENCY = Math.max(1, parseInt(process.env.GENERATION_WORKER_CONCURRENCY || '1') || 1);
+const WORKER_POLL_INTERVAL_MS = 5 * 1000;
+const STALE_JOB_MS = 10 * 60 * 1000;   // Running longer than this means the worker died
+const MAX_JOB_ATTEMPTS = 2;
+
+export class GenerationJobService {
+  private static activeWorkers = 0;
+  private static pollTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Key identifying requests that would generate the same set
+   */
+  static buildDedupeKey(request: GenerateQuizRequest, targetLevel: number): string {
+    const normalize = (value: string) => value.trim().toLowerCase();
+    const curriculum = CurriculumService.ofSet(request);
+
+    return [
+      curriculum.schoolId ? `school:${curriculum.schoolId}` : `board:${curriculum.board}`,
+      request.class_number,
+      normalize(request.subject),
+      normalize(request.chapter),
+      normalize(request.topic),
+      normalize(request.difficulty_label || 'adaptive'),
+      `level${targetLevel}`,
+      request.num_questions || DEFAULT_QUESTIONS_PER_SET,
+      [...(request.question_types || ['mcq'])].sort().join(','),
+    ].join('|');
+  }
+
+  /**
+   * Queue a generation job, or attach to the queued/running job for the same request
+   */
+  static async enqueue(
+    request: GenerateQuizRequest,
+    target: DifficultyTarget
+  ): Promise<{ job: GenerationJob; is_new_job: boolean }> {
+    const jobsCol = collections.generation_jobs();
+    const activeKey = this.buildDedupeKey(request, target.target_level);
+    const now = new Date();
+
+    const newJob: GenerationJob = {
+      job_id: `job_${uuidv4().substring(0, 12)}`,
+      active_key: activeKey,
+      dedupe_key: activeKey,
+      status: 'queued',
+      request: {
+        ...request,
+        num_questions: request.num_questions || DEFAULT_QUESTIONS_PER_SET,
+      },
+      target_level: target.target_level,
+      requested_by: [],
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    const { requested_by, ...insertFields } = newJob;
+
+    const upsert = () =>
+      jobsCol.findOneAndUpdate(
+        { active_key: activeKey },
+        { $setOnInsert: insertFields, $addToSet: { requested_by: request.student_id } },
+        { upsert: true, returnDocument: 'after' }
+      );
+
+    let job;
+    try {
+      job = await upsert();
+    } catch (error: any) {
+      // Two identical requests raced on the unique index; the loser attaches to the winner's job
+      if (error.code !== 11000) throw error;
+      job = await upsert();
+    }
+
+    if (!job) {
+      throw new Error('Generation job could not be queued');
+    }
+    const isNewJob = job.job_id === newJob.job_id;
+
+    console.log('[GenerationJobService]', isNewJob ? 'Queued job' : 'Attached to job', {
+      job_id: job.job_id,
+      active_key: activeKey,
+      student_id: request.student_id,
+    });
+
+    if (isNewJob) {
+      this.kick();
+    }
+
+    return { job, is_new_job: isNewJob };
+  }
+
+  /**
+   * Find a job by job_id
+   */
+  static async findJobById(jobId: string): Promise<GenerationJob | null> {
+    const jobsCol = collections.generation_jobs();
+
+    const job = await jobsCol.findOne({ job_id: jobId });
+    return job;
+  }
+
+  /**
+   * Set generated by a finished job this student requested, skipping sets in excludeSetIds
+   * The generated level may miss the target by more than reuse accepts, so
+   * the students who waited for a job are handed its set directly
+   */
+  static async findGeneratedSetId(
+    request: GenerateQuizRequest,
+    target: DifficultyTarget,
+    excludeSetIds: string[] = []
+  ): Promise<string | null> {
+    const jobsCol = collections.generation_jobs();
+
+    const job = await jobsCol.findOne(
+      {
+        dedupe_key: this.buildDedupeKey(request, target.target_level),
+        status: 'succeeded',
+        requested_by: request.student_id,
+        set_id: { $nin: excludeSetIds },
+      },
+      { sort: { finished_at: -1 }, projection: { set_id: 1 } }
+    );
+
+    return job?.set_id || null;
+  }
+
+  /**
+   * Client view of a job (the generating student's request stays private)
+   */
+  static toResponse(job: GenerationJob): GenerationJobResponse {
+    return {
+      job_id: job.job_id,
+      status: job.status,
+      ...(job.set_id && { set_id: job.set_id }),
+      ...(job.error && { error: job.error }),
+      class_number: job.request.class_number,
+      subject: job.request.subject,
+      chapter: job.request.chapter,
+      topic: job.request.topic,
+      difficulty_label: job.request.difficulty_label || 'adaptive',
+      target_difficulty_level: job.target_level,
+      num_questions: job.request.num_questions || DEFAULT_QUESTIONS_PER_SET,
+      created_at: job.created_at,
+      started_at: job.started_at,
+      finished_at: job.finished_at,
+    };
+  }
+
+  /**
+   * Claim the oldest queued job for this worker
+   */
+  private static async claimNext(): Promise<GenerationJob | null> {
+    const jobsCol = collections.generation_jobs();
+    const now = new Date();
+
+    const job = await jobsCol.findOneAndUpdate(
+      { status: 'queued' },
+      { $set: { status: 'running', started_at: now, updated_at: now }, $inc: { attempts: 1 } },
+      { sort: { created_at: 1 }, returnDocument: 'after' }
+    );
+
+    return job;
+  }
+
+  /**
+   * Generate and save the question set for a claimed job
+   */
+  private static async runJob(job: GenerationJob): Promise<void> {
+    const jobsCol = collections.generation_jobs();
+    const startedAt = Date.now();
+
+    try {
+      const { questions, difficulty_level } = await this.generateQuestions(job);
+      const questionSet = await QuestionSetService.createQuestionSet(job.request, questions, difficulty_level);
+
+      await jobsCol.updateOne(
+        { job_id: job.job_id },
+        {
+          $set: { status: 'succeeded', set_id: questionSet.set_id, finished_at: new Date(), updated_at: new Date() },
+          $unset: { active_key: '' },
+        }
+      );
+
+      console.log('[GenerationJobService] ✅ Job succeeded:', {
+        job_id: job.job_id,
+        set_id: questionSet.set_id,
+        duration_ms: Date.now() - startedAt,
+      });
+    } catch (error: any) {
+      await jobsCol.updateOne(
+        { job_id: job.job_id },
+        {
+          $set: {
+            status: 'failed',
+            error: error.message || 'Question generation failed',
+            finished_at: new Date(),
+            updated_at: new Date(),
+          },
+          $unset: { active_key: '' },
+        }
+      );
+
+      console.error('[GenerationJobService] ❌ Job failed:', { job_id: job.job_id, error: error.message });
+    }
+  }
+
+  /**
+   * Generate the questions for a job from the chapter text
+   */
+  private static async generateQuestions(
+    job: GenerationJob
+  ): Promise<{ questions: Question[]; difficulty_level: number }> {
+    const { request } = job;
+
+    const chapterText = await SyllabusService.getChapterText(
+      request.class_number,
+      request.subject,
+      request.chapter,
+      CurriculumService.ofSet(request)
+    );
+
+    if (!chapterText || chapterText.trim().length === 0) {
+      throw new Error(
+        `No content found for ${request.subject} > ${request.chapter}. Please ensure syllabus is uploaded.`
+      );
+    }
+
+    const llmQuestions = await LLMService.generateQuestionsFromText(
+      chapterText,
+      request.class_label,
+      request.subject,
+      request.chapter,
+      request.class_number,
+      request.topic,
+      {
+        questionTypes: request.question_types,
+        difficultyLevel: job.target_level,
+        difficultyLabel: request.difficulty_label,
+        questionCount: request.num_questions,
+        board: request.board,
+      }
+    );
+
+    if (!llmQuestions || llmQuestions.length === 0) {
+      throw new Error('AI generated 0 questions. Please try again.');
+    }
+
+    const questions: Question[] = llmQuestions.map((q) => ({
+      ...GradingService.pickTypeFields(q),
+      id: q.id,
+      question: q.question,
+      options: q.options,
+      correct_option_index: q.correct_option_index,
+      skills: q.skills,
+      features: {
+        memorization: q.features.memorization,
+        reasoning: q.features.reasoning,
+        numerical: q.features.numerical,
+        language: q.features.language,
+      },
+      difficulty_score: q.features.difficulty_score,
+      ...(q.explanation && { explanation: q.explanation }),
+      ...(q.option_rationales && { option_rationales: q.option_rationales }),
+      ...(q.source_chunks && { source_chunks: q.source_chunks }),
+    }));
+
+    return {
+      questions,
+      difficulty_level: LLMService.setDifficultyLevel(questions.map((q) => q.difficulty_score)),
+    };
+  }
+
+  /**
+   * Process queued jobs until none are left (one of up to WORKER_CONCURRENCY loops)
+   */
+  private static async drain(): Promise<void> {
+    if (this.activeWorkers >= WORKER_CONCURRENCY) return;
+    this.activeWorkers++;
+
+    try {
+      let job: GenerationJob | null;
+      while ((job = await this.claimNext())) {
+        await this.runJob(job);
+      }
+    } catch (error: any) {
+      console.error('[GenerationJobService] Worker error:', error.message);
+    } finally {
+      this.activeWorkers--;
+    }
+  }
+
+  /**
+   * Start processing queued jobs now instead of at the next poll
+   */
+  static kick(): void {
+    void this.drain();
+  }
+
+  /**
+   * Requeue jobs whose worker died mid-run; jobs out of attempts are failed
+   * Returns the number of jobs requeued or failed
+   */
+  static async recoverStaleJobs(): Promise<number> {
+    const jobsCol = collections.generation_jobs();
+    const cutoff = new Date(Date.now() - STALE_JOB_MS);
+    const stale = { status: 'running' as const, started_at: { $lt: cutoff } };
+
+    const failed = await jobsCol.updateMany(
+      { ...stale, attempts: { $gte: MAX_JOB_ATTEMPTS } },
+      {
+        $set: {
+          status: 'failed',
+          error: 'Generation did not finish (worker stopped)',
+          finished_at: new Date(),
+          updated_at: new Date(),
+        },
+        $unset: { active_key: '' },
+      }
+    );
+    const requeued = await jobsCol.updateMany(stale, { $set: { status: 'queued', updated_at: new Date() } });
+
+    const recovered = failed.modifiedCount + requeued.modifiedCount;
+    if (recovered > 0) {
+      console.log('[GenerationJobService] Recovered stale jobs:', {
+        failed: failed.modifiedCount,
+        requeued: requeued.modifiedCount,
+      });
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Start the in-process worker (call once at server startup)
+   */
+  static startWorker(intervalMs: number = WORKER_POLL_INTERVAL_MS): void {
+    if (this.pollTimer) return;
+
+    const tick = () => {
+      this.recoverStaleJobs()
+        .then(() => this.drain())
+        .catch((error) => {
+          console.error('[GenerationJobService] Worker poll failed:', error.message);
+        });
+    };
+
+    tick();
+    this.pollTimer = setInterval(tick, intervalMs);
+
+    // Don't keep the process alive just for the worker
+    this.pollTimer.unref();
+  }
+}
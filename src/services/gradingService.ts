@@ -0,0 +1,178 @@
+// src/services/gradingService.ts
+/**
+ * Grading Service - Per-question-type graders with partial credit
+ *
+ * Each grader returns a credit between 0 and 1. A question counts as correct
+ * only with full credit; partial credit still flows into the score and skill
+ * stats. Responses are expected in canonical (un-shuffled) option order.
+ */
+
+import type {
+  Question,
+  QuestionType,
+  QuestionTypeFields,
+  AnswerValue,
+  AnswerInput,
+} from '../types/questionSet';
+
+export interface GradeResult {
+  credit: number;        // 0-1
+  is_correct: boolean;   // Full credit
+}
+
+type Grader = (question: Question, response: AnswerValue) => number;
+
+const isIndexArray = (value: AnswerValue): value is number[] =>
+  Array.isArray(value) && value.every((v) => Number.isInteger(v));
+
+/**
+ * Normalize free text for comparison: case, surrounding punctuation and repeated spaces
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[\s"'.,;:!?]+|[\s"'.,;:!?]+$/g, '');
+}
+
+const GRADERS: Record<QuestionType, Grader> = {
+  mcq: (question, response) =>
+    response === question.correct_option_index ? 1 : 0,
+
+  true_false: (question, response) =>
+    response === question.correct_option_index ? 1 : 0,
+
+  // Each wrong pick cancels a right one, so selecting everything earns nothing
+  multi_select: (question, response) => {
+    const correct = question.correct_option_indices || [];
+    if (!isIndexArray(response) || correct.length === 0) return 0;
+
+    const selected = Array.from(new Set(response));
+    const hits = selected.filter((i) => correct.includes(i)).length;
+    const misses = selected.length - hits;
+
+    return Math.max(0, (hits - misses) / correct.length);
+  },
+
+  numeric: (question, response) => {
+    const value = typeof response === 'string' ? parseFloat(response) : response;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return 0;
+    if (typeof question.numeric_answer !== 'number') return 0;
+
+    const tolerance = Math.max(0, question.numeric_tolerance || 0);
+    return Math.abs(value - question.numeric_answer) <= tolerance + 1e-9 ? 1 : 0;
+  },
+
+  fill_blank: (question, response) => {
+    if (typeof response !== 'string') return 0;
+
+    const given = normalizeText(response);
+    if (!given) return 0;
+
+    return (question.accepted_answers || []).some((a) => normalizeText(a) === given) ? 1 : 0;
+  },
+
+  // Credit per correctly matched left item
+  match: (question, response) => {
+    const correct = question.correct_matches || [];
+    if (!Array.isArray(response) || correct.length === 0) return 0;
+
+    const hits = correct.filter((c, i) => response[i] === c).length;
+    return hits / correct.length;
+  },
+};
+
+export class GradingService {
+  static getQuestionType(question: Pick<Question, 'type'>): QuestionType {
+    return question.type || 'mcq';
+  }
+
+  /**
+   * Copy the type-specific fields (answer keys, match items, unit) of a question
+   * MCQ questions carry none, so stored MCQ sets keep their original shape
+   */
+  static pickTypeFields(question: QuestionTypeFields): QuestionTypeFields {
+    const type = question.type || 'mcq';
+    if (type === 'mcq') return {};
+
+    return {
+      type,
+      ...(question.correct_option_indices && { correct_option_indices: question.correct_option_indices }),
+      ...(question.numeric_answer !== undefined && { numeric_answer: question.numeric_answer }),
+      ...(question.numeric_tolerance !== undefined && { numeric_tolerance: question.numeric_tolerance }),
+      ...(question.unit && { unit: question.unit }),
+      ...(question.accepted_answers && { accepted_answers: question.accepted_answers }),
+      ...(question.match_left && { match_left: question.match_left }),
+      ...(question.correct_matches && { correct_matches: question.correct_matches }),
+    };
+  }
+
+  /**
+   * Whether a question type is answered by picking option indices (subject to shuffling)
+   */
+  static usesOptionIndices(type: QuestionType): boolean {
+    return type === 'mcq' || type === 'true_false' || type === 'multi_select' || type === 'match';
+  }
+
+  /**
+   * Response carried by a submitted answer (response wins over selected_option_index)
+   * Returns undefined for unanswered questions
+   */
+  static getResponse(answer: AnswerInput): AnswerValue | undefined {
+    if (answer.response !== undefined && answer.response !== null && answer.response !== '') {
+      return answer.response;
+    }
+    if (typeof answer.selected_option_index === 'number' && answer.selected_option_index >= 0) {
+      return answer.selected_option_index;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check a response has the right shape for the question
+   * Option indices are checked against the option count
+   */
+  static isValidResponse(question: Question, response: AnswerValue): boolean {
+    const optionCount = question.options.length;
+    const inRange = (i: number) => Number.isInteger(i) && i >= 0 && i < optionCount;
+
+    switch (this.getQuestionType(question)) {
+      case 'mcq':
+      case 'true_false':
+        return typeof response === 'number' && inRange(response);
+      case 'multi_select':
+        return isIndexArray(response) && response.every(inRange);
+      case 'match':
+        return (
+          isIndexArray(response) &&
+          response.length === (question.match_left || []).length &&
+          response.every((i) => i === -1 || inRange(i))
+        );
+      case 'numeric':
+        return (
+          (typeof response === 'number' && Number.isFinite(response)) ||
+          (typeof response === 'string' && Number.isFinite(parseFloat(response)))
+        );
+      case 'fill_blank':
+        return typeof response === 'string' && response.length <= 500;
+    }
+  }
+
+  /**
+   * Grade a canonical response; unanswered or malformed responses earn no credit
+   */
+  static gradeResponse(question: Question, response: AnswerValue | undefined): GradeResult {
+    if (response === undefined) {
+      return { credit: 0, is_correct: false };
+    }
+
+    const grader = GRADERS[this.getQuestionType(question)] || GRADERS.mcq;
+    const credit = Math.max(0, Math.min(1, grader(question, response)));
+
+    return {
+      credit: parseFloat(credit.toFixed(4)),
+      is_correct: credit >= 1,
+    };
+  }
+}
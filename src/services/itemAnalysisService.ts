@@ -0,0 +1,290 @@
+// src/services/itemAnalysisService.ts
+/**
+ * Item Analysis Service - Per-question report for teachers
+ *
+ * Built from the canonical answers stored on question_set_attempts. For each
+ * question it reports how often every option was chosen, percent correct, the
+ * upper-lower discrimination index and the corrected point-biserial, and flags
+ * questions that look broken or misleading (e.g. a distractor that attracts
+ * more students than the keyed answer).
+ *
+ * Only a student's first attempt at a set is counted, so retakes do not skew
+ * option counts.
+ */
+
+import { collections } from '../config/database';
+import { CalibrationService } from './calibrationService';
+import { GradingService } from './gradingService';
+import type { Question, QuestionAnswer, QuestionSet, QuestionSetAttempt } from '../types/questionSet';
+import type {
+  ItemAnalysisFilter,
+  ItemFlag,
+  OptionAnalysis,
+  QuestionAnalysis,
+  SetItemAnalysis,
+  SetItemAnalysisSummary,
+} from '../types/itemAnalysis';
+
+type AttemptAnswers = Pick<QuestionSetAttempt, 'student_id' | 'answers' | 'score_percentage' | 'submitted_at'>;
+
+const GROUP_SHARE = 0.27;            // Upper/lower group size for the discrimination index
+const MIN_FLAG_STUDENTS = 10;        // Below this, flags are too noisy to report
+const LOW_DISCRIMINATION = 0.2;
+const TOO_EASY_P = 0.9;
+const TOO_HARD_P = 0.2;
+const DEFAULT_SET_LIMIT = 20;
+const MAX_SET_LIMIT = 100;
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+const creditOf = (answer: QuestionAnswer) =>
+  answer.credit !== undefined ? answer.credit : answer.is_correct ? 1 : 0;
+
+export class ItemAnalysisService {
+  /**
+   * Upper-lower discrimination index: mean item credit of the top 27% of
+   * students (by total credit) minus that of the bottom 27%
+   */
+  static discriminationIndex(responses: Array<{ item: number; total: number }>): number | null {
+    if (responses.length < 2) return null;
+
+    const sorted = [...responses].sort((a, b) => b.total - a.total);
+    const groupSize = Math.max(1, Math.round(sorted.length * GROUP_SHARE));
+    const mean = (group: typeof sorted) => group.reduce((sum, r) => sum + r.item, 0) / group.length;
+
+    return round(mean(sorted.slice(0, groupSize)) - mean(sorted.slice(-groupSize)), 3);
+  }
+
+  /**
+   * Whether a stored answer carries a response
+   */
+  private static isAnswered(question: Question, answer: QuestionAnswer): boolean {
+    const type = GradingService.getQuestionType(question);
+    if (type === 'mcq' || type === 'true_false') return answer.selected_option_index >= 0;
+    return answer.response !== undefined;
+  }
+
+  /**
+   * Count how often each option was chosen (single- and multi-select questions only)
+   */
+  private static countOptions(question: Question, answers: QuestionAnswer[]): OptionAnalysis[] {
+    const type = GradingService.getQuestionType(question);
+    if (type !== 'mcq' && type !== 'true_false' && type !== 'multi_select') return [];
+
+    const keys =
+      type === 'multi_select' ? question.correct_option_indices || [] : [question.correct_option_index];
+    const counts = question.options.map(() => 0);
+
+    answers.forEach((answer) => {
+      const chosen =
+        type === 'multi_select'
+          ? Array.isArray(answer.response)
+            ? Array.from(new Set(answer.response))
+            : []
+          : [answer.selected_option_index];
+
+      chosen.forEach((i) => {
+        if (i >= 0 && i < counts.length) counts[i]++;
+      });
+    });
+
+    return question.options.map((text, i) => ({
+      option_index: i,
+      text,
+      is_key: keys.includes(i),
+      count: counts[i],
+      percentage: answers.length > 0 ? round((counts[i] / answers.length) * 100, 1) : 0,
+    }));
+  }
+
+  /**
+   * Analyze one question from every student's answers
+   * percent_correct and p_value count omitted answers as wrong; option
+   * percentages are shares of the students who answered
+   */
+  static analyzeQuestion(
+    question: Question,
+    scored: Array<{ answers: Map<string, QuestionAnswer>; total: number }>,
+    flagsReliable: boolean
+  ): QuestionAnalysis {
+    const seen = scored.filter((s) => s.answers.has(question.id));
+    const answers = seen.map((s) => s.answers.get(question.id)!);
+    const answered = answers.filter((a) => this.isAnswered(question, a));
+    const responses = seen.map((s) => ({ item: creditOf(s.answers.get(question.id)!), total: s.total }));
+
+    const stats = CalibrationService.computeItemStats(responses);
+    const discrimination = this.discriminationIndex(responses);
+    const options = this.countOptions(question, answered);
+    const correct = answers.filter((a) => a.is_correct).length;
+
+    const flags: ItemFlag[] = [];
+    if (flagsReliable && seen.length > 0) {
+      const keyCounts = options.filter((o) => o.is_key).map((o) => o.count);
+      const distractorCounts = options.filter((o) => !o.is_key).map((o) => o.count);
+      if (
+        keyCounts.length > 0 &&
+        distractorCounts.length > 0 &&
+        Math.max(...distractorCounts) > Math.min(...keyCounts)
+      ) {
+        flags.push('distractor_over_key');
+      }
+
+      if (discrimination !== null && discrimination < 0) flags.push('negative_discrimination');
+      else if (discrimination !== null && discrimination < LOW_DISCRIMINATION) flags.push('low_discrimination');
+
+      if (stats.p_value > TOO_EASY_P) flags.push('too_easy');
+      if (stats.p_value < TOO_HARD_P) flags.push('too_hard');
+    }
+
+    return {
+      question_id: question.id,
+      question: question.question,
+      type: GradingService.getQuestionType(question),
+      responses: answered.length,
+      omitted: seen.length - answered.length,
+      percent_correct: seen.length > 0 ? round((correct / seen.length) * 100, 1) : 0,
+      p_value: stats.p_value,
+      discrimination_index: discrimination,
+      point_biserial: stats.discrimination,
+      options,
+      flags,
+    };
+  }
+
+  /**
+   * Analyze every question of a set from a group of attempts
+   */
+  static analyzeSet(questionSet: QuestionSet, attempts: AttemptAnswers[]): SetItemAnalysis {
+    const firstAttempts = this.firstAttemptPerStudent(attempts);
+    const flagsReliable = firstAttempts.length >= MIN_FLAG_STUDENTS;
+
+    const scored = firstAttempts.map((attempt) => {
+      const answers = new Map<string, QuestionAnswer>();
+      attempt.answers.forEach((a) => answers.set(a.question_id, a));
+      const total = Array.from(answers.values()).reduce((sum, a) => sum + creditOf(a), 0);
+      return { answers, total };
+    });
+
+    const questions = questionSet.questions.map((q) => this.analyzeQuestion(q, scored, flagsReliable));
+    const meanScore =
+      firstAttempts.length > 0
+        ? firstAttempts.reduce((sum, a) => sum + (a.score_percentage || 0), 0) / firstAttempts.length
+        : 0;
+
+    return {
+      set_id: questionSet.set_id,
+      subject: questionSet.subject,
+      chapter: questionSet.chapter,
+      topic: questionSet.topic,
+      difficulty_level: questionSet.difficulty_level,
+      students: firstAttempts.length,
+      mean_score_percentage: round(meanScore, 1),
+      flags_reliable: flagsReliable,
+      flagged_question_count: questions.filter((q) => q.flags.length > 0).length,
+      questions,
+    };
+  }
+
+  /**
+   * Keep each student's earliest attempt
+   */
+  private static firstAttemptPerStudent(attempts: AttemptAnswers[]): AttemptAnswers[] {
+    const first = new Map<string, AttemptAnswers>();
+
+    attempts.forEach((attempt) => {
+      const existing = first.get(attempt.student_id);
+      if (!existing || new Date(attempt.submitted_at) < new Date(existing.submitted_at)) {
+        first.set(attempt.student_id, attempt);
+      }
+    });
+
+    return Array.from(first.values());
+  }
+
+  /**
+   * Attempt query for a report filter
+   * A class_id (section) is resolved to its students, since attempts only record class_number
+   */
+  private static async buildAttemptQuery(filter: ItemAnalysisFilter): Promise<Record<string, any>> {
+    const query: Record<string, any> = { school_id: filter.school_id };
+
+    if (filter.class_number !== undefined) query.class_number = filter.class_number;
+    if (filter.subject) query.subject = filter.subject;
+    if (filter.chapter) query.chapter = filter.chapter;
+    if (filter.topic) query.topic = filter.topic;
+
+    if (filter.class_id) {
+      const students = await collections
+        .students()
+        .find({ school_id: filter.school_id, class_id: filter.class_id })
+        .project({ student_id: 1 })
+        .toArray();
+      query.student_id = { $in: students.map((s: any) => s.student_id) };
+    }
+
+    return query;
+  }
+
+  /**
+   * Full per-question report for one set within a filter
+   */
+  static async getSetReport(setId: string, filter: ItemAnalysisFilter): Promise<SetItemAnalysis> {
+    const questionSet = (await collections.question_sets().findOne({ set_id: setId })) as QuestionSet | null;
+
+    if (!questionSet) {
+      throw { status: 404, detail: 'Question set not found' };
+    }
+
+    const query = await this.buildAttemptQuery(filter);
+    const attempts = (await collections
+      .question_set_attempts()
+      .find({ ...query, set_id: setId })
+      .project({ student_id: 1, answers: 1, score_percentage: 1, submitted_at: 1 })
+      .toArray()) as AttemptAnswers[];
+
+    return this.analyzeSet(questionSet, attempts);
+  }
+
+  /**
+   * Per-set summaries (without question detail) for every set attempted within a filter,
+   * most recently attempted first
+   */
+  static async listSetReports(
+    filter: ItemAnalysisFilter,
+    limit: number = DEFAULT_SET_LIMIT
+  ): Promise<SetItemAnalysisSummary[]> {
+    const attemptsCol = collections.question_set_attempts();
+    const query = await this.buildAttemptQuery(filter);
+
+    const sets = (await attemptsCol
+      .aggregate([
+        { $match: query },
+        { $group: { _id: '$set_id', last_submitted_at: { $max: '$submitted_at' } } },
+        { $sort: { last_submitted_at: -1 } },
+        { $limit: Math.min(Math.max(limit, 1), MAX_SET_LIMIT) },
+      ])
+      .toArray()) as Array<{ _id: string; last_submitted_at: Date }>;
+
+    const questionSets = (await collections
+      .question_sets()
+      .find({ set_id: { $in: sets.map((s) => s._id) } })
+      .toArray()) as QuestionSet[];
+
+    const summaries: SetItemAnalysisSummary[] = [];
+
+    for (const entry of sets) {
+      const questionSet = questionSets.find((s) => s.set_id === entry._id);
+      if (!questionSet) continue;
+
+      const attempts = (await attemptsCol
+        .find({ ...query, set_id: entry._id })
+        .project({ student_id: 1, answers: 1, score_percentage: 1, submitted_at: 1 })
+        .toArray()) as AttemptAnswers[];
+
+      const { questions, ...summary } = this.analyzeSet(questionSet, attempts);
+      summaries.push({ ...summary, last_submitted_at: entry.last_submitted_at });
+    }
+
+    return summaries;
+  }
+}
@@ -0,0 +1,159 @@
+// src/services/llmOutputService.ts
+/**
+ * LLM Output Service - JSON extraction, schema validation and repair
+ *
+ * A reply that is not valid JSON, or does not match its schema, is sent back
+ * to the model together with the validation errors, up to
+ * LLM_MAX_REPAIR_ATTEMPTS times. After that the call fails; invalid output is
+ * never returned to callers.
+ */
+
+import { z } from 'zod';
+import { getLLMMaxRepairAttempts } from '../config/llm';
+import { getLLMProvider, type LLMCompletionRequest, type LLMMessage } from './llmProvider';
+
+const MAX_ISSUES_IN_PROMPT = 20;
+
+export type ValidationResult<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+export class LLMOutputService {
+  /**
+   * Pull the JSON document out of a reply (code fences and surrounding prose are ignored)
+   */
+  static extractJson(raw: string): string {
+    let text = raw.trim();
+
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) {
+      text = fenced[1].trim();
+    }
+
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      text = text.slice(start, end + 1);
+    }
+
+    return text;
+  }
+
+  /**
+   * Parse a reply as JSON
+   * LaTeX in replies often carries single backslashes that are invalid JSON
+   * escapes; those are doubled before a second attempt
+   */
+  static parseJson(raw: string): unknown {
+    const text = this.extractJson(raw);
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Protect valid escape sequences, double every other backslash, then restore
+      const protectedEscapes: Array<[string, string]> = [
+        ['\\\\', '\x00BACKSLASH\x00'],
+        ['\\"', '\x00QUOTE\x00'],
+        ['\\/', '\x00SLASH\x00'],
+        ['\\n', '\x00NEWLINE\x00'],
+        ['\\r', '\x00RETURN\x00'],
+        ['\\t', '\x00TAB\x00'],
+      ];
+
+      let sanitized = text;
+      for (const [original, placeholder] of protectedEscapes) {
+        sanitized = sanitized.split(original).join(placeholder);
+      }
+      sanitized = sanitized.replace(/\\/g, '\\\\');
+      for (const [original, placeholder] of protectedEscapes) {
+        sanitized = sanitized.split(placeholder).join(original);
+      }
+
+      return JSON.parse(sanitized);
+    }
+  }
+
+  /**
+   * Readable "path: message" lines for a zod error
+   */
+  static formatIssues(error: z.ZodError, prefix: string = ''): string[] {
+    return error.issues.map((issue) => {
+      const path = [prefix, ...issue.path.map(String)].filter(Boolean).join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    });
+  }
+
+  /**
+   * Parse and validate a raw reply
+   */
+  static validate<S extends z.ZodType>(raw: string, schema: S): ValidationResult<z.output<S>> {
+    let json: unknown;
+    try {
+      json = this.parseJson(raw);
+    } catch (error: any) {
+      return { success: false, issues: [`Reply is not valid JSON: ${error.message}`] };
+    }
+
+    const result = schema.safeParse(json);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, issues: this.formatIssues(result.error) };
+  }
+
+  /**
+   * Follow-up turns asking the model to fix a rejected reply
+   */
+  static buildRepairMessages(reply: string, issues: string[], instruction?: string): LLMMessage[] {
+    const listed = issues.slice(0, MAX_ISSUES_IN_PROMPT).map((issue) => `- ${issue}`);
+    if (issues.length > MAX_ISSUES_IN_PROMPT) {
+      listed.push(`- ...and ${issues.length - MAX_ISSUES_IN_PROMPT} more`);
+    }
+
+    return [
+      { role: 'assistant', content: reply },
+      {
+        role: 'user',
+        content: `Your reply failed validation:
+${listed.join('\n')}
+
+${instruction || 'Return the complete corrected JSON in the same format.'} Output ONLY valid JSON, no markdown, no explanations.`,
+      },
+    ];
+  }
+
+  /**
+   * Request a completion and return it parsed and validated against a schema,
+   * repairing invalid replies up to the configured number of attempts
+   */
+  static async completeJson<S extends z.ZodType>(
+    request: LLMCompletionRequest,
+    schema: S
+  ): Promise<z.output<S>> {
+    const maxRepairs = getLLMMaxRepairAttempts();
+    let followUp = request.followUp || [];
+
+    for (let attempt = 0; ; attempt++) {
+      const raw = await getLLMProvider().complete({ ...request, followUp });
+      const result = this.validate(raw, schema);
+
+      if (result.success) {
+        if (attempt > 0) {
+          console.log('[LLMOutputService] Reply repaired:', { task: request.task, attempts: attempt });
+        }
+        return result.data;
+      }
+
+      console.warn('[LLMOutputService] Reply failed validation:', {
+        task: request.task,
+        attempt,
+        issues: result.issues.slice(0, 5),
+      });
+
+      if (attempt >= maxRepairs) {
+        throw new Error(
+          `LLM reply failed validation after ${attempt + 1} attempt(s): ${result.issues.slice(0, 3).join('; ')}`
+        );
+      }
+
+      followUp = [...(request.followUp || []), ...this.buildRepairMessages(raw, result.issues)];
+    }
+  }
+}
@@ -0,0 +1,177 @@
+// src/services/llmProvider.ts
+/**
+ * LLM Provider - Single entry point for chat completions
+ *
+ * Question generation, explanations, syllabus parsing and study plans all go
+ * through getLLMProvider(), which returns the backend selected by LLM_PROVIDER
+ * (see config/llm.ts). Providers return the raw text of the reply; parsing,
+ * validation and repair happen in LLMOutputService.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import {
+  getLLMProviderName,
+  getLLMTaskSettings,
+  type LLMProviderName,
+  type LLMTask,
+} from '../config/llm';
+import questionGenerationFixture from '../fixtures/llm/question_generation.json';
+import explanationsFixture from '../fixtures/llm/explanations.json';
+import syllabusParsingFixture from '../fixtures/llm/syllabus_parsing.json';
+import studyPlanFixture from '../fixtures/llm/study_plan.json';
+
+export interface LLMMessage {
+  role: 'assistant' | 'user';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  systemPrompt: string;
+  userPrompt: string;
+  jsonMode?: boolean;              // Ask the backend for a JSON object reply
+  followUp?: LLMMessage[];         // Later turns, e.g. a rejected reply and a repair request
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+/**
+ * OpenAI, or any endpoint that speaks the OpenAI chat completions API
+ */
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+  private label: string;
+
+  constructor(readonly name: 'openai' | 'openai_compatible') {
+    if (name === 'openai') {
+      const apiKey = process.env.OPENAI_API_KEY;
+
+      if (!apiKey || apiKey.trim().length === 0) {
+        throw new Error('OPENAI_API_KEY environment variable is not set');
+      }
+      if (!apiKey.startsWith('sk-')) {
+        throw new Error('OPENAI_API_KEY does not start with "sk-" (invalid format)');
+      }
+
+      this.client = new OpenAI({ apiKey });
+      this.label = 'OpenAI';
+    } else {
+      const baseURL = process.env.LLM_BASE_URL;
+
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL must be set for LLM_PROVIDER=openai_compatible');
+      }
+
+      // Local servers usually ignore the key, but the client requires one
+      this.client = new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY || 'not-needed' });
+      this.label = `LLM endpoint ${baseURL}`;
+    }
+
+    console.log('[LLMProvider] Initialized provider:', this.label);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const settings = getLLMTaskSettings(request.task);
+    let response;
+
+    try {
+      response = await this.client.chat.completions.create({
+        model: settings.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userPrompt },
+          ...(request.followUp || []),
+        ],
+        temperature: settings.temperature,
+        ...(request.jsonMode && { response_format: { type: 'json_object' as const } }),
+      });
+    } catch (apiError: any) {
+      console.error('[LLMProvider] API error:', {
+        provider: this.name,
+        task: request.task,
+        model: settings.model,
+        status: apiError.status,
+        code: apiError.code,
+        message: apiError.message,
+      });
+
+      if (apiError.status === 401) {
+        throw new Error(`${this.label} authentication failed (401): Invalid or expired API key`);
+      } else if (apiError.status === 404) {
+        throw new Error(`${this.label} model not found (404): ${settings.model}`);
+      } else if (apiError.status === 429) {
+        throw new Error(`${this.label} rate limit exceeded (429): Too many requests, please retry later`);
+      } else if (apiError.status === 500) {
+        throw new Error(`${this.label} server error (500): Service temporarily unavailable`);
+      } else if (apiError.status === 503) {
+        throw new Error(`${this.label} service unavailable (503): Service is down for maintenance`);
+      } else if (apiError.code === 'ENOTFOUND') {
+        throw new Error(`Network error: Cannot reach ${this.label} (DNS resolution failed)`);
+      } else if (apiError.code === 'ECONNREFUSED') {
+        throw new Error(`Network error: Connection refused by ${this.label}`);
+      }
+      throw apiError;
+    }
+
+    const content = response?.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error(`Empty response content from ${this.label}`);
+    }
+
+    return content;
+  }
+}
+
+const BUILT_IN_FIXTURES: Record<LLMTask, unknown> = {
+  question_generation: questionGenerationFixture,
+  explanations: explanationsFixture,
+  syllabus_parsing: syllabusParsingFixture,
+  study_plan: studyPlanFixture,
+};
+
+/**
+ * Deterministic offline provider: every task answers with a fixed fixture
+ * LLM_FIXTURES_DIR may point at a directory of <task>.json files to override the built-in ones
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+
+  constructor(private fixturesDir: string | undefined = process.env.LLM_FIXTURES_DIR) {}
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    if (this.fixturesDir) {
+      const file = path.resolve(this.fixturesDir, `${request.task}.json`);
+      if (fs.existsSync(file)) {
+        return fs.promises.readFile(file, 'utf8');
+      }
+    }
+
+    return JSON.stringify(BUILT_IN_FIXTURES[request.task]);
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Provider selected by LLM_PROVIDER, created on first use
+ * Missing credentials only fail the first LLM call, never application start-up
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const name = getLLMProviderName();
+    provider = name === 'fake' ? new FakeLLMProvider() : new OpenAIProvider(name);
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider (tests), or pass null to re-read the configuration on next use
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
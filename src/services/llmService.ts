@@ -3,44 +3,97 @@
  * LLM Service for Question Generation
  */
 
-import OpenAI from 'openai';
-import { Question, LLMQuestionResponse, QuestionFeatures } from '../types/quiz';
+import { getLLMMaxRepairAttempts } from '../config/llm';
+import { type LLMCompletionRequest, type LLMMessage } from './llmProvider';
+import { LLMOutputService } from './llmOutputService';
+import { RetrievalService, type TextChunk } from './retrievalService';
+import { normalizeText } from './gradingService';
+import { CurriculumService } from './curriculumService';
+import { Question, QuestionFeatures } from '../types/quiz';
+import {
+  LLMQuestionSchema,
+  LLMQuestionListSchema,
+  LLMExplanationSchema,
+  LLMExplanationListSchema,
+  LLMStudyPlanSchema,
+  type LLMQuestion,
+} from '../validators/llmSchemas';
+import type {
+  QuestionType,
+  QuestionExplanation,
+  Question as QuestionSetQuestion,
+} from '../types/questionSet';
 
-export class LLMService {
-  private static openaiClient: OpenAI | null = null;
+/**
+ * Optional controls for question generation
+ */
+export interface QuestionGenerationOptions {
+  questionTypes?: QuestionType[];  // Default ["mcq"]
+  difficultyLevel?: number;        // Target set difficulty (1-5)
+  difficultyLabel?: string;        // easy | medium | hard; the set level must fall in the label's range
+  questionCount?: number;          // MIN_QUESTIONS_PER_SET..MAX_QUESTIONS_PER_SET, default 10
+  board?: string;                  // Curriculum board the questions are written for, default DEFAULT_BOARD
+}
 
-  /**
-   * Get OpenAI client instance
-   */
-  private static getOpenAIClient(): OpenAI {
-    if (!this.openaiClient) {
-      const apiKey = process.env.OPENAI_API_KEY;
-
-      // API Key validation
-      if (!apiKey) {
-        const errMsg = 'OPENAI_API_KEY environment variable is not set';
-        console.error('[LLMService] Fatal error:', errMsg);
-        throw new Error(errMsg);
-      }
+export const DEFAULT_QUESTIONS_PER_SET = 10;
+export const MIN_QUESTIONS_PER_SET = 5;
+export const MAX_QUESTIONS_PER_SET = 30;
 
-      if (apiKey.trim().length === 0) {
-        const errMsg = 'OPENAI_API_KEY is empty';
-        console.error('[LLMService] Fatal error:', errMsg);
-        throw new Error(errMsg);
-      }
+// Characters of retrieved chapter text sent with a generation request
+const MAX_CONTEXT_CHARS = 12000;
 
-      if (!apiKey.startsWith('sk-')) {
-        const errMsg = 'OPENAI_API_KEY does not start with "sk-" (invalid format)';
-        console.error('[LLMService] Fatal error:', errMsg);
-        throw new Error(errMsg);
-      }
+/**
+ * Set difficulty levels (1-5) accepted for each difficulty label
+ */
+export const DIFFICULTY_LABEL_LEVELS: Record<string, { min: number; max: number }> = {
+  easy: { min: 1, max: 2 },
+  medium: { min: 3, max: 3 },
+  hard: { min: 4, max: 5 },
+};
 
-      console.log('[LLMService] OpenAI client initialized with valid API key');
-      this.openaiClient = new OpenAI({ apiKey });
-    }
-    return this.openaiClient;
-  }
+/**
+ * Prompt wording for each difficulty label
+ */
+const DIFFICULTY_LABEL_DESCRIPTIONS: Record<string, string> = {
+  easy: 'recall of definitions and facts, single-step applications, familiar contexts, short plain wording',
+  medium: 'standard textbook questions mixing recall with one- or two-step application',
+  hard: 'multi-step reasoning and calculations, combining concepts, less familiar contexts',
+};
 
+/**
+ * Share of the set each question category must at least cover
+ */
+const QUESTION_MIX_SHARES = {
+  numerical: 0.3,
+  reasoning: 0.3,
+  memory: 0.2,
+  language: 0.2,
+};
+
+/**
+ * Prompt wording for each target difficulty level (1-5)
+ */
+const DIFFICULTY_LEVEL_DESCRIPTIONS: Record<number, string> = {
+  1: 'very easy - direct recall of definitions and facts, single-step',
+  2: 'easy - basic understanding, simple one-step applications',
+  3: 'moderate - standard textbook questions mixing recall and application',
+  4: 'challenging - multi-step reasoning and calculations',
+  5: 'very challenging - higher-order thinking, unfamiliar contexts, multi-concept problems',
+};
+
+/**
+ * Prompt snippet describing the JSON fields for each question type
+ */
+const QUESTION_TYPE_FORMATS: Record<QuestionType, string> = {
+  mcq: `"mcq": 4 options, exactly one correct. Set "correct_option_index" (0..3).`,
+  multi_select: `"multi_select": 4-6 options, two or more correct. Set "correct_option_indices" (e.g. [0, 2]) and "correct_option_index": -1.`,
+  true_false: `"true_false": "options": ["True", "False"]. Set "correct_option_index" (0 = True, 1 = False).`,
+  numeric: `"numeric": numeric-entry answer. "options": [], "correct_option_index": -1, "numeric_answer": number, "numeric_tolerance": allowed absolute error (e.g. 0.01), optional "unit" (e.g. "m/s").`,
+  fill_blank: `"fill_blank": question text contains "____". "options": [], "correct_option_index": -1, "accepted_answers": all acceptable spellings/variants of the missing word or phrase.`,
+  match: `"match": "match_left": 3-5 items, "options": the items to match them with (same count or more), "correct_matches": for each left item the index of its matching option, "correct_option_index": -1.`,
+};
+
+export class LLMService {
   /**
    * Compute difficulty from feature scores
    */
@@ -93,6 +146,43 @@ export class LLMService {
     return level;
   }
 
+  /**
+   * Set difficulty level (1-5) from its questions' difficulty scores (0-10)
+   */
+  static setDifficultyLevel(difficultyScores: number[]): number {
+    if (difficultyScores.length === 0) return 1;
+
+    const avg = difficultyScores.reduce((sum, score) => sum + score, 0) / difficultyScores.length;
+    return Math.max(1, Math.min(5, Math.round(avg / 2)));
+  }
+
+  static isDifficultyLabel(label: unknown): label is keyof typeof DIFFICULTY_LABEL_LEVELS {
+    return typeof label === 'string' && label in DIFFICULTY_LABEL_LEVELS;
+  }
+
+  /**
+   * Number of questions to generate, clamped to the supported range
+   */
+  static resolveQuestionCount(count?: number): number {
+    if (!count || !Number.isFinite(count)) return DEFAULT_QUESTIONS_PER_SET;
+    return Math.max(MIN_QUESTIONS_PER_SET, Math.min(MAX_QUESTIONS_PER_SET, Math.round(count)));
+  }
+
+  /**
+   * Minimum number of questions per category, scaled to the set size
+   * (3/3/2/2 for 10 questions; never more than the set holds)
+   */
+  static questionMix(count: number): Record<keyof typeof QUESTION_MIX_SHARES, number> {
+    const min = (share: number) => Math.max(1, Math.floor(count * share));
+
+    return {
+      numerical: min(QUESTION_MIX_SHARES.numerical),
+      reasoning: min(QUESTION_MIX_SHARES.reasoning),
+      memory: min(QUESTION_MIX_SHARES.memory),
+      language: min(QUESTION_MIX_SHARES.language),
+    };
+  }
+
   /**
    * Generate questions from chapter text using LLM
    */
@@ -102,14 +192,25 @@ export class LLMService {
     subject: string,
     chapter: string,
     classNumber: number,
-    topic?: string
+    topic?: string,
+    options: QuestionGenerationOptions = {}
   ): Promise<Question[]> {
+    const { questionTypes, difficultyLevel, difficultyLabel } = options;
+    const board = options.board || CurriculumService.defaultBoard();
+    const count = this.resolveQuestionCount(options.questionCount);
+    const labelLevels = this.isDifficultyLabel(difficultyLabel) ? DIFFICULTY_LABEL_LEVELS[difficultyLabel] : undefined;
+
     console.log('[LLMService] generateQuestionsFromText called:', {
       classId,
       subject,
       chapter,
       topic,
       classNumber,
+      questionTypes,
+      difficultyLevel,
+      difficultyLabel,
+      board,
+      count,
       textLength: chapterText.length,
     });
 
@@ -127,8 +228,6 @@ export class LLMService {
       throw new Error(errMsg);
     }
 
-    const client = this.getOpenAIClient();
-
     // Determine class level description
     let classLevel = '';
     if (classNumber >= 1 && classNumber <= 5) {
@@ -136,7 +235,7 @@ export class LLMService {
     } else if (classNumber >= 6 && classNumber <= 8) {
       classLevel = 'middle school (moderate complexity, introduction to advanced topics)';
     } else if (classNumber >= 9 && classNumber <= 10) {
-      classLevel = 'secondary school (CBSE board level, detailed concepts, application-based)';
+      classLevel = `secondary school (${board} board level, detailed concepts, application-based)`;
     } else {
       classLevel = 'senior secondary (advanced concepts, analytical thinking)';
     }
@@ -145,31 +244,68 @@ export class LLMService {
       ? `\n\n🎯 CRITICAL TOPIC FOCUS:
 - Generate questions ONLY about the topic: "${topic}"
 - Do NOT generate questions about other topics in the chapter
-- All 10 questions MUST be specifically related to "${topic}"
+- All ${count} questions MUST be specifically related to "${topic}"
 - If the chapter text does not contain sufficient information about "${topic}", use your knowledge of Class ${classNumber} ${subject} curriculum to generate relevant questions about "${topic}"`
       : '';
 
-    const systemPrompt = `You are an expert CBSE school teacher and assessment designer specializing in Class ${classNumber} (${classLevel}).
+    // Send the passages most relevant to the chapter and topic (topic weighted double)
+    const context = RetrievalService.retrieveContext(
+      chapterText,
+      [chapter, topic, topic].filter(Boolean).join(' '),
+      MAX_CONTEXT_CHARS
+    );
+
+    console.log('[LLMService] Retrieved chapter context:', {
+      chunks: context.chunks.map((c) => c.chunk_id),
+      chars: context.text.length,
+      matched: context.matched,
+    });
+
+    const types = this.resolveQuestionTypes(questionTypes);
+    const mcqOnly = types.length === 1 && types[0] === 'mcq';
+
+    const questionTypeInstruction = mcqOnly
+      ? ''
+      : `\n\nQUESTION TYPES:
+- Use a mix of these question types: ${types.join(', ')}
+- Set "type" on EVERY question and fill in the fields for that type:
+${types.map((t) => `  * ${QUESTION_TYPE_FORMATS[t]}`).join('\n')}`;
+
+    const difficultyInstruction = difficultyLevel
+      ? `\n\nDIFFICULTY TARGET:
+- Aim for difficulty level ${difficultyLevel} on a 1-5 scale: ${DIFFICULTY_LEVEL_DESCRIPTIONS[difficultyLevel] || DIFFICULTY_LEVEL_DESCRIPTIONS[3]}
+- Reflect this in the cognitive demand of each question and in its "features" scores`
+      : '';
+
+    const labelInstruction = labelLevels
+      ? `\n\nDIFFICULTY LABEL: ${difficultyLabel!.toUpperCase()}
+- Questions should be ${DIFFICULTY_LABEL_DESCRIPTIONS[difficultyLabel!]}
+- ${this.describeFeatureRange(labelLevels)}`
+      : '';
+
+    const mix = this.questionMix(count);
+
+    const systemPrompt = `You are an expert ${board} school teacher and assessment designer specializing in Class ${classNumber} (${classLevel}).
 
 CRITICAL REQUIREMENTS:
-1. Generate EXACTLY 10 multiple-choice questions
+1. Generate EXACTLY ${count} ${mcqOnly ? 'multiple-choice questions' : 'questions'}
 2. ALL questions MUST be directly from the provided chapter content${topic ? ` focusing ONLY on the topic "${topic}"` : ''}
 3. Questions MUST match Class ${classNumber} cognitive level and curriculum
 4. Use age-appropriate language for Class ${classNumber} students
-5. Questions should test understanding of the SPECIFIC topic${topic ? ` "${topic}"` : 's covered in this chapter'}${topicFocusInstruction}
+5. Questions should test understanding of the SPECIFIC topic${topic ? ` "${topic}"` : 's covered in this chapter'}${topicFocusInstruction}${questionTypeInstruction}${difficultyInstruction}${labelInstruction}
 
 QUESTION MIX (STRICT):
-- At least 3 questions MUST be numerical/calculation-based (if applicable to subject)
+- At least ${mix.numerical} question(s) MUST be numerical/calculation-based (if applicable to subject)
   * Use realistic values appropriate for Class ${classNumber}
   * Ensure correct arithmetic and unique correct answer
   * For these, "numerical" >= 0.7 in features
-- At least 3 questions MUST be reasoning-based conceptual questions
+- At least ${mix.reasoning} question(s) MUST be reasoning-based conceptual questions
   * Test understanding, not just memorization
   * For these, "reasoning" >= 0.7 in features
-- At least 2 questions MUST be pure memory/definition type
+- At least ${mix.memory} question(s) MUST be pure memory/definition type
   * Important terms, definitions, facts from the chapter
   * For these, "memorization" >= 0.7 in features
-- At least 2 questions MUST involve language/comprehension
+- At least ${mix.language} question(s) MUST involve language/comprehension
   * Reading comprehension, interpretation
   * For these, "language" >= 0.7 in features
 
@@ -180,11 +316,14 @@ TOPIC RELEVANCE:
 - Incorrect options should be plausible but clearly wrong
 
 For EACH question, provide:
-  "id": "Q1", "Q2", ... "Q10"
+  "id": "Q1", "Q2", ... "Q${count}"${mcqOnly ? '' : `\n  "type": one of ${types.map((t) => `"${t}"`).join(', ')}`}
   "question": Clear question text appropriate for Class ${classNumber}
-  "options": [4 options - 1 correct, 3 plausible incorrect]
-  "correct_option_index": int (0..3)
+  "options": ${mcqOnly ? '[4 options - 1 correct, 3 plausible incorrect]' : 'options as required by the question type'}
+  "correct_option_index": int (0..3)${mcqOnly ? '' : ', or -1 where the question type uses other answer fields'}
   "skills": list from ["reasoning","numerical","memory","language"]
+  "explanation": 2-4 sentences explaining why the answer is correct (show the working for numerical questions)
+  "option_rationales": one short sentence per option saying why it is correct or incorrect, in the same order as "options" (omit when there are no options)
+  "source_chunks": ids of the chapter content chunks the question is based on (e.g. ["c3"])
   "features": {
     "memorization": 0.0–1.0 (how much memorization required),
     "reasoning": 0.0–1.0 (how much logical thinking required),
@@ -217,6 +356,14 @@ Output format with LaTeX examples (note the double backslashes in JSON):
       "options": ["$x = 2$", "$x = 4$", "$x = 6$", "$x = 8$"],
       "correct_option_index": 1,
       "skills": ["reasoning","numerical"],
+      "explanation": "Subtract 5 from both sides to get $2x = 8$, then divide by 2: $x = 4$.",
+      "option_rationales": [
+        "$2(2) + 5 = 9$, not 13",
+        "Correct: $2(4) + 5 = 13$",
+        "$2(6) + 5 = 17$, not 13",
+        "$2(8) + 5 = 21$, not 13"
+      ],
+      "source_chunks": ["c2"],
       "features": {
         "memorization": 0.3,
         "reasoning": 0.8,
@@ -257,209 +404,269 @@ Output format with LaTeX examples (note the double backslashes in JSON):
 Subject: ${subject}
 Chapter: ${chapter}${topic ? `\nTopic (FOCUS ONLY ON THIS): ${topic}` : ''}
 
-CHAPTER CONTENT:
+CHAPTER CONTENT (passages, each headed by its chunk id):
 """
-${chapterText.substring(0, 12000)}
+${context.text}
 """
 
-Generate EXACTLY 10 questions that:
+Generate EXACTLY ${count} questions that:
 1. ${topic ? `Are ONLY about the topic "${topic}" - DO NOT include questions about other topics` : 'Are ONLY about topics in this chapter content'}
 2. Match Class ${classNumber} difficulty level
 3. Follow the question mix requirements
-4. Are relevant and appropriate for CBSE Class ${classNumber} ${subject}
+4. Are relevant and appropriate for ${board} Class ${classNumber} ${subject}
 
 ${topic ? `\n⚠️ REMINDER: ALL questions must be specifically about "${topic}" - no other topics from the chapter!\n` : ''}
 Return ONLY the JSON with questions.`;
 
     try {
-      console.log('[LLMService] Calling OpenAI API for question generation');
-      let response;
-      try {
-        response = await client.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.3,
-        });
-      } catch (apiError: any) {
-        // Network and API error handling
-        console.error('[LLMService] OpenAI API error:', {
-          status: apiError.status,
-          code: apiError.code,
-          message: apiError.message,
-        });
-
-        if (apiError.status === 401) {
-          throw new Error('OpenAI authentication failed (401): Invalid or expired API key');
-        } else if (apiError.status === 429) {
-          throw new Error('OpenAI rate limit exceeded (429): Too many requests, please retry later');
-        } else if (apiError.status === 500) {
-          throw new Error('OpenAI server error (500): Service temporarily unavailable');
-        } else if (apiError.status === 503) {
-          throw new Error('OpenAI service unavailable (503): Service is down for maintenance');
-        } else if (apiError.code === 'ENOTFOUND') {
-          throw new Error('Network error: Cannot reach OpenAI service (DNS resolution failed)');
-        } else if (apiError.code === 'ECONNREFUSED') {
-          throw new Error('Network error: Connection refused by OpenAI service');
+      console.log('[LLMService] Calling LLM provider for question generation');
+      const maxRetries = labelLevels ? getLLMMaxRepairAttempts() : 0;
+      let correction = '';
+
+      for (let attempt = 0; ; attempt++) {
+        const questions = await this.collectValidQuestions(
+          { task: 'question_generation', systemPrompt, userPrompt: userPrompt + correction },
+          types,
+          count,
+          context.chunks
+        );
+
+        if (!labelLevels) {
+          console.log('[LLMService] Successfully generated', questions.length, 'questions');
+          return questions;
         }
-        throw apiError;
-      }
-
-      // Response validation
-      if (!response) {
-        const errMsg = 'No response received from OpenAI API';
-        console.error('[LLMService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      if (!response.choices || response.choices.length === 0) {
-        const errMsg = 'OpenAI response has no choices';
-        console.error('[LLMService]', errMsg);
-        throw new Error(errMsg);
-      }
 
-      let rawContent = response.choices[0].message.content;
-      if (!rawContent) {
-        const errMsg = 'Empty response content from OpenAI';
-        console.error('[LLMService]', errMsg);
-        throw new Error(errMsg);
-      }
+        // The set is only usable if its computed level matches the requested label
+        const level = this.setDifficultyLevel(questions.map((q) => q.features.difficulty_score));
+        if (level >= labelLevels.min && level <= labelLevels.max) {
+          console.log('[LLMService] Successfully generated', questions.length, 'questions at level', level);
+          return questions;
+        }
 
-      console.log('[LLMService] Received response from OpenAI, length:', rawContent.length);
+        const range = labelLevels.min === labelLevels.max ? `${labelLevels.min}` : `${labelLevels.min}-${labelLevels.max}`;
+        console.warn('[LLMService] Generated set missed the difficulty label:', { difficultyLabel, level, range, attempt });
 
-      // Clean up markdown code blocks
-      rawContent = rawContent.trim();
-      if (rawContent.startsWith('```')) {
-        rawContent = rawContent.replace(/^```(?:json)?\\n?/, '').replace(/```$/, '').trim();
-      }
+        if (attempt >= maxRetries) {
+          throw new Error(`Generated set has difficulty level ${level}, outside ${range} required for "${difficultyLabel}"`);
+        }
 
-      console.log('[LLMService] Raw content length before sanitization:', rawContent.length);
-
-      // Sanitize JSON to fix common LLM-generated errors
-      // First, let's try to parse as-is
-      let needsSanitization = false;
-      try {
-        JSON.parse(rawContent);
-        console.log('[LLMService] JSON is already valid, no sanitization needed');
-      } catch (e) {
-        needsSanitization = true;
-        console.log('[LLMService] JSON parse failed, attempting sanitization');
+        const direction = level < labelLevels.min ? 'harder' : 'easier';
+        correction = `\n\nA previous attempt came out at difficulty level ${level}, but "${difficultyLabel}" needs level ${range}. Make the questions ${direction}. ${this.describeFeatureRange(labelLevels)}`;
       }
+    } catch (error: any) {
+      console.error('[LLMService] Fatal error in generateQuestionsFromText:', error.message);
+      throw new Error(`Failed to generate questions: ${error.message}`);
+    }
+  }
 
-      if (needsSanitization) {
-        // Aggressive fix: Replace all backslashes that aren't part of valid JSON escape sequences
-        // Valid JSON escapes: \", \\, \/, \b, \f, \n, \r, \t, \uXXXX
-
-        // Step 1: Protect valid escape sequences by temporarily replacing them
-        const protectedEscapes: Array<[string, string]> = [
-          ['\\\\', '\x00BACKSLASH\x00'],
-          ['\\"', '\x00QUOTE\x00'],
-          ['\\/', '\x00SLASH\x00'],
-          ['\\b', '\x00BACKSPACE\x00'],
-          ['\\f', '\x00FORMFEED\x00'],
-          ['\\n', '\x00NEWLINE\x00'],
-          ['\\r', '\x00RETURN\x00'],
-          ['\\t', '\x00TAB\x00'],
-        ];
-
-        let sanitized = rawContent;
-
-        // Protect valid escapes
-        for (const [original, placeholder] of protectedEscapes) {
-          sanitized = sanitized.split(original).join(placeholder);
+  /**
+   * Validate generated questions one by one and ask the model to replace the
+   * rejected ones until exactly `count` valid questions are collected
+   * Throws when the repair budget runs out first, so a short set is never saved
+   * Each question records the context chunks it is grounded in
+   */
+  private static async collectValidQuestions(
+    request: LLMCompletionRequest,
+    types: QuestionType[],
+    count: number,
+    contextChunks: TextChunk[]
+  ): Promise<Question[]> {
+    const maxRepairs = getLLMMaxRepairAttempts();
+    const accepted: LLMQuestion[] = [];
+    const seen = new Set<string>();
+    let followUp: LLMMessage[] = [];
+
+    for (let round = 0; round <= maxRepairs && accepted.length < count; round++) {
+      const data = await LLMOutputService.completeJson({ ...request, followUp }, LLMQuestionListSchema);
+      const issues: string[] = [];
+
+      data.questions.forEach((item, i) => {
+        if (accepted.length >= count) return;
+
+        const label = `questions[${i}]`;
+        const parsed = LLMQuestionSchema.safeParse(item);
+        if (!parsed.success) {
+          issues.push(...LLMOutputService.formatIssues(parsed.error, label));
+          return;
         }
 
-        // Now replace all remaining backslashes with double backslashes
-        sanitized = sanitized.replace(/\\/g, '\\\\');
+        const type = 'type' in parsed.data ? parsed.data.type : 'mcq';
+        if (!types.includes(type)) {
+          issues.push(`${label}.type: "${type}" was not requested (use ${types.join(', ')})`);
+          return;
+        }
 
-        // Restore protected escapes
-        for (const [original, placeholder] of protectedEscapes) {
-          sanitized = sanitized.split(placeholder).join(original);
+        const key = normalizeText(parsed.data.question);
+        if (seen.has(key)) {
+          issues.push(`${label}.question: duplicates another question`);
+          return;
         }
 
-        console.log('[LLMService] Applied aggressive JSON sanitization');
-        rawContent = sanitized;
+        seen.add(key);
+        accepted.push(parsed.data);
+      });
+
+      console.log('[LLMService] Validated generated questions:', {
+        round,
+        received: data.questions.length,
+        accepted: accepted.length,
+        required: count,
+        issues: issues.slice(0, 5),
+      });
+
+      const missing = count - accepted.length;
+      if (missing > 0) {
+        followUp = LLMOutputService.buildRepairMessages(
+          JSON.stringify(data),
+          issues.length > 0 ? issues : [`only ${data.questions.length} questions were returned`],
+          `Return { "questions": [...] } with exactly ${missing} NEW question(s) in the same format to replace the rejected or missing ones. Do not repeat any of these accepted questions:
+${accepted.map((q, i) => `${i + 1}. ${q.question}`).join('\n')}
+`
+        );
       }
+    }
 
-      // JSON parsing with detailed error handling
-      let data: LLMQuestionResponse;
-      try {
-        console.log('[LLMService] Attempting to parse JSON response');
-        data = JSON.parse(rawContent);
-      } catch (parseError: any) {
-        console.error('[LLMService] JSON parsing failed');
-        console.error('[LLMService] Parse error message:', parseError.message);
-        console.error('[LLMService] First 500 chars of content:', rawContent.substring(0, 500));
-        // Log a snippet of the content around the error position if available
-        if (parseError.message.includes('position')) {
-          const posMatch = parseError.message.match(/position (\d+)/);
-          if (posMatch) {
-            const pos = parseInt(posMatch[1]);
-            const start = Math.max(0, pos - 100);
-            const end = Math.min(rawContent.length, pos + 100);
-            console.error('[LLMService] Context around parse error (pos', pos, '):', rawContent.substring(start, end));
-          }
-        }
-        throw new Error(`Failed to parse LLM response as JSON: ${parseError.message}`);
-      }
+    if (accepted.length < count) {
+      throw new Error(`Only ${accepted.length} of ${count} generated questions passed validation`);
+    }
 
-      // Question structure validation
-      console.log('[LLMService] Validating question structure');
-      if (!data || !Array.isArray(data.questions)) {
-        const errMsg = 'Invalid response structure: missing or invalid "questions" array';
-        console.error('[LLMService]', errMsg);
-        throw new Error(errMsg);
-      }
+    return accepted.slice(0, count).map((q, i) => {
+      const { explanation, option_rationales, source_chunks, ...fields } = q;
+
+      return {
+        ...fields,
+        ...this.normalizeExplanation({ explanation, option_rationales }, i, q.options.length),
+        id: `Q${i + 1}`,
+        features: this.computeDifficulty(q.features),
+        source_chunks: RetrievalService.groundQuestion(
+          contextChunks,
+          [q.question, ...q.options].join(' '),
+          source_chunks
+        ),
+      };
+    });
+  }
 
-      if (data.questions.length === 0) {
-        const errMsg = 'No questions generated in response';
-        console.error('[LLMService]', errMsg);
-        throw new Error(errMsg);
-      }
+  /**
+   * Prompt line with the feature average that yields a level range
+   * (set level = round(mean feature * 10 / 2), so level L spans (2L-1)/10 to (2L+1)/10)
+   */
+  private static describeFeatureRange(levels: { min: number; max: number }): string {
+    const low = levels.min <= 1 ? 0 : (2 * levels.min - 1) / 10;
+    const high = levels.max >= 5 ? 1 : (2 * levels.max + 1) / 10;
+    return `Across the set, the average of all four "features" values should be between ${low.toFixed(1)} and ${high.toFixed(1)}`;
+  }
 
-      console.log('[LLMService] Response contains', data.questions.length, 'questions');
+  /**
+   * Keep only known question types; default to MCQ
+   */
+  private static resolveQuestionTypes(questionTypes?: QuestionType[]): QuestionType[] {
+    const known = (questionTypes || []).filter((t) => t in QUESTION_TYPE_FORMATS);
+    return known.length > 0 ? Array.from(new Set(known)) : ['mcq'];
+  }
 
-      const questions: Question[] = [];
+  /**
+   * Keep a generated explanation and per-option rationales if well-formed
+   * Rationales must line up with the options, otherwise they are dropped
+   */
+  private static normalizeExplanation(
+    q: QuestionExplanation,
+    i: number,
+    optionCount: number
+  ): QuestionExplanation {
+    const result: QuestionExplanation = {};
+
+    if (typeof q.explanation === 'string' && q.explanation.trim().length > 0) {
+      result.explanation = q.explanation.trim();
+    } else {
+      console.warn('[LLMService] Question', i, 'missing explanation');
+    }
 
-      for (let i = 0; i < data.questions.length; i++) {
-        const q = data.questions[i];
+    if (Array.isArray(q.option_rationales) && optionCount > 0) {
+      if (q.option_rationales.length === optionCount) {
+        result.option_rationales = q.option_rationales.map((r) => String(r).trim());
+      } else {
+        console.warn('[LLMService] Question', i, 'has', q.option_rationales.length, 'rationales for', optionCount, 'options');
+      }
+    }
 
-        // Validate each question structure
-        if (!q.id) {
-          console.warn('[LLMService] Question', i, 'missing id');
-        }
-        if (!q.question) {
-          console.warn('[LLMService] Question', i, 'missing question text');
-        }
-        if (!q.options || !Array.isArray(q.options) || q.options.length < 4) {
-          console.warn('[LLMService] Question', i, 'has invalid options:', q.options?.length);
-        }
-        if (typeof q.correct_option_index !== 'number' || q.correct_option_index < 0 || q.correct_option_index > 3) {
-          console.warn('[LLMService] Question', i, 'has invalid correct_option_index:', q.correct_option_index);
-        }
-        if (!q.features || typeof q.features !== 'object') {
-          console.warn('[LLMService] Question', i, 'missing features');
-        }
+    return result;
+  }
+
+  /**
+   * Generate explanations for existing questions (used to backfill older question sets)
+   * Returns explanations keyed by question id; questions the model skipped are omitted
+   */
+  static async generateExplanations(
+    questions: QuestionSetQuestion[],
+    context: { classNumber: number; subject: string; chapter: string; topic: string; board?: string }
+  ): Promise<Record<string, QuestionExplanation>> {
+    const systemPrompt = `You are an expert ${context.board || CurriculumService.defaultBoard()} teacher for Class ${context.classNumber} ${context.subject}.
 
-        const difficultyData = this.computeDifficulty(q.features);
+You will receive quiz questions with their correct answers. For EACH question write:
+  "id": the question id, unchanged
+  "explanation": 2-4 sentences explaining why the answer is correct (show the working for numerical questions)
+  "option_rationales": one short sentence per option saying why it is correct or incorrect, in the same order as "options" (omit when there are no options)
 
-        questions.push({
+Use age-appropriate language for Class ${context.classNumber}. Keep LaTeX in $ delimiters with backslashes doubled in JSON.
+Output ONLY valid JSON: { "explanations": [ { "id": "Q1", "explanation": "...", "option_rationales": ["..."] } ] }`;
+
+    const userPrompt = JSON.stringify(
+      {
+        chapter: context.chapter,
+        topic: context.topic,
+        questions: questions.map((q) => ({
           id: q.id,
+          type: q.type || 'mcq',
           question: q.question,
           options: q.options,
           correct_option_index: q.correct_option_index,
-          skills: q.skills,
-          features: difficultyData,
-        });
-      }
+          correct_option_indices: q.correct_option_indices,
+          numeric_answer: q.numeric_answer,
+          unit: q.unit,
+          accepted_answers: q.accepted_answers,
+          match_left: q.match_left,
+          correct_matches: q.correct_matches,
+        })),
+      },
+      null,
+      2
+    );
+
+    try {
+      console.log('[LLMService] Calling LLM provider for explanations:', questions.length, 'questions');
+      const data = await LLMOutputService.completeJson(
+        { task: 'explanations', systemPrompt, userPrompt },
+        LLMExplanationListSchema
+      );
+
+      // Malformed items are skipped; their questions stay without an explanation
+      const result: Record<string, QuestionExplanation> = {};
+      data.explanations.forEach((entry, i) => {
+        const item = LLMExplanationSchema.safeParse(entry);
+        if (!item.success) {
+          console.warn('[LLMService] Skipping invalid explanation', i, LLMOutputService.formatIssues(item.error));
+          return;
+        }
+
+        const question = questions.find((q) => q.id === item.data.id);
+        if (!question) return;
 
-      console.log('[LLMService] Successfully generated', questions.length, 'questions');
-      return questions;
+        const normalized = this.normalizeExplanation(
+          { explanation: item.data.explanation, option_rationales: item.data.option_rationales ?? undefined },
+          i,
+          question.options.length
+        );
+        if (normalized.explanation) {
+          result[question.id] = normalized;
+        }
+      });
+
+      console.log('[LLMService] Generated explanations for', Object.keys(result).length, 'questions');
+      return result;
     } catch (error: any) {
-      console.error('[LLMService] Fatal error in generateQuestionsFromText:', error.message);
-      throw new Error(`Failed to generate questions: ${error.message}`);
+      console.error('[LLMService] Fatal error in generateExplanations:', error.message);
+      throw new Error(`Failed to generate explanations: ${error.message}`);
     }
   }
 
@@ -476,11 +683,10 @@ Return ONLY the JSON with questions.`;
         numerical: number;
         language: number;
       }
-    >
+    >,
+    board: string = CurriculumService.defaultBoard()
   ): Promise<any> {
-    const client = this.getOpenAIClient();
-
-    const systemPrompt = `You are an expert CBSE tutor and academic planner.
+    const systemPrompt = `You are an expert ${board} tutor and academic planner.
 
 You will receive:
 - A student id (just an identifier)
@@ -541,73 +747,11 @@ Rules:
     );
 
     try {
-      console.log('[LLMService] Calling OpenAI API for study plan generation');
-      let response;
-      try {
-        response = await client.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.4,
-        });
-      } catch (apiError: any) {
-        console.error('[LLMService] OpenAI API error in generateStudyPlan:', {
-          status: apiError.status,
-          code: apiError.code,
-          message: apiError.message,
-        });
-
-        if (apiError.status === 401) {
-          throw new Error('OpenAI authentication failed (401): Invalid or expired API key');
-        } else if (apiError.status === 429) {
-          throw new Error('OpenAI rate limit exceeded (429): Too many requests, please retry later');
-        } else if (apiError.status === 500) {
-          throw new Error('OpenAI server error (500): Service temporarily unavailable');
-        } else if (apiError.status === 503) {
-          throw new Error('OpenAI service unavailable (503): Service is down for maintenance');
-        } else if (apiError.code === 'ENOTFOUND') {
-          throw new Error('Network error: Cannot reach OpenAI service (DNS resolution failed)');
-        } else if (apiError.code === 'ECONNREFUSED') {
-          throw new Error('Network error: Connection refused by OpenAI service');
-        }
-        throw apiError;
-      }
-
-      // Response validation
-      if (!response || !response.choices || response.choices.length === 0) {
-        const errMsg = 'Invalid response from OpenAI';
-        console.error('[LLMService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      let rawContent = response.choices[0].message.content;
-      if (!rawContent) {
-        const errMsg = 'Empty response content from OpenAI';
-        console.error('[LLMService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      console.log('[LLMService] Received study plan response, length:', rawContent.length);
-
-      // Clean up markdown code blocks
-      rawContent = rawContent.trim();
-      if (rawContent.startsWith('```')) {
-        rawContent = rawContent.replace(/^```(?:json)?\\n?/, '').replace(/```$/, '').trim();
-      }
-
-      // JSON parsing with error context
-      let data;
-      try {
-        console.log('[LLMService] Parsing study plan JSON');
-        data = JSON.parse(rawContent);
-      } catch (parseError: any) {
-        console.error('[LLMService] Failed to parse study plan JSON');
-        console.error('[LLMService] Error:', parseError.message);
-        console.error('[LLMService] First 300 chars:', rawContent.substring(0, 300));
-        throw new Error(`Failed to parse study plan JSON: ${parseError.message}`);
-      }
+      console.log('[LLMService] Calling LLM provider for study plan generation');
+      const data = await LLMOutputService.completeJson(
+        { task: 'study_plan', systemPrompt, userPrompt },
+        LLMStudyPlanSchema
+      );
 
       console.log('[LLMService] Study plan generated successfully');
       return data;
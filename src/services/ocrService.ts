@@ -0,0 +1,151 @@
+// src/services/ocrService.ts
+/**
+ * OCR Service - Text for scanned PDF pages
+ *
+ * Many school-supplied textbooks are scans with no (or a near-empty) text
+ * layer. Such pages are rasterized with pdftoppm (poppler-utils) and read
+ * with the tesseract CLI, both run locally; nothing leaves the server. Each
+ * page's confidence is the mean tesseract word confidence (0-100).
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+const OCR_ENABLED = process.env.OCR_ENABLED !== 'false';
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+const OCR_DPI = parseInt(process.env.OCR_DPI || '300') || 300;
+const OCR_MIN_CHARS_PER_PAGE = parseInt(process.env.OCR_MIN_CHARS_PER_PAGE || '50') || 50;
+const OCR_PAGE_TIMEOUT_MS = 2 * 60 * 1000;
+const OCR_MAX_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+export interface OcrPageResult {
+  page: number;          // 1-based
+  text: string;
+  confidence: number;    // Mean word confidence, 0-100
+}
+
+/**
+ * OCR details stored on the chapters document and returned by the upload
+ */
+export interface OcrSummary {
+  engine: 'tesseract';
+  language: string;
+  pages: Array<{ page: number; confidence: number; char_count: number }>;
+  mean_confidence: number;
+  processed_at: Date;
+}
+
+export class OcrService {
+  static isEnabled(): boolean {
+    return OCR_ENABLED;
+  }
+
+  /**
+   * Whether a page's text layer is too sparse to use
+   */
+  static needsOcr(pageText: string, minChars: number = OCR_MIN_CHARS_PER_PAGE): boolean {
+    return pageText.replace(/\s+/g, '').length < minChars;
+  }
+
+  /**
+   * Text and mean word confidence from `tesseract ... tsv` output
+   * Words are joined into their lines, and blocks are separated by a blank line
+   */
+  static parseTesseractTsv(tsv: string): { text: string; confidence: number } {
+    const blocks: string[][] = [];
+    const confidences: number[] = [];
+    let lastBlock = '';
+    let lastLine = '';
+
+    tsv
+      .split('\n')
+      .slice(1)
+      .forEach((row) => {
+        const cols = row.split('\t');
+        if (cols.length < 12 || cols[0] !== '5') return;
+
+        const word = cols.slice(11).join('\t').trim();
+        const confidence = parseFloat(cols[10]);
+        if (!word) return;
+
+        const block = `${cols[1]}.${cols[2]}`;
+        const line = `${block}.${cols[3]}.${cols[4]}`;
+        if (block !== lastBlock) blocks.push([]);
+        const lines = blocks[blocks.length - 1];
+        if (line !== lastLine || lines.length === 0) lines.push(word);
+        else lines[lines.length - 1] += ` ${word}`;
+
+        lastBlock = block;
+        lastLine = line;
+        if (confidence >= 0) confidences.push(confidence);
+      });
+
+    const mean = confidences.length > 0 ? confidences.reduce((a, b) => a + b, 0) / confidences.length : 0;
+
+    return {
+      text: blocks.map((lines) => lines.join('\n')).join('\n\n'),
+      confidence: Math.round(mean * 10) / 10,
+    };
+  }
+
+  /**
+   * Rasterize and OCR the given pages of a PDF (1-based page numbers)
+   */
+  static async recognizePages(pdf: Buffer, pageNumbers: number[]): Promise<OcrPageResult[]> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ocr-'));
+    const pdfPath = path.join(workDir, 'source.pdf');
+    const results: OcrPageResult[] = [];
+
+    try {
+      // pdftoppm reads from a file; the document itself may live in object storage
+      await fs.writeFile(pdfPath, pdf);
+
+      for (const page of pageNumbers) {
+        const imageBase = path.join(workDir, `page-${page}`);
+
+        await execFileAsync(
+          'pdftoppm',
+          ['-r', String(OCR_DPI), '-f', String(page), '-l', String(page), '-png', '-singlefile', pdfPath, imageBase],
+          { timeout: OCR_PAGE_TIMEOUT_MS }
+        );
+
+        const { stdout } = await execFileAsync('tesseract', [`${imageBase}.png`, 'stdout', '-l', OCR_LANGUAGE, 'tsv'], {
+          timeout: OCR_PAGE_TIMEOUT_MS,
+          maxBuffer: OCR_MAX_OUTPUT_BYTES,
+        });
+
+        results.push({ page, ...this.parseTesseractTsv(stdout) });
+        await fs.rm(`${imageBase}.png`, { force: true });
+      }
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error('OCR needs pdftoppm (poppler-utils) and tesseract installed on the server');
+      }
+      throw new Error(`OCR failed: ${error.message}`);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+
+    console.log('[OcrService] Recognized pages:', results.map(({ page, confidence }) => ({ page, confidence })));
+
+    return results;
+  }
+
+  static summarize(results: OcrPageResult[]): OcrSummary {
+    const pages = results.map(({ page, text, confidence }) => ({ page, confidence, char_count: text.length }));
+    const mean = pages.length > 0 ? pages.reduce((sum, p) => sum + p.confidence, 0) / pages.length : 0;
+
+    return {
+      engine: 'tesseract',
+      language: OCR_LANGUAGE,
+      pages,
+      mean_confidence: Math.round(mean * 10) / 10,
+      processed_at: new Date(),
+    };
+  }
+}
@@ -1,48 +1,13 @@
 // src/services/openaiService.ts
 /**
- * OpenAI Service - Replaces Groq
+ * OpenAI Service - Syllabus parsing and MCQ generation
+ * Calls go through the configured LLM provider (see config/llm.ts); replies are schema-validated
  */
 
-import dotenv from 'dotenv';
-dotenv.config();
-
-import OpenAI from 'openai';
-
-/**
- * Validate and retrieve OpenAI API key from environment
- */
-function validateAndGetApiKey(): string {
-  console.log('[OpenAIService] Validating OpenAI API key');
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    const errMsg = 'OPENAI_API_KEY environment variable is not set';
-    console.error('[OpenAIService] Fatal error:', errMsg);
-    throw new Error(errMsg);
-  }
-
-  if (apiKey.trim().length === 0) {
-    const errMsg = 'OPENAI_API_KEY is empty';
-    console.error('[OpenAIService] Fatal error:', errMsg);
-    throw new Error(errMsg);
-  }
-
-  if (!apiKey.startsWith('sk-')) {
-    const errMsg = 'OPENAI_API_KEY does not start with "sk-" (invalid format)';
-    console.error('[OpenAIService] Fatal error:', errMsg);
-    throw new Error(errMsg);
-  }
-
-  console.log('[OpenAIService] API key validation successful');
-  return apiKey;
-}
-
-// Validate API key at module load time
-const validatedApiKey = validateAndGetApiKey();
-
-const openai = new OpenAI({
-  apiKey: validatedApiKey,
-});
+import { LLMOutputService } from './llmOutputService';
+import { RetrievalService } from './retrievalService';
+import { LLMSyllabusSchema, LLMLegacyMcqListSchema } from '../validators/llmSchemas';
+import type { SourceChunk } from '../types/questionSet';
 
 export class OpenAIService {
   /**
@@ -51,7 +16,8 @@ export class OpenAIService {
   static async parseSyllabusFromText(
     pdfText: string,
     classHint?: string,
-    subjectHint?: string
+    subjectHint?: string,
+    board?: string
   ): Promise<{
     classLabel: string;
     classNumber: number;
@@ -95,7 +61,7 @@ Rules:
 - Use clear, concise names
 - Output ONLY valid JSON, no markdown, no explanations`;
 
-    const userPrompt = `${classHint ? `Class Hint: ${classHint}\n` : ''}${
+    const userPrompt = `${board ? `Board: ${board}\n` : ''}${classHint ? `Class Hint: ${classHint}\n` : ''}${
       subjectHint ? `Subject Hint: ${subjectHint}\n` : ''
     }
 PDF Content (first 12000 chars):
@@ -106,64 +72,13 @@ ${pdfText.substring(0, 12000)}
 Parse and return structured JSON.`;
 
     try {
-      console.log('[OpenAIService] Calling OpenAI API for syllabus parsing');
-      let response;
-      try {
-        response = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.2,
-          response_format: { type: 'json_object' },
-        });
-      } catch (apiError: any) {
-        console.error('[OpenAIService] OpenAI API error in parseSyllabusFromText:', {
-          status: apiError.status,
-          code: apiError.code,
-          message: apiError.message,
-        });
-
-        if (apiError.status === 401) {
-          throw new Error('OpenAI authentication failed (401): Invalid or expired API key');
-        } else if (apiError.status === 429) {
-          throw new Error('OpenAI rate limit exceeded (429): Too many requests, please retry later');
-        } else if (apiError.status === 500) {
-          throw new Error('OpenAI server error (500): Service temporarily unavailable');
-        } else if (apiError.status === 503) {
-          throw new Error('OpenAI service unavailable (503): Service is down for maintenance');
-        } else if (apiError.code === 'ENOTFOUND') {
-          throw new Error('Network error: Cannot reach OpenAI service (DNS resolution failed)');
-        } else if (apiError.code === 'ECONNREFUSED') {
-          throw new Error('Network error: Connection refused by OpenAI service');
-        }
-        throw apiError;
-      }
-
-      if (!response || !response.choices || response.choices.length === 0) {
-        const errMsg = 'Invalid response from OpenAI';
-        console.error('[OpenAIService]', errMsg);
-        throw new Error(errMsg);
-      }
+      console.log('[OpenAIService] Calling LLM provider for syllabus parsing');
+      const parsed = await LLMOutputService.completeJson(
+        { task: 'syllabus_parsing', systemPrompt, userPrompt, jsonMode: true },
+        LLMSyllabusSchema
+      );
 
-      const content = response.choices[0].message.content;
-      if (!content) {
-        const errMsg = 'Empty response content from OpenAI';
-        console.error('[OpenAIService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      console.log('[OpenAIService] Received syllabus response, parsing JSON');
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch (parseError: any) {
-        console.error('[OpenAIService] JSON parse error:', parseError.message);
-        throw new Error(`Failed to parse response JSON: ${parseError.message}`);
-      }
-
-      console.log('[OpenAIService] Syllabus parsed successfully');
+      console.log('[OpenAIService] Syllabus parsed successfully:', parsed.chapters.length, 'chapters');
       return parsed;
     } catch (error: any) {
       console.error('[OpenAIService] Fatal error in parseSyllabusFromText:', error.message);
@@ -193,8 +108,15 @@ Parse and return structured JSON.`;
       subjectName: string;
       chapterName: string;
       topicName?: string;
+      sourceChunks: SourceChunk[];
     }>
   > {
+    const context = RetrievalService.retrieveContext(
+      chapterText,
+      [chapterName, topicName, topicName].filter(Boolean).join(' '),
+      8000
+    );
+
     const systemPrompt = `You are an expert question generator for ${classLabel} ${subjectName}.
 
 Generate exactly ${count} multiple-choice questions (MCQs) based on the chapter content.
@@ -224,78 +146,23 @@ Return ONLY valid JSON array, no markdown:
 ${topicName ? `Topic: ${topicName}\n` : ''}
 Content:
 """
-${chapterText.substring(0, 8000)}
+${context.text}
 """
 
 Generate exactly ${count} MCQ questions as JSON array.`;
 
     try {
-      console.log('[OpenAIService] Calling OpenAI API for question generation');
-      let response;
-      try {
-        response = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          response_format: { type: 'json_object' },
-        });
-      } catch (apiError: any) {
-        console.error('[OpenAIService] OpenAI API error in generateQuestions:', {
-          status: apiError.status,
-          code: apiError.code,
-          message: apiError.message,
-        });
-
-        if (apiError.status === 401) {
-          throw new Error('OpenAI authentication failed (401): Invalid or expired API key');
-        } else if (apiError.status === 429) {
-          throw new Error('OpenAI rate limit exceeded (429): Too many requests, please retry later');
-        } else if (apiError.status === 500) {
-          throw new Error('OpenAI server error (500): Service temporarily unavailable');
-        } else if (apiError.status === 503) {
-          throw new Error('OpenAI service unavailable (503): Service is down for maintenance');
-        } else if (apiError.code === 'ENOTFOUND') {
-          throw new Error('Network error: Cannot reach OpenAI service (DNS resolution failed)');
-        } else if (apiError.code === 'ECONNREFUSED') {
-          throw new Error('Network error: Connection refused by OpenAI service');
-        }
-        throw apiError;
-      }
-
-      if (!response || !response.choices || response.choices.length === 0) {
-        const errMsg = 'Invalid response from OpenAI';
-        console.error('[OpenAIService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      const content = response.choices[0].message.content;
-      if (!content) {
-        const errMsg = 'Empty response content from OpenAI';
-        console.error('[OpenAIService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      console.log('[OpenAIService] Received questions response, parsing JSON');
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch (parseError: any) {
-        console.error('[OpenAIService] JSON parse error:', parseError.message);
-        throw new Error(`Failed to parse response JSON: ${parseError.message}`);
-      }
-
-      // Handle both array and object with questions key
-      const questions = Array.isArray(parsed) ? parsed : parsed.questions || [];
-
-      if (questions.length === 0) {
-        console.warn('[OpenAIService] No questions found in response');
-      }
+      console.log('[OpenAIService] Calling LLM provider for question generation');
+      const questions = await LLMOutputService.completeJson(
+        { task: 'question_generation', systemPrompt, userPrompt, jsonMode: true },
+        LLMLegacyMcqListSchema
+      );
 
       console.log('[OpenAIService] Generated', questions.length, 'questions');
-      return questions.slice(0, count);
+      return questions.slice(0, count).map((q) => ({
+        ...q,
+        sourceChunks: RetrievalService.groundQuestion(context.chunks, [q.content, ...q.options].join(' ')),
+      }));
     } catch (error: any) {
       console.error('[OpenAIService] Fatal error in generateQuestions:', error.message);
       throw new Error(`Failed to generate questions: ${error.message}`);
@@ -4,28 +4,55 @@
  */
 
 import fs from 'fs/promises';
-import { getPdfPath, pdfExists as utilPdfExists } from '../utils/pathUtils';
+import { OcrService, OcrSummary } from './ocrService';
 
 // pdf-parse 1.x has a simple default export
 const pdfParse = require('pdf-parse');
 
+export interface ExtractedPDF {
+  text: string;
+  pageOffsets: number[];   // Character offset in text where each page starts
+  ocr?: OcrSummary;        // Set when some pages were read with OCR
+}
+
+/**
+ * Same text layout as pdf-parse's default page renderer
+ */
+function renderPage(pageData: any): Promise<string> {
+  return pageData
+    .getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+    .then((textContent: any) => {
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of textContent.items) {
+        text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+      return text;
+    });
+}
+
 export class PDFService {
   /**
-   * Get path to PDF file using ABSOLUTE path resolution
-   * We are using the naming convention:
-   *   {class_id}_{subject_id}_{chapter_code}.pdf
-   * Example:
-   *   "class 9_science_ch1-10.pdf"
+   * Number of pages in a PDF (only the first page is rendered)
    */
-  static getPDFPath(classId: string, subject: string, chapter: string): string {
-    const filename = `${classId}_${subject}_${chapter}.pdf`;
-    return getPdfPath(filename);
+  static async countPages(dataBuffer: Buffer): Promise<number> {
+    const data = await pdfParse(dataBuffer, { max: 1 });
+    return data.numpages;
   }
 
   /**
    * Extract text from PDF file (accepts absolute path)
    */
   static async extractTextFromPDF(pdfPath: string): Promise<string> {
+    const { text } = await this.extractPagesFromPDF(pdfPath);
+    return text;
+  }
+
+  /**
+   * Extract text from PDF file along with where each page starts in it
+   */
+  static async extractPagesFromPDF(pdfPath: string): Promise<ExtractedPDF> {
     console.log('[PDFService] Extracting text from PDF:', pdfPath);
 
     try {
@@ -56,6 +83,24 @@ export class PDFService {
         throw new Error(`Failed to read PDF file: ${readError.message}`);
       }
 
+      return await this.extractPagesFromBuffer(dataBuffer, pdfPath);
+    } catch (error: any) {
+      console.error('[PDFService] Error in extractPagesFromPDF:', {
+        error: error.message,
+        path: pdfPath,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Extract text from PDF contents along with where each page starts in it
+   * Pages without a usable text layer are read with OCR
+   */
+  static async extractPagesFromBuffer(dataBuffer: Buffer, source: string = 'buffer'): Promise<ExtractedPDF> {
+    console.log('[PDFService] Extracting text from PDF:', source);
+
+    try {
       // Validate buffer
       if (!dataBuffer || dataBuffer.length === 0) {
         console.error('[PDFService] PDF file is empty');
@@ -64,76 +109,82 @@ export class PDFService {
 
       // Use pdf-parse as a simple function
       let data: any;
+      const pages: string[] = [];
       try {
-        data = await pdfParse(dataBuffer);
+        data = await pdfParse(dataBuffer, {
+          pagerender: async (pageData: any) => {
+            const pageText = await renderPage(pageData);
+            pages[pageData.pageIndex] = pageText;
+            return pageText;
+          },
+        });
         console.log('[PDFService] PDF parsed successfully, pages:', data.numpages);
       } catch (parseError: any) {
         console.error('[PDFService] Failed to parse PDF:', {
           error: parseError.message,
-          path: pdfPath,
+          source,
         });
         throw new Error(`Failed to parse PDF (file may be corrupted): ${parseError.message}`);
       }
 
+      // Scanned pages have no (or a near-empty) text layer; read them with OCR
+      let text: string = data.text || '';
+      let ocr: OcrSummary | undefined;
+      const sparsePages = Array.from({ length: data.numpages || pages.length }, (_, i) => i + 1).filter((page) =>
+        OcrService.needsOcr(pages[page - 1] || '')
+      );
+      let ocrError: string | undefined;
+
+      if (sparsePages.length > 0 && OcrService.isEnabled()) {
+        console.log('[PDFService] Running OCR on pages with too little text:', sparsePages);
+        try {
+          const results = await OcrService.recognizePages(dataBuffer, sparsePages);
+          results.forEach((result) => {
+            if (result.text.trim().length > (pages[result.page - 1] || '').trim().length) {
+              pages[result.page - 1] = result.text;
+            }
+          });
+
+          // Same layout as pdf-parse's text: each page preceded by a blank line
+          const pageCount = Math.max(pages.length, data.numpages || 0);
+          text = Array.from({ length: pageCount }, (_, i) => `\n\n${pages[i] || ''}`).join('');
+          ocr = OcrService.summarize(results);
+        } catch (error: any) {
+          ocrError = error.message;
+          console.warn('[PDFService] ⚠️ OCR failed, keeping the text layer:', ocrError);
+        }
+      }
+
       // Validate extracted text
-      if (!data.text || data.text.trim().length === 0) {
+      if (text.trim().length === 0) {
         console.error('[PDFService] No text extracted from PDF');
-        throw new Error('No text could be extracted from PDF (file may be scanned image)');
+        throw new Error(
+          ocrError
+            ? `No text could be extracted from PDF (file may be scanned image; ${ocrError})`
+            : 'No text could be extracted from PDF (file may be scanned image)'
+        );
       }
 
-      console.log('[PDFService] Text extracted successfully, length:', data.text.length);
-      return data.text;
-    } catch (error: any) {
-      console.error('[PDFService] Error in extractTextFromPDF:', {
-        error: error.message,
-        stack: error.stack,
-        path: pdfPath,
-      });
-      // Re-throw with context
-      throw new Error(`Failed to extract text from PDF: ${error.message}`);
-    }
-  }
-
-  /**
-   * Check if PDF exists for given class, subject, chapter
-   */
-  static async pdfExists(classId: string, subject: string, chapter: string): Promise<boolean> {
-    const filename = `${classId}_${subject}_${chapter}.pdf`;
-    return await utilPdfExists(filename);
-  }
+      console.log('[PDFService] Text extracted successfully, length:', text.length);
 
-  /**
-   * Get PDF text for quiz generation
-   * DEFENSIVE: Returns null instead of throwing if PDF not found
-   */
-  static async getPDFTextForQuiz(
-    classId: string,
-    subject: string,
-    chapter: string
-  ): Promise<string | null> {
-    try {
-      const pdfPath = this.getPDFPath(classId, subject, chapter);
-      const exists = await this.pdfExists(classId, subject, chapter);
-
-      if (!exists) {
-        console.warn('[PDFService] PDF not found:', {
-          classId,
-          subject,
-          chapter,
-          expectedPath: pdfPath,
-        });
-        return null;
+      // Pages are rendered in order, so each one is found after the previous
+      const pageOffsets: number[] = [];
+      let offset = 0;
+      for (const pageText of pages) {
+        const found = text.indexOf(pageText || '', offset);
+        pageOffsets.push(found >= 0 ? found : offset);
+        offset = found >= 0 ? found + (pageText || '').length : offset;
       }
 
-      return await this.extractTextFromPDF(pdfPath);
+      return { text, pageOffsets, ...(ocr && { ocr }) };
     } catch (error: any) {
-      console.error('[PDFService] Error getting PDF text for quiz:', {
-        classId,
-        subject,
-        chapter,
+      console.error('[PDFService] Error in extractPagesFromBuffer:', {
         error: error.message,
+        stack: error.stack,
+        source,
       });
-      return null;
+      // Re-throw with context
+      throw new Error(`Failed to extract text from PDF: ${error.message}`);
     }
   }
 }
@@ -0,0 +1,295 @@
+// src/services/questionPoolService.ts
+/**
+ * Question Pool Service - Pre-warmed question sets per syllabus topic
+ *
+ * Every topic in syllabi.chapters[].topics should have at least
+ * QUESTION_POOL_MIN_SETS sets that most of the topic's students have not
+ * attempted yet, so the first students on a topic do not wait for generation.
+ * A set counts as consumed once QUESTION_POOL_CONSUMED_SHARE of the students
+ * who attempted the topic have attempted it. Topics below the minimum
+ * (counting queued generation jobs) are refilled through GenerationJobService,
+ * spread over difficulty levels, at most QUESTION_POOL_MAX_JOBS_PER_SWEEP
+ * jobs per sweep.
+ */
+
+import { collections } from '../config/database';
+import { GenerationJobService } from './generationJobService';
+import { CurriculumService } from './curriculumService';
+import type { GenerateQuizRequest, QuestionSet } from '../types/questionSet';
+import type { Curriculum, SyllabusDocument } from '../types/syllabus';
+import type { TopicPoolHealth, SubjectPoolHealth, PoolRefillResult } from '../types/questionPool';
+
+const MIN_SETS_PER_TOPIC = Math.max(0, parseInt(process.env.QUESTION_POOL_MIN_SETS || '3') || 0);
+const CONSUMED_SHARE = parseFloat(process.env.QUESTION_POOL_CONSUMED_SHARE || '0.5') || 0.5;
+const MAX_JOBS_PER_SWEEP = Math.max(1, parseInt(process.env.QUESTION_POOL_MAX_JOBS_PER_SWEEP || '10') || 10);
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Levels are filled in this order, thinnest level first
+const REFILL_LEVELS = [3, 2, 4, 1, 5];
+
+// created_by / requested_by of pool sets and jobs
+const POOL_REQUESTER = 'question_pool';
+
+type PoolSet = Pick<QuestionSet, 'set_id' | 'difficulty_level'>;
+
+export interface PoolFilter {
+  class_number?: number;
+  subject?: string;
+  chapter?: string;
+  topic?: string;
+  board?: string;                  // Board-wide syllabi of this board
+  school_id?: string;              // This school's own syllabi (takes precedence over board)
+}
+
+export class QuestionPoolService {
+  private static sweepTimer: NodeJS.Timeout | null = null;
+
+  static getMinSetsPerTopic(): number {
+    return MIN_SETS_PER_TOPIC;
+  }
+
+  /**
+   * Pool state of a topic from its sets, the distinct students per set,
+   * the distinct students of the topic and its pending generation jobs
+   */
+  static assessTopic(
+    chapter: string,
+    topic: string,
+    sets: PoolSet[],
+    setStudents: Record<string, number>,
+    topicStudents: number,
+    pendingJobs: number,
+    minSets: number = MIN_SETS_PER_TOPIC
+  ): TopicPoolHealth {
+    const isConsumed = (set: PoolSet) =>
+      topicStudents > 0 && (setStudents[set.set_id] || 0) >= topicStudents * CONSUMED_SHARE;
+
+    const available = sets.filter((set) => !isConsumed(set));
+    const availableByLevel: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    available.forEach((set) => {
+      const level = Math.max(1, Math.min(5, Math.round(set.difficulty_level)));
+      availableByLevel[level]++;
+    });
+
+    return {
+      chapter,
+      topic,
+      total_sets: sets.length,
+      available_sets: available.length,
+      consumed_sets: sets.length - available.length,
+      pending_jobs: pendingJobs,
+      students: topicStudents,
+      available_by_level: availableByLevel,
+      needs_refill: available.length + pendingJobs < minSets,
+    };
+  }
+
+  /**
+   * Difficulty levels for the next refill jobs of a topic, thinnest level first
+   */
+  static levelsToRefill(health: TopicPoolHealth, count: number): number[] {
+    return [...REFILL_LEVELS]
+      .sort((a, b) => health.available_by_level[a] - health.available_by_level[b])
+      .slice(0, Math.max(0, count));
+  }
+
+  /**
+   * Pool health of every topic in one syllabus
+   */
+  private static async assessSyllabus(syllabus: SyllabusDocument, filter: PoolFilter = {}): Promise<SubjectPoolHealth> {
+    const classNumber = syllabus.classNumber;
+    const subject = syllabus.subjectName;
+    const curriculum = CurriculumService.ofSyllabus(syllabus);
+    const curriculumFilter = CurriculumService.setFilter(curriculum);
+    const scope = { class_number: classNumber, subject, ...curriculumFilter };
+    const jobCurriculumFilter = Object.fromEntries(
+      Object.entries(curriculumFilter).map(([field, value]) => [`request.${field}`, value])
+    );
+
+    const [sets, setStudentGroups, pendingJobs] = await Promise.all([
+      collections
+        .question_sets()
+        .find(scope)
+        .project({ set_id: 1, chapter: 1, topic: 1, difficulty_level: 1 })
+        .toArray(),
+      collections
+        .question_set_attempts()
+        .aggregate([
+          { $match: scope },
+          {
+            $group: {
+              _id: { chapter: '$chapter', topic: '$topic', set_id: '$set_id' },
+              students: { $addToSet: '$student_id' },
+            },
+          },
+        ])
+        .toArray(),
+      collections
+        .generation_jobs()
+        .find({
+          status: { $in: ['queued', 'running'] },
+          'request.class_number': classNumber,
+          'request.subject': subject,
+          ...jobCurriculumFilter,
+        })
+        .project({ 'request.chapter': 1, 'request.topic': 1 })
+        .toArray(),
+    ]);
+
+    const topicKey = (chapter: string, topic: string) => `${chapter}\u0000${topic}`;
+
+    const setStudents: Record<string, number> = {};
+    const topicStudents = new Map<string, Set<string>>();
+    for (const group of setStudentGroups) {
+      const key = topicKey(group._id.chapter, group._id.topic);
+      setStudents[group._id.set_id] = group.students.length;
+      if (!topicStudents.has(key)) topicStudents.set(key, new Set());
+      group.students.forEach((studentId: string) => topicStudents.get(key)!.add(studentId));
+    }
+
+    const topics: TopicPoolHealth[] = [];
+    for (const chapter of syllabus.chapters || []) {
+      if (filter.chapter && chapter.chapterName !== filter.chapter) continue;
+
+      for (const { topicName } of chapter.topics || []) {
+        if (filter.topic && topicName !== filter.topic) continue;
+
+        const key = topicKey(chapter.chapterName, topicName);
+        topics.push(
+          this.assessTopic(
+            chapter.chapterName,
+            topicName,
+            sets.filter((s) => topicKey(s.chapter, s.topic) === key) as unknown as PoolSet[],
+            setStudents,
+            topicStudents.get(key)?.size || 0,
+            pendingJobs.filter((j) => topicKey(j.request.chapter, j.request.topic) === key).length
+          )
+        );
+      }
+    }
+
+    const needingRefill = topics.filter((t) => t.needs_refill).length;
+
+    return {
+      class_number: classNumber,
+      class_label: syllabus.classLabel,
+      subject,
+      board: curriculum.board,
+      ...(curriculum.schoolId && { school_id: curriculum.schoolId }),
+      min_sets_per_topic: MIN_SETS_PER_TOPIC,
+      topic_count: topics.length,
+      healthy_topics: topics.length - needingRefill,
+      topics_needing_refill: needingRefill,
+      topics,
+    };
+  }
+
+  private static async findSyllabi(filter: PoolFilter): Promise<SyllabusDocument[]> {
+    const query: any = {};
+    if (filter.class_number !== undefined) query.classNumber = filter.class_number;
+    if (filter.subject) query.subjectName = filter.subject.toLowerCase();
+    if (filter.school_id) query.schoolId = filter.school_id;
+    else if (filter.board) Object.assign(query, CurriculumService.syllabusFilter({ board: filter.board }));
+
+    const syllabi = await collections.syllabi().find(query).sort({ classNumber: 1, subjectName: 1 }).toArray();
+    return syllabi as unknown as SyllabusDocument[];
+  }
+
+  /**
+   * Pool health per class and subject
+   */
+  static async getPoolHealth(filter: PoolFilter = {}): Promise<SubjectPoolHealth[]> {
+    const syllabi = await this.findSyllabi(filter);
+    return Promise.all(syllabi.map((syllabus) => this.assessSyllabus(syllabus, filter)));
+  }
+
+  /**
+   * Queue generation jobs for topics below the minimum
+   */
+  static async refillPools(filter: PoolFilter = {}): Promise<PoolRefillResult> {
+    const result: PoolRefillResult = { topics_checked: 0, topics_needing_refill: 0, jobs_queued: 0 };
+    if (MIN_SETS_PER_TOPIC === 0) return result;
+
+    for (const syllabus of await this.findSyllabi(filter)) {
+      const health = await this.assessSyllabus(syllabus, filter);
+      result.topics_checked += health.topic_count;
+      result.topics_needing_refill += health.topics_needing_refill;
+
+      for (const topic of health.topics.filter((t) => t.needs_refill)) {
+        const missing = MIN_SETS_PER_TOPIC - topic.available_sets - topic.pending_jobs;
+
+        for (const level of this.levelsToRefill(topic, missing)) {
+          if (result.jobs_queued >= MAX_JOBS_PER_SWEEP) {
+            console.log('[QuestionPoolService] Job budget for this sweep used up:', result);
+            return result;
+          }
+
+          const request: GenerateQuizRequest = {
+            student_id: POOL_REQUESTER,
+            school_id: '',
+            class_number: syllabus.classNumber,
+            class_label: syllabus.classLabel,
+            subject: syllabus.subjectName,
+            chapter: topic.chapter,
+            topic: topic.topic,
+            ...CurriculumService.setFields(CurriculumService.ofSyllabus(syllabus)),
+          };
+
+          const { is_new_job } = await GenerationJobService.enqueue(request, {
+            target_level: level,
+            source: 'default',
+            rationale: 'Refilling the question pool for this topic',
+          });
+          if (is_new_job) result.jobs_queued++;
+        }
+      }
+    }
+
+    if (result.jobs_queued > 0) {
+      console.log('[QuestionPoolService] ✅ Queued pool refill jobs:', result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Refill the pool of one topic after it was consumed, without blocking the caller
+   */
+  static refillTopicInBackground(
+    classNumber: number,
+    subject: string,
+    chapter: string,
+    topic: string,
+    curriculum: Curriculum
+  ): void {
+    this.refillPools({
+      class_number: classNumber,
+      subject,
+      chapter,
+      topic,
+      board: curriculum.board,
+      school_id: curriculum.schoolId,
+    }).catch((error) => {
+      console.error('[QuestionPoolService] Topic refill failed:', error.message);
+    });
+  }
+
+  /**
+   * Periodically refill all pools (call once at server startup)
+   */
+  static startPoolManager(intervalMs: number = SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer || MIN_SETS_PER_TOPIC === 0) return;
+
+    const sweep = () => {
+      this.refillPools().catch((error) => {
+        console.error('[QuestionPoolService] Pool sweep failed:', error.message);
+      });
+    };
+
+    sweep();
+    this.sweepTimer = setInterval(sweep, intervalMs);
+
+    // Don't keep the process alive just for the sweep
+    this.sweepTimer.unref();
+  }
+}
@@ -15,9 +15,15 @@ import type {
   QuestionSetAttempt,
   QuestionAnswer,
   SkillScore,
-  MasteryLevel
+  MasteryLevel,
+  DifficultyTarget
 } from '../types/questionSet';
 import type { Question as OldQuestion } from '../types/quiz';
+import { AttemptService } from './attemptService';
+import { GradingService } from './gradingService';
+import { SyllabusService } from './syllabusService';
+import { CurriculumService } from './curriculumService';
+import type { Curriculum } from '../types/syllabus';
 
 export class QuestionSetService {
   /**
@@ -34,10 +40,11 @@ export class QuestionSetService {
       language: oldQuestion.features.language || 0,
     };
 
-    // Extract difficulty_score from old features
-    const difficulty_score = oldQuestion.features.difficulty_score || 0.5;
+    // Extract difficulty_score from old features (0-10; the middle when missing)
+    const difficulty_score = oldQuestion.features.difficulty_score ?? 5;
 
     return {
+      ...GradingService.pickTypeFields(oldQuestion),
       id: oldQuestion.id,
       question: oldQuestion.question,
       options: oldQuestion.options,
@@ -45,19 +52,24 @@ export class QuestionSetService {
       skills: oldQuestion.skills,
       features: features,
       difficulty_score: difficulty_score,
+      ...(oldQuestion.explanation && { explanation: oldQuestion.explanation }),
+      ...(oldQuestion.option_rationales && { option_rationales: oldQuestion.option_rationales }),
+      ...(oldQuestion.source_chunks && { source_chunks: oldQuestion.source_chunks }),
     };
   }
 
   /**
    * 🎯 CORE REUSE LOGIC: Find existing quiz set or return null
-   * Matches by class, subject, chapter, topic, and optionally difficulty
+   * Matches by class, subject, chapter, topic, curriculum, and optionally difficulty
    */
   static async findExistingQuizSet(
     classNumber: number,
     subject: string,
     chapter: string,
     topic: string,
-    difficultyLabel?: string
+    difficultyLabel?: string,
+    questionCount?: number,
+    curriculum: Curriculum = { board: CurriculumService.defaultBoard() }
   ): Promise<QuestionSet | null> {
     const questionSetsCol = collections.question_sets();
 
@@ -66,6 +78,7 @@ export class QuestionSetService {
       subject: subject.toLowerCase(),
       chapter: chapter,
       topic: topic,
+      ...CurriculumService.setFilter(curriculum),
     };
 
     // If difficulty specified, match it; otherwise match sets without difficulty
@@ -80,6 +93,11 @@ export class QuestionSetService {
       ];
     }
 
+    // Only reuse sets of the requested length
+    if (questionCount) {
+      query.questions = { $size: questionCount };
+    }
+
     console.log('[QuestionSetService] Searching for existing quiz set:', query);
 
     // Return the most recently created set that matches
@@ -97,13 +115,14 @@ export class QuestionSetService {
   }
 
   /**
-   * Find all question sets for a given topic
+   * Find all question sets for a given topic in a curriculum
    */
   static async findSetsByTopic(
     classNumber: number,
     subject: string,
     chapter: string,
-    topic: string
+    topic: string,
+    curriculum: Curriculum = { board: CurriculumService.defaultBoard() }
   ): Promise<QuestionSet[]> {
     const questionSetsCol = collections.question_sets();
 
@@ -113,6 +132,7 @@ export class QuestionSetService {
         subject: subject,
         chapter: chapter,
         topic: topic,
+        ...CurriculumService.setFilter(curriculum),
       })
       .toArray();
 
@@ -158,16 +178,24 @@ export class QuestionSetService {
   /**
    * Find an unattempted question set for a student
    * Returns null if all sets have been attempted
+   * Sets in excludeSetIds (e.g. already open in another session) are skipped
+   * With a target level, only sets within one level of it are considered, closest first
+   * With a question count, only sets of that length are considered
+   * Only sets of the given curriculum (the default board's if omitted) are considered
    */
   static async findUnattemptedSet(
     studentId: string,
     classNumber: number,
     subject: string,
     chapter: string,
-    topic: string
+    topic: string,
+    excludeSetIds: string[] = [],
+    target?: Pick<DifficultyTarget, 'target_level' | 'min_level' | 'max_level'>,
+    questionCount?: number,
+    curriculum?: Curriculum
   ): Promise<QuestionSet | null> {
     // Get all sets for this topic
-    const allSets = await this.findSetsByTopic(classNumber, subject, chapter, topic);
+    const allSets = await this.findSetsByTopic(classNumber, subject, chapter, topic, curriculum);
 
     if (allSets.length === 0) {
       return null; // No sets exist at all
@@ -184,25 +212,53 @@ export class QuestionSetService {
 
     // Filter to unattempted sets
     const unattemptedSets = allSets.filter(
-      (set) => !attemptedSetIds.includes(set.set_id)
+      (set) =>
+        !attemptedSetIds.includes(set.set_id) &&
+        !excludeSetIds.includes(set.set_id) &&
+        (!questionCount || set.questions.length === questionCount)
     );
 
     if (unattemptedSets.length === 0) {
       return null; // Student has attempted all sets
     }
 
-    // Pick a random unattempted set (or you can pick oldest, newest, etc.)
-    const randomIndex = Math.floor(Math.random() * unattemptedSets.length);
-    return unattemptedSets[randomIndex];
+    const candidates = target ? this.closestToTarget(unattemptedSets, target) : unattemptedSets;
+    if (candidates.length === 0) {
+      return null; // Nothing near the target, caller generates a new set
+    }
+
+    // Pick a random candidate set (or you can pick oldest, newest, etc.)
+    const randomIndex = Math.floor(Math.random() * candidates.length);
+    return candidates[randomIndex];
+  }
+
+  /**
+   * Sets closest to a difficulty target
+   * A requested label only accepts levels within its range; an adaptive target
+   * accepts levels up to 1 away
+   */
+  static closestToTarget(
+    sets: QuestionSet[],
+    target: Pick<DifficultyTarget, 'target_level' | 'min_level' | 'max_level'>
+  ): QuestionSet[] {
+    const min = target.min_level ?? target.target_level - 1;
+    const max = target.max_level ?? target.target_level + 1;
+    const inRange = sets.filter((set) => set.difficulty_level >= min && set.difficulty_level <= max);
+    if (inRange.length === 0) return [];
+
+    const distance = (set: QuestionSet) => Math.abs(set.difficulty_level - target.target_level);
+    const closest = Math.min(...inRange.map(distance));
+    return inRange.filter((set) => distance(set) === closest);
   }
 
   /**
    * 🎯 MAIN ENTRY POINT: Find existing quiz set OR create new one
    * This is the core reuse logic that should be called by the API route
+   * Chapter text is only loaded when a new set has to be generated
    */
   static async findOrCreateQuizSet(
     request: GenerateQuizRequest,
-    chapterText: string
+    loadChapterText: () => Promise<string>
   ): Promise<{ questionSet: QuestionSet; is_new: boolean }> {
     console.log('[QuestionSetService] findOrCreateQuizSet called:', {
       class_number: request.class_number,
@@ -218,7 +274,9 @@ export class QuestionSetService {
       request.subject,
       request.chapter,
       request.topic,
-      request.difficulty_label
+      request.difficulty_label,
+      request.num_questions,
+      CurriculumService.ofSet(request)
     );
 
     if (existingSet) {
@@ -233,7 +291,9 @@ export class QuestionSetService {
     console.log('[QuestionSetService] 🤖 No existing set found, generating new quiz via AI');
 
     // Import LLMService dynamically to avoid circular dependencies
-    const { LLMService } = await import('./llmService');
+    const { LLMService, DIFFICULTY_LABEL_LEVELS } = await import('./llmService');
+    const labelLevels = request.difficulty_label ? DIFFICULTY_LABEL_LEVELS[request.difficulty_label] : undefined;
+    const chapterText = await loadChapterText();
 
     // Generate questions via AI (returns old format)
     const oldQuestions = await LLMService.generateQuestionsFromText(
@@ -242,15 +302,20 @@ export class QuestionSetService {
       request.subject,
       request.chapter,
       request.class_number,
-      request.topic
+      request.topic,
+      {
+        questionCount: request.num_questions,
+        difficultyLabel: request.difficulty_label,
+        difficultyLevel: labelLevels && Math.round((labelLevels.min + labelLevels.max) / 2),
+        board: request.board,
+      }
     );
 
     // Convert to new question format
     const questions: Question[] = oldQuestions.map((q) => this.convertOldQuestionToNew(q));
 
-    // Calculate average difficulty
-    const avgDifficulty = questions.reduce((sum, q) => sum + q.difficulty_score, 0) / questions.length;
-    const difficultyLevel = Math.round(avgDifficulty * 10); // Convert 0-1 to 1-10
+    // Overall difficulty on the 1-5 scale (matches the requested label)
+    const difficultyLevel = LLMService.setDifficultyLevel(questions.map((q) => q.difficulty_score));
 
     // Create and save new question set
     const newSet = await this.createQuestionSet(request, questions, difficultyLevel);
@@ -274,6 +339,14 @@ export class QuestionSetService {
     const questionSetsCol = collections.question_sets();
 
     const setId = `set_${uuidv4().substring(0, 12)}`;
+    const curriculum = CurriculumService.ofSet(request);
+    const topicIds = await SyllabusService.findTopicIds(
+      request.class_number,
+      request.subject,
+      request.chapter,
+      request.topic,
+      curriculum
+    );
 
     const questionSet: QuestionSet = {
       set_id: setId,
@@ -282,9 +355,11 @@ export class QuestionSetService {
       subject: request.subject,
       chapter: request.chapter,
       topic: request.topic,
+      ...topicIds,
+      ...CurriculumService.setFields(curriculum),
       questions: questions,
       difficulty_level: difficultyLevel,
-      difficulty_label: request.difficulty_label, // ← Added
+      ...(request.difficulty_label && { difficulty_label: request.difficulty_label }), // Only a requested label
       created_at: new Date(),
       created_by: request.student_id, // Track who triggered the generation
     };
@@ -294,6 +369,148 @@ export class QuestionSetService {
     return questionSet;
   }
 
+  /**
+   * Set or clear (null) the time limit for a question set
+   */
+  static async updateTimeLimit(
+    setId: string,
+    timeLimitSeconds: number | null
+  ): Promise<boolean> {
+    const questionSetsCol = collections.question_sets();
+
+    const update =
+      timeLimitSeconds === null
+        ? { $unset: { time_limit_seconds: '' } }
+        : { $set: { time_limit_seconds: timeLimitSeconds } };
+
+    const result = await questionSetsCol.updateOne({ set_id: setId }, update);
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * Backfill explanations for question sets generated before explanations existed
+   * Processes up to `limit` sets with at least one unexplained question; a set that
+   * fails is logged and skipped so the batch can be re-run
+   */
+  static async backfillExplanations(limit: number = 50): Promise<{
+    sets_processed: number;
+    questions_updated: number;
+    sets_failed: number;
+  }> {
+    const questionSetsCol = collections.question_sets();
+
+    // Import LLMService dynamically to avoid circular dependencies
+    const { LLMService } = await import('./llmService');
+
+    const sets = (await questionSetsCol
+      .find({ questions: { $elemMatch: { explanation: { $exists: false } } } })
+      .sort({ created_at: 1 })
+      .limit(limit)
+      .toArray()) as QuestionSet[];
+
+    let questionsUpdated = 0;
+    let setsFailed = 0;
+
+    for (const set of sets) {
+      const missing = set.questions.filter((q) => !q.explanation);
+
+      try {
+        const explanations = await LLMService.generateExplanations(missing, {
+          classNumber: set.class_number,
+          subject: set.subject,
+          chapter: set.chapter,
+          topic: set.topic,
+          board: CurriculumService.ofSet(set).board,
+        });
+
+        const setFields: Record<string, any> = {};
+        set.questions.forEach((q, index) => {
+          const generated = explanations[q.id];
+          if (q.explanation || !generated) return;
+
+          setFields[`questions.${index}.explanation`] = generated.explanation;
+          if (generated.option_rationales) {
+            setFields[`questions.${index}.option_rationales`] = generated.option_rationales;
+          }
+          questionsUpdated++;
+        });
+
+        if (Object.keys(setFields).length > 0) {
+          await questionSetsCol.updateOne({ set_id: set.set_id }, { $set: setFields });
+        }
+
+        console.log('[QuestionSetService] Explanations backfilled:', {
+          set_id: set.set_id,
+          questions: Object.keys(explanations).length,
+        });
+      } catch (error: any) {
+        setsFailed++;
+        console.error('[QuestionSetService] Explanation backfill failed:', {
+          set_id: set.set_id,
+          error: error.message,
+        });
+      }
+    }
+
+    return {
+      sets_processed: sets.length,
+      questions_updated: questionsUpdated,
+      sets_failed: setsFailed,
+    };
+  }
+
+  /**
+   * Fields that move a set's LLM difficulty level to the 1-5 scale
+   * Sets from before the scale change have levels on a 1-10 (or larger) scale;
+   * llmLevel is the level recomputed from the set's question difficulty scores.
+   * A calibrated set keeps its (1-5) calibrated level and only has its original
+   * LLM estimate replaced. Empty when the set is already on the 1-5 scale
+   */
+  static difficultyLevelFields(
+    set: Pick<QuestionSet, 'difficulty_level' | 'llm_difficulty_level'>,
+    llmLevel: number
+  ): Partial<Pick<QuestionSet, 'difficulty_level' | 'llm_difficulty_level'>> {
+    if (set.llm_difficulty_level !== undefined) {
+      return set.llm_difficulty_level === llmLevel ? {} : { llm_difficulty_level: llmLevel };
+    }
+    return set.difficulty_level === llmLevel ? {} : { difficulty_level: llmLevel };
+  }
+
+  /**
+   * Recompute every set's LLM difficulty level on the 1-5 scale
+   * Safe to re-run: sets whose level already matches are left alone
+   */
+  static async migrateDifficultyLevels(): Promise<{ sets_checked: number; sets_updated: number }> {
+    const questionSetsCol = collections.question_sets();
+
+    // Import LLMService dynamically to avoid circular dependencies
+    const { LLMService } = await import('./llmService');
+
+    const cursor = questionSetsCol.find(
+      {},
+      { projection: { set_id: 1, difficulty_level: 1, llm_difficulty_level: 1, 'questions.difficulty_score': 1 } }
+    );
+
+    let setsChecked = 0;
+    let setsUpdated = 0;
+
+    for await (const set of cursor) {
+      setsChecked++;
+
+      const llmLevel = LLMService.setDifficultyLevel(
+        (set.questions || []).map((q: Pick<Question, 'difficulty_score'>) => q.difficulty_score ?? 5)
+      );
+      const setFields = this.difficultyLevelFields(set as QuestionSet, llmLevel);
+
+      if (Object.keys(setFields).length > 0) {
+        await questionSetsCol.updateOne({ set_id: set.set_id }, { $set: setFields });
+        setsUpdated++;
+      }
+    }
+
+    return { sets_checked: setsChecked, sets_updated: setsUpdated };
+  }
+
   /**
    * Get statistics about question sets for a topic
    */
@@ -391,14 +608,12 @@ export class QuestionSetService {
     }
 
     // Build answer map for easy lookup
-    const answerMap: Record<string, number> = {};
-    request.answers.forEach((ans) => {
-      answerMap[ans.question_id] = ans.selected_option_index;
-    });
+    const answerMap = new Map(request.answers.map((ans) => [ans.question_id, ans]));
 
-    // Grade each question and build answer array
+    // Grade each question (by type, with partial credit) and build answer array
     const gradedAnswers: QuestionAnswer[] = [];
     let correctCount = 0;
+    let creditTotal = 0;
     const featuresAggregated: QuestionFeatures = {
       memorization: 0,
       reasoning: 0,
@@ -407,16 +622,17 @@ export class QuestionSetService {
     };
 
     questionSet.questions.forEach((question) => {
-      const selectedIndex = answerMap[question.id];
-      const isCorrect = selectedIndex === question.correct_option_index;
+      const answer = answerMap.get(question.id);
+      const graded = AttemptService.buildGradedAnswer(
+        question.id,
+        question,
+        answer ? GradingService.getResponse(answer) : undefined
+      );
 
-      gradedAnswers.push({
-        question_id: question.id,
-        selected_option_index: selectedIndex !== undefined ? selectedIndex : -1,
-        is_correct: isCorrect,
-      });
+      gradedAnswers.push(graded);
+      creditTotal += graded.credit || 0;
 
-      if (isCorrect) {
+      if (graded.is_correct) {
         correctCount++;
         // Add features for correct answers
         featuresAggregated.memorization += question.features.memorization;
@@ -428,7 +644,8 @@ export class QuestionSetService {
 
     const totalQuestions = questionSet.questions.length;
     const incorrectCount = totalQuestions - correctCount;
-    const scorePercentage = (correctCount / totalQuestions) * 100;
+    const scoreTotal = parseFloat(creditTotal.toFixed(2));
+    const scorePercentage = (creditTotal / totalQuestions) * 100;
 
     // Normalize features (average across correct answers)
     if (correctCount > 0) {
@@ -451,8 +668,10 @@ export class QuestionSetService {
       subject: questionSet.subject,
       chapter: questionSet.chapter,
       topic: questionSet.topic,
+      ...(questionSet.topic_id && { chapter_id: questionSet.chapter_id, topic_id: questionSet.topic_id }),
+      ...CurriculumService.setFields(CurriculumService.ofSet(questionSet)),
       answers: gradedAnswers,
-      score_total: correctCount,
+      score_total: scoreTotal,
       score_percentage: scorePercentage,
       total_questions: totalQuestions,
       correct_count: correctCount,
@@ -465,6 +684,12 @@ export class QuestionSetService {
     const attemptsCol = collections.question_set_attempts();
     await attemptsCol.insertOne(attempt);
 
+    // Missed questions feed the spaced-repetition queue; failures don't fail the submission
+    const { ReviewService } = await import('./reviewService');
+    await ReviewService.addIncorrectAnswers(attempt).catch((error) => {
+      console.error('[QuestionSetService] Failed to queue review items:', error.message);
+    });
+
     console.log('[QuestionSetService] ✅ Quiz attempt saved:', {
       attempt_id: attemptId,
       score_percentage: scorePercentage.toFixed(2),
@@ -477,11 +702,11 @@ export class QuestionSetService {
     const skillMap = new Map<string, { score: number; count: number }>();
 
     questionSet.questions.forEach((question, index) => {
-      const isCorrect = gradedAnswers[index].is_correct;
+      const credit = gradedAnswers[index].credit || 0;
       question.skills.forEach((skill) => {
         const existing = skillMap.get(skill) || { score: 0, count: 0 };
         skillMap.set(skill, {
-          score: existing.score + (isCorrect ? 1 : 0),
+          score: existing.score + credit,
           count: existing.count + 1,
         });
       });
@@ -502,7 +727,7 @@ export class QuestionSetService {
 
     return {
       attempt_id: attemptId,
-      score_total: correctCount,
+      score_total: scoreTotal,
       score_percentage: parseFloat(scorePercentage.toFixed(2)),
       correct_count: correctCount,
       incorrect_count: incorrectCount,
@@ -8,6 +8,7 @@ import { collections } from '../config/database';
 import { LLMService } from './llmService';
 import { SyllabusService } from './syllabusService';
 import { QuestionSetService } from './questionSetService';
+import { CurriculumService } from './curriculumService';
 import {
   QuizAttempt,
   Question,
@@ -90,6 +91,9 @@ export class QuizService {
 
       console.log('[QuizService] Class number validated:', classNumber);
 
+      // Syllabus and question sets of the school's curriculum
+      const { curriculum } = await CurriculumService.resolveSyllabus(classNumber, subject, school_id);
+
       // 2. Check if 5 question sets exist per topic in database
       console.log('[QuizService] Checking for existing question sets in database');
       let questionSets;
@@ -98,7 +102,8 @@ export class QuizService {
           classNumber,
           subject,
           chapter,
-          topic
+          topic,
+          curriculum
         );
       } catch (dbError: any) {
         console.error('[QuizService] Error fetching question sets:', dbError.message);
@@ -120,7 +125,11 @@ export class QuizService {
             classNumber,
             subject,
             chapter,
-            topic
+            topic,
+            [],
+            undefined,
+            undefined,
+            curriculum
           );
         } catch (dbError: any) {
           console.error('[QuizService] Error finding unattempted set:', dbError.message);
@@ -253,7 +262,7 @@ export class QuizService {
       console.log('[QuizService] Fetching chapter text from syllabus');
       let chapterText;
       try {
-        chapterText = await SyllabusService.getChapterText(classNumber, subject, chapter);
+        chapterText = await SyllabusService.getChapterText(classNumber, subject, chapter, curriculum);
       } catch (syllabusError: any) {
         console.error('[QuizService] Syllabus service error:', syllabusError.message);
         throw new Error(`Failed to get chapter text: ${syllabusError.message}`);
@@ -269,7 +278,8 @@ export class QuizService {
           subject,
           chapter,
           classNumber,
-          topic // Pass topic to LLM for focused question generation
+          topic, // Pass topic to LLM for focused question generation
+          { board: curriculum.board }
         );
       } catch (llmError: any) {
         console.error('[QuizService] LLM service error:', llmError.message);
@@ -414,6 +424,11 @@ export class QuizService {
 
     // STEP 1: Create or find question set
     const questionSetsCol = collections.question_sets();
+    const { curriculum } = await CurriculumService.resolveSyllabus(
+      classNumber,
+      quizAttempt.subject,
+      quizAttempt.school_id
+    );
     let set_id = `set_from_quiz_${quizAttempt.quiz_id}`;
 
     // Check if we already created a set for this quiz
@@ -445,6 +460,7 @@ export class QuizService {
         subject: quizAttempt.subject,
         chapter: quizAttempt.chapter,
         topic: quizAttempt.topic,
+        ...CurriculumService.setFields(curriculum),
         questions: v2Questions,
         difficulty_level: quizAttempt.difficulty_level || 5,
         difficulty_label: 'medium',
@@ -485,6 +501,7 @@ export class QuizService {
         subject: quizAttempt.subject,
         chapter: quizAttempt.chapter,
         topic: quizAttempt.topic,
+        ...CurriculumService.setFields(curriculum),
         answers: gradedAnswers,
         score_total: correct_count,
         score_percentage: score_total * 100,
@@ -0,0 +1,583 @@
+// src/services/quizSessionService.ts
+/**
+ * Quiz Session Service - Server-side quiz delivery
+ *
+ * A session ties a student to the question set they were given. The answer
+ * key never leaves the server: generate returns public questions plus a
+ * session_id, and submit grades against the stored set for that session.
+ *
+ * Each session also gets its own question order and option permutation so
+ * students sharing a reused set cannot share answers by position.
+ *
+ * Sessions may be timed. The deadline is computed from the server clock when
+ * the quiz is handed out; late submissions are rejected or penalized, and
+ * expired sessions are finalized with whatever answers were saved.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { collections } from '../config/database';
+import { shuffle, randomPermutation } from '../utils/shuffleUtils';
+import { AttemptService } from './attemptService';
+import { SkillStatsService } from './skillStatsService';
+import { QuestionSetService } from './questionSetService';
+import { TeacherService } from './teacherService';
+import { GradingService } from './gradingService';
+import { ReviewService } from './reviewService';
+import { CurriculumService } from './curriculumService';
+import type {
+  QuizSession,
+  QuestionSet,
+  QuestionSetAttempt,
+  Question,
+  PublicQuestion,
+  GenerateQuizRequest,
+  OptionOrders,
+  StudentSkillStats,
+  SubmitQuizRequest,
+  AnswerInput,
+  AnswerValue,
+  DifficultyTarget,
+} from '../types/questionSet';
+
+// Late submission handling: "reject" finalizes with saved answers, "penalize" grades with a deduction
+const LATE_SUBMISSION_POLICY: 'reject' | 'penalize' =
+  process.env.QUIZ_LATE_SUBMISSION_POLICY === 'penalize' ? 'penalize' : 'reject';
+const LATE_GRACE_SECONDS = parseInt(process.env.QUIZ_LATE_GRACE_SECONDS || '30');
+const LATE_PENALTY_PERCENT = parseInt(process.env.QUIZ_LATE_PENALTY_PERCENT || '20');
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_OPEN_SESSIONS_PER_TOPIC = parseInt(process.env.QUIZ_MAX_OPEN_SESSIONS_PER_TOPIC || '3');
+
+export class QuizSessionService {
+  private static expirySweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Strip answer key and scoring metadata from questions before sending to client
+   * When a session is given, questions and options are returned in its shuffled order
+   */
+  static toPublicQuestions(
+    questions: Question[],
+    session?: Pick<QuizSession, 'question_ids' | 'option_orders'>
+  ): PublicQuestion[] {
+    const ordered = session
+      ? session.question_ids
+          .map((id) => questions.find((q) => q.id === id))
+          .filter((q): q is Question => q !== undefined)
+      : questions;
+
+    return ordered.map((q) => {
+      const order = session?.option_orders[q.id];
+
+      return {
+        id: q.id,
+        ...(q.type && { type: q.type }),
+        question: q.question,
+        options: order ? order.map((canonical) => q.options[canonical]) : q.options,
+        ...(q.match_left && { match_left: q.match_left }),
+        ...(q.unit && { unit: q.unit }),
+        skills: q.skills,
+      };
+    });
+  }
+
+  /**
+   * Build a randomized delivery: question order plus per-question option permutation
+   * True/false options keep their natural order
+   */
+  static buildDeliveryOrder(questions: Question[]): {
+    question_ids: string[];
+    option_orders: OptionOrders;
+  } {
+    const option_orders: OptionOrders = {};
+    questions.forEach((q) => {
+      option_orders[q.id] =
+        q.type === 'true_false'
+          ? q.options.map((_, i) => i)
+          : randomPermutation(q.options.length);
+    });
+
+    return {
+      question_ids: shuffle(questions.map((q) => q.id)),
+      option_orders,
+    };
+  }
+
+  /**
+   * Resolve the time limit for a delivery
+   * A teacher assignment covering the student takes precedence over the set's own limit
+   */
+  static async resolveTimeLimit(
+    request: GenerateQuizRequest,
+    questionSet: QuestionSet
+  ): Promise<number | undefined> {
+    try {
+      const assignmentLimit = await TeacherService.getQuizTimeLimitForStudent(
+        request.school_id,
+        request.student_id,
+        request.subject
+      );
+      if (assignmentLimit) return assignmentLimit;
+    } catch (error: any) {
+      console.error('[QuizSessionService] Failed to resolve assignment time limit:', error.message);
+    }
+
+    return questionSet.time_limit_seconds;
+  }
+
+  /**
+   * Create a new session for a question set delivered to a student
+   */
+  static async createSession(
+    request: GenerateQuizRequest,
+    questionSet: QuestionSet,
+    difficultyTarget?: DifficultyTarget
+  ): Promise<QuizSession> {
+    const sessionsCol = collections.quiz_sessions();
+    const delivery = this.buildDeliveryOrder(questionSet.questions);
+    const timeLimit = await this.resolveTimeLimit(request, questionSet);
+    const startedAt = new Date();
+
+    const session: QuizSession = {
+      session_id: `session_${uuidv4().substring(0, 12)}`,
+      student_id: request.student_id,
+      school_id: request.school_id,
+      set_id: questionSet.set_id,
+      class_number: questionSet.class_number,
+      subject: questionSet.subject,
+      chapter: questionSet.chapter,
+      topic: questionSet.topic,
+      ...(questionSet.topic_id && { chapter_id: questionSet.chapter_id, topic_id: questionSet.topic_id }),
+      ...CurriculumService.setFields(CurriculumService.ofSet(questionSet)),
+      question_ids: delivery.question_ids,
+      option_orders: delivery.option_orders,
+      status: 'active',
+      started_at: startedAt,
+      ...(timeLimit && {
+        time_limit_seconds: timeLimit,
+        expires_at: new Date(startedAt.getTime() + timeLimit * 1000),
+      }),
+      ...(difficultyTarget && { difficulty_target: difficultyTarget }),
+      created_at: startedAt,
+    };
+
+    await sessionsCol.insertOne(session);
+
+    console.log('[QuizSessionService] Session created:', {
+      session_id: session.session_id,
+      set_id: session.set_id,
+      student_id: session.student_id,
+      time_limit_seconds: session.time_limit_seconds,
+    });
+
+    return session;
+  }
+
+  /**
+   * Whether a submission at the given time is past the deadline plus grace period
+   */
+  static isLate(session: QuizSession, at: Date = new Date()): boolean {
+    if (!session.expires_at) return false;
+    return at.getTime() > new Date(session.expires_at).getTime() + LATE_GRACE_SECONDS * 1000;
+  }
+
+  static getLatePolicy(): 'reject' | 'penalize' {
+    return LATE_SUBMISSION_POLICY;
+  }
+
+  /**
+   * Find a session by session_id
+   */
+  static async findSessionById(sessionId: string): Promise<QuizSession | null> {
+    const sessionsCol = collections.quiz_sessions();
+
+    const session = await sessionsCol.findOne({ session_id: sessionId });
+    return session as QuizSession | null;
+  }
+
+  /**
+   * Find a student's open (active, not expired) sessions for a topic, newest first
+   */
+  static async findOpenSessions(
+    studentId: string,
+    classNumber: number,
+    subject: string,
+    chapter: string,
+    topic: string
+  ): Promise<QuizSession[]> {
+    const sessionsCol = collections.quiz_sessions();
+
+    const sessions = await sessionsCol
+      .find({
+        student_id: studentId,
+        class_number: classNumber,
+        subject: subject,
+        chapter: chapter,
+        topic: topic,
+        status: 'active',
+        $or: [{ expires_at: { $exists: false } }, { expires_at: { $gt: new Date() } }],
+      })
+      .sort({ created_at: -1 })
+      .toArray();
+
+    return sessions as QuizSession[];
+  }
+
+  static getMaxOpenSessionsPerTopic(): number {
+    return MAX_OPEN_SESSIONS_PER_TOPIC;
+  }
+
+  /**
+   * Save (or overwrite) the draft answer for one question of an open session
+   * The response is as displayed to the student; it is un-shuffled at grading time
+   * A null response (or -1 for option questions) clears the saved answer
+   */
+  static async saveAnswer(
+    sessionId: string,
+    studentId: string,
+    questionId: string,
+    response: AnswerValue | null
+  ): Promise<QuizSession> {
+    const session = await this.findSessionById(sessionId);
+
+    if (!session) {
+      throw { status: 404, detail: 'Quiz session not found' };
+    }
+    if (session.student_id !== studentId) {
+      throw { status: 403, detail: 'Quiz session belongs to another student' };
+    }
+    if (session.status !== 'active') {
+      throw { status: 409, detail: 'Quiz session already submitted' };
+    }
+    if (this.isLate(session)) {
+      throw { status: 410, detail: 'Quiz time limit exceeded' };
+    }
+
+    const questionSet = await QuestionSetService.findSetById(session.set_id);
+    const question = questionSet?.questions.find((q) => q.id === questionId);
+    if (!session.question_ids.includes(questionId) || !question) {
+      throw { status: 400, detail: `Question ${questionId} is not part of this quiz` };
+    }
+
+    const clear =
+      response === null ||
+      (response === -1 && GradingService.usesOptionIndices(GradingService.getQuestionType(question)));
+
+    if (!clear && !GradingService.isValidResponse(question, response as AnswerValue)) {
+      throw {
+        status: 400,
+        detail: `Invalid response for a ${GradingService.getQuestionType(question)} question`,
+      };
+    }
+
+    const sessionsCol = collections.quiz_sessions();
+    const now = new Date();
+
+    // Conditional on status so a save cannot race past a submission
+    const update = clear
+      ? {
+          $unset: { [`saved_answers.${questionId}`]: '' },
+          $set: { last_saved_at: now },
+        }
+      : {
+          $set: { [`saved_answers.${questionId}`]: response, last_saved_at: now },
+        };
+
+    const updated = await sessionsCol.findOneAndUpdate(
+      { session_id: sessionId, status: 'active' },
+      update,
+      { returnDocument: 'after' }
+    );
+
+    if (!updated) {
+      throw { status: 409, detail: 'Quiz session already submitted' };
+    }
+
+    return updated as QuizSession;
+  }
+
+  /**
+   * Combine saved draft answers with answers sent at submission (submission wins)
+   */
+  static mergeWithSavedAnswers(
+    session: Pick<QuizSession, 'saved_answers'>,
+    submitted: AnswerInput[]
+  ): AnswerInput[] {
+    const merged = new Map<string, AnswerInput>();
+
+    Object.entries(session.saved_answers || {}).forEach(([question_id, response]) => {
+      merged.set(question_id, { question_id, response });
+    });
+    submitted.forEach((a) => {
+      merged.set(a.question_id, a);
+    });
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * One answer per delivered question, in delivery order
+   * Questions without an answer are recorded as unanswered (-1); answers to
+   * questions outside the session are dropped
+   */
+  static completeAnswers(questionIds: string[], answers: AnswerInput[]): AnswerInput[] {
+    const byQuestion = new Map(answers.map((a) => [a.question_id, a]));
+
+    return questionIds.map(
+      (questionId) => byQuestion.get(questionId) || { question_id: questionId, selected_option_index: -1 }
+    );
+  }
+
+  /**
+   * Atomically move an active session to submitted
+   * Returns null if the session does not exist, belongs to another student,
+   * or was already submitted (prevents double grading)
+   */
+  static async claimForSubmission(
+    sessionId: string,
+    studentId: string
+  ): Promise<QuizSession | null> {
+    const sessionsCol = collections.quiz_sessions();
+
+    const session = await sessionsCol.findOneAndUpdate(
+      { session_id: sessionId, student_id: studentId, status: 'active' },
+      { $set: { status: 'submitted', submitted_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    return session as QuizSession | null;
+  }
+
+  /**
+   * Link the graded attempt to its session
+   */
+  static async attachAttempt(sessionId: string, attemptId: string): Promise<void> {
+    const sessionsCol = collections.quiz_sessions();
+
+    await sessionsCol.updateOne(
+      { session_id: sessionId },
+      { $set: { attempt_id: attemptId } }
+    );
+  }
+
+  /**
+   * Re-open a claimed session when grading fails so the student can retry
+   */
+  static async releaseSession(sessionId: string): Promise<void> {
+    const sessionsCol = collections.quiz_sessions();
+
+    await sessionsCol.updateOne(
+      { session_id: sessionId, attempt_id: { $exists: false } },
+      { $set: { status: 'active' }, $unset: { submitted_at: '' } }
+    );
+  }
+
+  /**
+   * Grade a claimed session and record the attempt and skill stats
+   * Re-opens the session if grading fails before the attempt is stored
+   */
+  static async gradeSession(
+    session: QuizSession,
+    request: Pick<SubmitQuizRequest, 'student_id' | 'school_id' | 'answers'>,
+    options: { submitted_at: Date; auto_submitted: boolean }
+  ): Promise<{ attempt: QuestionSetAttempt; stats: StudentSkillStats }> {
+    let attempt: QuestionSetAttempt | undefined;
+
+    try {
+      const questionSet = await QuestionSetService.findSetById(session.set_id);
+      if (!questionSet) {
+        throw { status: 404, detail: 'Question set not found' };
+      }
+
+      const isLate = !options.auto_submitted && this.isLate(session, options.submitted_at);
+
+      // Auto-submitted attempts stop the clock at the deadline
+      const endedAt =
+        options.auto_submitted && session.expires_at
+          ? new Date(session.expires_at)
+          : options.submitted_at;
+
+      // Every delivered question is graded (unanswered ones as wrong), selected
+      // indices are un-shuffled using the session's option order
+      attempt = await AttemptService.createAttempt(
+        {
+          student_id: request.student_id,
+          school_id: request.school_id,
+          session_id: session.session_id,
+          set_id: session.set_id,
+          answers: this.completeAnswers(session.question_ids, request.answers),
+        },
+        questionSet,
+        session,
+        {
+          started_at: session.started_at,
+          submitted_at: endedAt,
+          time_limit_seconds: session.time_limit_seconds,
+          is_late: isLate,
+          late_penalty_percent: isLate ? LATE_PENALTY_PERCENT : undefined,
+          auto_submitted: options.auto_submitted,
+        }
+      );
+
+      await this.attachAttempt(session.session_id, attempt.attempt_id);
+
+      const stats = await SkillStatsService.updateStudentStats(attempt, questionSet);
+
+      // Missed questions feed the spaced-repetition queue; failures don't fail the submission
+      await ReviewService.addIncorrectAnswers(attempt).catch((error) => {
+        console.error('[QuizSessionService] Failed to queue review items:', error.message);
+      });
+
+      return { attempt, stats };
+    } catch (error) {
+      if (!attempt) {
+        await this.releaseSession(session.session_id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finalize an expired session with whatever answers were saved
+   */
+  static async finalizeExpiredSession(
+    session: QuizSession
+  ): Promise<{ attempt: QuestionSetAttempt; stats: StudentSkillStats }> {
+    console.log('[QuizSessionService] Auto-submitting expired session:', session.session_id);
+
+    return this.gradeSession(
+      session,
+      {
+        student_id: session.student_id,
+        school_id: session.school_id,
+        answers: this.mergeWithSavedAnswers(session, []),
+      },
+      { submitted_at: new Date(), auto_submitted: true }
+    );
+  }
+
+  /**
+   * Find active sessions past their deadline (+ grace) and finalize them
+   * Returns the number of sessions finalized
+   */
+  static async finalizeExpiredSessions(): Promise<number> {
+    const sessionsCol = collections.quiz_sessions();
+    const cutoff = new Date(Date.now() - LATE_GRACE_SECONDS * 1000);
+
+    const expired = await sessionsCol
+      .find({ status: 'active', expires_at: { $lt: cutoff } })
+      .project({ session_id: 1, student_id: 1 })
+      .limit(100)
+      .toArray();
+
+    let finalized = 0;
+    for (const candidate of expired) {
+      // Claim first so a concurrent submit cannot grade the same session twice
+      const session = await this.claimForSubmission(candidate.session_id, candidate.student_id);
+      if (!session) continue;
+
+      try {
+        await this.finalizeExpiredSession(session);
+        finalized++;
+      } catch (error: any) {
+        console.error('[QuizSessionService] Failed to finalize session:', {
+          session_id: session.session_id,
+          error: error.message || error.detail,
+        });
+      }
+    }
+
+    if (finalized > 0) {
+      console.log('[QuizSessionService] ✅ Finalized', finalized, 'expired sessions');
+    }
+
+    return finalized;
+  }
+
+  /**
+   * Periodically finalize expired sessions (call once at server startup)
+   */
+  static startExpirySweep(intervalMs: number = EXPIRY_SWEEP_INTERVAL_MS): void {
+    if (this.expirySweepTimer) return;
+
+    this.expirySweepTimer = setInterval(() => {
+      this.finalizeExpiredSessions().catch((error) => {
+        console.error('[QuizSessionService] Expiry sweep failed:', error.message);
+      });
+    }, intervalMs);
+
+    // Don't keep the process alive just for the sweep
+    this.expirySweepTimer.unref();
+  }
+
+  /**
+   * Whether an attempt may reveal its answer key: only the attempt a quiz
+   * session was submitted as (attempts from the legacy submit route have no session)
+   */
+  static isReviewable(
+    attempt: Pick<QuestionSetAttempt, 'attempt_id' | 'session_id' | 'submitted_at'>,
+    session: Pick<QuizSession, 'status' | 'attempt_id'> | null
+  ): boolean {
+    return (
+      !!attempt.submitted_at &&
+      !!attempt.session_id &&
+      session?.status === 'submitted' &&
+      session.attempt_id === attempt.attempt_id
+    );
+  }
+
+  /**
+   * Build per-question review data (answer key, credit and explanations) for a submitted attempt
+   */
+  static buildReview(
+    questionSet: QuestionSet,
+    attempt: QuestionSetAttempt
+  ): Array<
+    Pick<
+      Question,
+      | 'type'
+      | 'question'
+      | 'options'
+      | 'correct_option_index'
+      | 'correct_option_indices'
+      | 'numeric_answer'
+      | 'numeric_tolerance'
+      | 'unit'
+      | 'accepted_answers'
+      | 'match_left'
+      | 'correct_matches'
+      | 'explanation'
+      | 'option_rationales'
+    > & {
+      question_id: string;
+      selected_option_index: number;
+      response?: AnswerValue;
+      is_correct: boolean;
+      credit: number;
+    }
+  > {
+    return questionSet.questions.map((q) => {
+      const answer = attempt.answers.find((a) => a.question_id === q.id);
+
+      return {
+        question_id: q.id,
+        type: GradingService.getQuestionType(q),
+        question: q.question,
+        options: q.options,
+        correct_option_index: q.correct_option_index,
+        ...(q.correct_option_indices && { correct_option_indices: q.correct_option_indices }),
+        ...(q.numeric_answer !== undefined && {
+          numeric_answer: q.numeric_answer,
+          numeric_tolerance: q.numeric_tolerance || 0,
+        }),
+        ...(q.unit && { unit: q.unit }),
+        ...(q.accepted_answers && { accepted_answers: q.accepted_answers }),
+        ...(q.match_left && { match_left: q.match_left, correct_matches: q.correct_matches }),
+        ...(q.explanation && { explanation: q.explanation }),
+        ...(q.option_rationales && { option_rationales: q.option_rationales }),
+        selected_option_index: answer ? answer.selected_option_index : -1,
+        ...(answer?.response !== undefined && { response: answer.response }),
+        is_correct: answer ? answer.is_correct : false,
+        credit: answer ? (answer.credit !== undefined ? answer.credit : answer.is_correct ? 1 : 0) : 0,
+      };
+    });
+  }
+}
@@ -0,0 +1,219 @@
+// src/services/retrievalService.ts
+/**
+ * Retrieval Service - Topic-focused passages from long chapter text
+ *
+ * Extracted PDF text is split into overlapping chunks and indexed with BM25
+ * in memory. Question generation sends the chunks that best match the
+ * chapter and topic (in document order, within a character budget) instead
+ * of the start of the text, so topics late in a multi-chapter PDF are still
+ * grounded in source text. Each chunk is labelled with its id so generated
+ * questions can cite the chunks they were based on.
+ */
+
+import crypto from 'crypto';
+import type { SourceChunk } from '../types/questionSet';
+
+const CHUNK_SIZE = 1200;        // Target characters per chunk
+const CHUNK_OVERLAP = 200;      // Characters shared with the previous chunk
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const INDEX_CACHE_SIZE = 20;    // Indexed texts kept in memory
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be by can do does for from has have how in into is it its of on or ' +
+    'that the their them these they this those to was were what when where which who why will with'
+  ).split(' ')
+);
+
+export interface TextChunk extends SourceChunk {
+  text: string;
+}
+
+export interface ChunkIndex {
+  chunks: TextChunk[];
+  termFrequencies: Map<string, number>[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface RetrievedContext {
+  text: string;                    // Chunks in document order, each headed by its [chunk_id]
+  chunks: TextChunk[];
+  matched: boolean;                // false when nothing matched the query and the leading chunks were used
+}
+
+export class RetrievalService {
+  private static indexCache = new Map<string, ChunkIndex>();
+
+  /**
+   * Lower-case word tokens without stopwords; a plural "s" is dropped
+   */
+  static tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+      .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+      .map((token) => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+  }
+
+  /**
+   * Split text into overlapping chunks, breaking at paragraph, sentence or word boundaries
+   */
+  static chunkText(text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      let end = Math.min(text.length, start + size);
+
+      if (end < text.length) {
+        const window = text.slice(start + Math.floor(size / 2), end);
+        const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf('\n'));
+        const fallback = window.lastIndexOf(' ');
+        const offset = breakAt >= 0 ? breakAt + 1 : fallback;
+        if (offset >= 0) end = start + Math.floor(size / 2) + offset + 1;
+      }
+
+      const chunkText = text.slice(start, end).trim();
+      if (chunkText.length > 0) {
+        chunks.push({ chunk_id: `c${chunks.length}`, start, end, text: chunkText });
+      }
+
+      if (end >= text.length) break;
+
+      // Step back by the overlap, to the start of a word
+      let next = Math.max(start + 1, end - overlap);
+      const space = text.indexOf(' ', next);
+      if (space >= 0 && space < end) next = space + 1;
+      start = next;
+    }
+
+    return chunks;
+  }
+
+  static buildIndex(chunks: TextChunk[]): ChunkIndex {
+    const termFrequencies = chunks.map((chunk) => {
+      const frequencies = new Map<string, number>();
+      this.tokenize(chunk.text).forEach((token) => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+      return frequencies;
+    });
+
+    const documentFrequency = new Map<string, number>();
+    termFrequencies.forEach((frequencies) =>
+      frequencies.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1))
+    );
+
+    const totalLength = termFrequencies.reduce(
+      (sum, frequencies) => sum + Array.from(frequencies.values()).reduce((a, b) => a + b, 0),
+      0
+    );
+
+    return {
+      chunks,
+      termFrequencies,
+      documentFrequency,
+      averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    };
+  }
+
+  /**
+   * Chunk index for a text, cached by content hash
+   */
+  static getIndex(text: string): ChunkIndex {
+    const key = crypto.createHash('sha1').update(text).digest('hex');
+    const cached = this.indexCache.get(key);
+
+    if (cached) {
+      // Move to the back so the least recently used text is evicted first
+      this.indexCache.delete(key);
+      this.indexCache.set(key, cached);
+      return cached;
+    }
+
+    const index = this.buildIndex(this.chunkText(text));
+    this.indexCache.set(key, index);
+    if (this.indexCache.size > INDEX_CACHE_SIZE) {
+      this.indexCache.delete(this.indexCache.keys().next().value!);
+    }
+
+    return index;
+  }
+
+  /**
+   * Chunks matching the query, best BM25 score first (chunks scoring 0 are left out)
+   */
+  static search(index: ChunkIndex, query: string, limit?: number): Array<{ chunk: TextChunk; score: number }> {
+    const terms = Array.from(new Set(this.tokenize(query)));
+    const total = index.chunks.length;
+
+    const results = index.chunks
+      .map((chunk, i) => {
+        const frequencies = index.termFrequencies[i];
+        const length = Array.from(frequencies.values()).reduce((a, b) => a + b, 0);
+
+        const score = terms.reduce((sum, term) => {
+          const tf = frequencies.get(term) || 0;
+          if (tf === 0) return sum;
+
+          const df = index.documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+          const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (index.averageLength || 1));
+          return sum + idf * ((tf * (BM25_K1 + 1)) / norm);
+        }, 0);
+
+        return { chunk, score };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    return limit !== undefined ? results.slice(0, limit) : results;
+  }
+
+  /**
+   * Passages of a text most relevant to the query, within maxChars
+   * Text that fits the budget is sent whole (still chunked for citations)
+   */
+  static retrieveContext(text: string, query: string, maxChars: number): RetrievedContext {
+    const index = this.getIndex(text);
+    let selected: TextChunk[];
+    let matched = true;
+
+    if (text.length <= maxChars) {
+      selected = index.chunks;
+    } else {
+      const ranked = this.search(index, query).map((result) => result.chunk);
+      matched = ranked.length > 0;
+
+      selected = [];
+      let used = 0;
+      for (const chunk of matched ? ranked : index.chunks) {
+        if (used + chunk.text.length > maxChars) {
+          if (selected.length === 0) selected.push({ ...chunk, text: chunk.text.slice(0, maxChars) });
+          break;
+        }
+        selected.push(chunk);
+        used += chunk.text.length;
+      }
+      selected.sort((a, b) => a.start - b.start);
+    }
+
+    return {
+      text: selected.map((chunk) => `[${chunk.chunk_id}]\n${chunk.text}`).join('\n\n'),
+      chunks: selected,
+      matched,
+    };
+  }
+
+  /**
+   * Chunks a generated question is grounded in: the retrieved chunks it cites,
+   * otherwise the retrieved chunk that best matches its text
+   */
+  static groundQuestion(context: TextChunk[], questionText: string, citedChunkIds: string[] = []): SourceChunk[] {
+    const toSource = ({ chunk_id, start, end }: TextChunk): SourceChunk => ({ chunk_id, start, end });
+
+    const cited = context.filter((chunk) => citedChunkIds.includes(chunk.chunk_id));
+    if (cited.length > 0) return cited.map(toSource);
+
+    const [best] = this.search(this.buildIndex(context), questionText, 1);
+    return best ? [toSource(best.chunk)] : [];
+  }
+}
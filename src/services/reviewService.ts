@@ -0,0 +1,396 @@
+// src/services/reviewService.ts
+/**
+ * Review Service - Spaced-repetition review of missed questions
+ *
+ * Every question a student misses in a quiz becomes a review item scheduled
+ * with SM-2. A review quiz is built from the items that are due, across
+ * topics. Grading a review quiz only reschedules the items: it creates no
+ * question set attempt and does not touch skill stats, so topic attempt
+ * statistics are never double-counted.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { AnyBulkWriteOperation } from 'mongodb';
+import { collections } from '../config/database';
+import { AttemptService } from './attemptService';
+import { GradingService } from './gradingService';
+import { QuizSessionService } from './quizSessionService';
+import type { Question, QuestionSet, QuestionSetAttempt } from '../types/questionSet';
+import type {
+  ReviewItem,
+  ReviewSchedule,
+  ReviewSession,
+  ReviewItemResult,
+  GenerateReviewRequest,
+  GenerateReviewResponse,
+  SubmitReviewRequest,
+  SubmitReviewResponse,
+} from '../types/review';
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REVIEW_LIMIT = 10;
+const MAX_REVIEW_LIMIT = 30;
+
+export class ReviewService {
+  /**
+   * Map a graded answer to an SM-2 quality score (0-5)
+   * Response time is not tracked, so a fully correct answer scores 4
+   */
+  static qualityFromCredit(credit: number, answered: boolean): number {
+    if (!answered) return 0;
+    if (credit >= 1) return 4;
+    if (credit >= 0.5) return 3;
+    if (credit > 0) return 2;
+    return 1;
+  }
+
+  /**
+   * SM-2: compute the next schedule from the current one and a quality score
+   * Quality below 3 is a lapse: the item restarts with a 1 day interval
+   */
+  static schedule(current: ReviewSchedule, quality: number, now: Date = new Date()): ReviewSchedule {
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+    let { repetitions, interval_days, lapses } = current;
+
+    if (q < 3) {
+      repetitions = 0;
+      interval_days = 1;
+      lapses += 1;
+    } else {
+      if (repetitions === 0) interval_days = 1;
+      else if (repetitions === 1) interval_days = 6;
+      else interval_days = Math.round(interval_days * current.ease_factor);
+      repetitions += 1;
+    }
+
+    const ease_factor = Math.max(
+      MIN_EASE,
+      parseFloat((current.ease_factor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))).toFixed(2))
+    );
+
+    return {
+      ease_factor,
+      interval_days,
+      repetitions,
+      lapses,
+      due_at: new Date(now.getTime() + interval_days * DAY_MS),
+    };
+  }
+
+  /**
+   * Bulk writes queueing an attempt's missed answers
+   * A question missed again also counts a lapse: a separate update on the
+   * existing item, since one upsert cannot both $inc lapses and insert it at 0
+   */
+  static missedAnswerWrites(
+    attempt: QuestionSetAttempt,
+    now: Date = new Date()
+  ): AnyBulkWriteOperation[] {
+    const dueAt = new Date(now.getTime() + DAY_MS);
+
+    return attempt.answers
+      .filter((a) => !a.is_correct)
+      .flatMap((answer): AnyBulkWriteOperation[] => {
+        const filter = {
+          student_id: attempt.student_id,
+          set_id: attempt.set_id,
+          question_id: answer.question_id,
+        };
+
+        return [
+          { updateOne: { filter, update: { $inc: { lapses: 1 } } } },
+          {
+            updateOne: {
+              filter,
+              update: {
+                $set: {
+                  school_id: attempt.school_id,
+                  class_number: attempt.class_number,
+                  subject: attempt.subject,
+                  chapter: attempt.chapter,
+                  topic: attempt.topic,
+                  interval_days: 1,
+                  repetitions: 0,
+                  due_at: dueAt,
+                  source_attempt_id: attempt.attempt_id,
+                  updated_at: now,
+                },
+                $setOnInsert: {
+                  item_id: `review_${uuidv4().substring(0, 12)}`,
+                  ease_factor: INITIAL_EASE,
+                  lapses: 0,
+                  created_at: now,
+                },
+              },
+              upsert: true,
+            },
+          },
+        ];
+      });
+  }
+
+  /**
+   * Queue (or re-queue) every question missed in an attempt
+   * A question already in the queue restarts its schedule and counts a lapse; ease is kept
+   */
+  static async addIncorrectAnswers(attempt: QuestionSetAttempt): Promise<number> {
+    const itemsCol = collections.review_items();
+    const missed = attempt.answers.filter((a) => !a.is_correct);
+
+    if (missed.length === 0) return 0;
+
+    // Ordered: the lapse lands on existing items before the upsert inserts new ones
+    await itemsCol.bulkWrite(this.missedAnswerWrites(attempt));
+
+    console.log('[ReviewService] Queued missed questions:', {
+      student_id: attempt.student_id,
+      attempt_id: attempt.attempt_id,
+      count: missed.length,
+    });
+
+    return missed.length;
+  }
+
+  /**
+   * Summary of a student's review queue
+   */
+  static async getQueueSummary(
+    studentId: string,
+    subject?: string
+  ): Promise<{
+    total_items: number;
+    due_count: number;
+    next_due_at: Date | null;
+    topics: Array<{ subject: string; topic: string; total: number; due: number }>;
+  }> {
+    const itemsCol = collections.review_items();
+    const now = new Date();
+
+    const match: any = { student_id: studentId };
+    if (subject) match.subject = subject;
+
+    const topics = (await itemsCol
+      .aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { subject: '$subject', topic: '$topic' },
+            total: { $sum: 1 },
+            due: { $sum: { $cond: [{ $lte: ['$due_at', now] }, 1, 0] } },
+            next_due_at: { $min: '$due_at' },
+          },
+        },
+        { $sort: { due: -1, next_due_at: 1 } },
+      ])
+      .toArray()) as any[];
+
+    const nextDue = topics.reduce<Date | null>(
+      (min, t) => (!min || t.next_due_at < min ? t.next_due_at : min),
+      null
+    );
+
+    return {
+      total_items: topics.reduce((sum, t) => sum + t.total, 0),
+      due_count: topics.reduce((sum, t) => sum + t.due, 0),
+      next_due_at: nextDue,
+      topics: topics.map((t) => ({
+        subject: t._id.subject,
+        topic: t._id.topic,
+        total: t.total,
+        due: t.due,
+      })),
+    };
+  }
+
+  /**
+   * Load the questions behind review items, keyed by item_id
+   * Items whose question set or question no longer exists are dropped from the queue
+   */
+  private static async loadItemQuestions(items: ReviewItem[]): Promise<Map<string, Question>> {
+    const setIds = Array.from(new Set(items.map((item) => item.set_id)));
+    const sets = (await collections
+      .question_sets()
+      .find({ set_id: { $in: setIds } })
+      .toArray()) as QuestionSet[];
+
+    const questions = new Map<string, Question>();
+    const stale: string[] = [];
+
+    items.forEach((item) => {
+      const set = sets.find((s) => s.set_id === item.set_id);
+      const question = set?.questions.find((q) => q.id === item.question_id);
+
+      if (question) {
+        questions.set(item.item_id, question);
+      } else {
+        stale.push(item.item_id);
+      }
+    });
+
+    if (stale.length > 0) {
+      await collections.review_items().deleteMany({ item_id: { $in: stale } });
+      console.log('[ReviewService] Removed stale review items:', stale.length);
+    }
+
+    return questions;
+  }
+
+  /**
+   * Build a review quiz from due items across topics (most overdue first)
+   */
+  static async generateReviewQuiz(request: GenerateReviewRequest): Promise<GenerateReviewResponse> {
+    const itemsCol = collections.review_items();
+    const limit = Math.min(Math.max(request.limit || DEFAULT_REVIEW_LIMIT, 1), MAX_REVIEW_LIMIT);
+
+    const query: any = { student_id: request.student_id, due_at: { $lte: new Date() } };
+    if (request.subject) query.subject = request.subject;
+
+    const dueCount = await itemsCol.countDocuments(query);
+    const items = (await itemsCol
+      .find(query)
+      .sort({ due_at: 1 })
+      .limit(limit)
+      .toArray()) as ReviewItem[];
+
+    const itemQuestions = await this.loadItemQuestions(items);
+
+    // Review questions take the item id so questions from different sets never collide
+    const questions: Question[] = items
+      .filter((item) => itemQuestions.has(item.item_id))
+      .map((item) => ({ ...itemQuestions.get(item.item_id)!, id: item.item_id }));
+
+    if (questions.length === 0) {
+      return {
+        session_id: null,
+        questions: [],
+        due_count: 0,
+        message: 'No questions are due for review',
+      };
+    }
+
+    const delivery = QuizSessionService.buildDeliveryOrder(questions);
+    const session: ReviewSession = {
+      session_id: `rsession_${uuidv4().substring(0, 12)}`,
+      student_id: request.student_id,
+      school_id: request.school_id,
+      item_ids: delivery.question_ids,
+      option_orders: delivery.option_orders,
+      status: 'active',
+      created_at: new Date(),
+    };
+
+    await collections.review_sessions().insertOne(session);
+
+    console.log('[ReviewService] Review quiz created:', {
+      session_id: session.session_id,
+      student_id: session.student_id,
+      questions: questions.length,
+      due_count: dueCount,
+    });
+
+    return {
+      session_id: session.session_id,
+      questions: QuizSessionService.toPublicQuestions(questions, {
+        question_ids: session.item_ids,
+        option_orders: session.option_orders,
+      }),
+      due_count: dueCount,
+    };
+  }
+
+  /**
+   * Grade a review quiz and reschedule each item with SM-2
+   * An item reviewed through another session since this one was created is skipped,
+   * so overlapping review quizzes cannot reschedule the same item twice
+   */
+  static async submitReviewQuiz(request: SubmitReviewRequest): Promise<SubmitReviewResponse> {
+    const sessionsCol = collections.review_sessions();
+    const itemsCol = collections.review_items();
+
+    const session = (await sessionsCol.findOneAndUpdate(
+      { session_id: request.session_id, student_id: request.student_id, status: 'active' },
+      { $set: { status: 'submitted', submitted_at: new Date() } },
+      { returnDocument: 'after' }
+    )) as ReviewSession | null;
+
+    if (!session) {
+      const existing = await sessionsCol.findOne({ session_id: request.session_id });
+      if (!existing || existing.student_id !== request.student_id) {
+        throw { status: 404, detail: 'Review session not found' };
+      }
+      throw { status: 409, detail: 'Review session already submitted' };
+    }
+
+    try {
+      const items = (await itemsCol
+        .find({ item_id: { $in: session.item_ids } })
+        .toArray()) as ReviewItem[];
+      const itemQuestions = await this.loadItemQuestions(items);
+      const now = new Date();
+      const results: ReviewItemResult[] = [];
+
+      for (const itemId of session.item_ids) {
+        const item = items.find((i) => i.item_id === itemId);
+        const question = itemQuestions.get(itemId);
+        if (!item || !question) continue;
+
+        const answer = request.answers.find((a) => a.question_id === itemId);
+        const rawResponse = answer ? GradingService.getResponse(answer) : undefined;
+        const response = AttemptService.toCanonicalResponse(
+          question,
+          rawResponse,
+          session.option_orders[itemId]
+        );
+        const grade = GradingService.gradeResponse(question, response);
+        const quality = this.qualityFromCredit(grade.credit, response !== undefined);
+        const next = this.schedule(item, quality, now);
+
+        const updated = await itemsCol.updateOne(
+          {
+            item_id: itemId,
+            $or: [
+              { last_reviewed_at: { $exists: false } },
+              { last_reviewed_at: { $lt: session.created_at } },
+            ],
+          },
+          { $set: { ...next, last_reviewed_at: now, last_quality: quality, updated_at: now } }
+        );
+
+        results.push({
+          item_id: itemId,
+          topic: item.topic,
+          is_correct: grade.is_correct,
+          credit: grade.credit,
+          ...(response !== undefined && { response }),
+          quality,
+          next_due_at: updated.modifiedCount === 1 ? next.due_at : item.due_at,
+          interval_days: updated.modifiedCount === 1 ? next.interval_days : item.interval_days,
+          ...(question.explanation && { explanation: question.explanation }),
+        });
+      }
+
+      console.log('[ReviewService] Review quiz graded:', {
+        session_id: session.session_id,
+        correct: results.filter((r) => r.is_correct).length,
+        total: results.length,
+      });
+
+      return {
+        session_id: session.session_id,
+        correct_count: results.filter((r) => r.is_correct).length,
+        total_questions: results.length,
+        results,
+      };
+    } catch (error) {
+      // Re-open so the student can retry; already rescheduled items are protected by last_reviewed_at
+      await sessionsCol.updateOne(
+        { session_id: session.session_id },
+        { $set: { status: 'active' }, $unset: { submitted_at: '' } }
+      );
+      throw error;
+    }
+  }
+}
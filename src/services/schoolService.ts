@@ -6,6 +6,7 @@
 import { collections } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
+import { CurriculumService } from './curriculumService';
 
 interface SchoolStats {
   total_schools: number;
@@ -22,6 +23,7 @@ interface CreateSchoolData {
   address?: string;
   subscription_tier?: 'basic' | 'professional' | 'enterprise';
   student_limit?: number;
+  board?: string;
 }
 
 interface UpdateSchoolData {
@@ -31,6 +33,7 @@ interface UpdateSchoolData {
   address?: string;
   subscription_tier?: 'basic' | 'professional' | 'enterprise';
   student_limit?: number;
+  board?: string;
   subscription_status?: string;
   status?: string;
 }
@@ -43,6 +46,7 @@ interface School {
   contact_email: string;
   contact_phone: string | null;
   address: string | null;
+  board: string;
   subscription_tier: string;
   subscription_status: string;
   status: string;
@@ -129,6 +133,7 @@ export class SchoolService {
       contact_email: schoolData.contact_email,
       contact_phone: schoolData.contact_phone || null,
       address: schoolData.address || null,
+      board: CurriculumService.normalizeBoard(schoolData.board),
       subscription_tier: schoolData.subscription_tier || 'basic',
       subscription_status: 'trial',
       status: 'active',
@@ -200,7 +205,11 @@ export class SchoolService {
       throw new Error('School not found');
     }
 
-    const updates = { ...updateData, updated_at: new Date() };
+    const updates = {
+      ...updateData,
+      ...(updateData.board !== undefined && { board: CurriculumService.normalizeBoard(updateData.board) }),
+      updated_at: new Date(),
+    };
     await schoolsCol.updateOne({ school_id: schoolId }, { $set: updates });
 
     return {
@@ -50,10 +50,9 @@ export class SkillStatsService {
         const skillData = skillMap.get(skillName)!;
         skillData.questionsAnswered++;
 
-        // If answer is correct, add to score (normalized 0-1)
-        if (answer.is_correct) {
-          skillData.totalScore += 1;
-        }
+        // Add the answer's credit (0-1, partial credit for multi-part questions)
+        skillData.totalScore +=
+          answer.credit !== undefined ? answer.credit : answer.is_correct ? 1 : 0;
       });
     });
 
@@ -5,6 +5,7 @@
 
 import { collections } from '../config/database';
 import { LLMService } from './llmService';
+import { CurriculumService } from './curriculumService';
 import { StudyPlan, StudyPlanRequest, QuizAttempt } from '../types/quiz';
 
 export class StudyPlanService {
@@ -81,7 +82,8 @@ export class StudyPlanService {
     }
 
     // 4. Generate study plan using LLM
-    const plan = await LLMService.generateStudyPlan(student_id, subjectFeatureMeans);
+    const board = await CurriculumService.boardForSchool(school_id);
+    const plan = await LLMService.generateStudyPlan(student_id, subjectFeatureMeans, board);
 
     // 5. Calculate week start (Monday of current week)
     const week_start = this.getWeekStart(now);
@@ -0,0 +1,433 @@
+// src/services/syllabusEditService.ts
+/**
+ * Syllabus Edit Service - Manual curation of parsed syllabi
+ *
+ * Admins fix what the AI parse got wrong: chapters and topics can be
+ * created, renamed, reordered, merged, split and deleted. Every edited entry
+ * is locked, and a later re-parse keeps locked chapters (with their topics)
+ * and locked topics instead of replacing them (see mergeReparsedChapters).
+ *
+ * The edit operations are pure functions over the chapter list; applyEdit
+ * loads a syllabus, applies one and saves it as a new version, guarded by
+ * updatedAt so concurrent edits do not overwrite each other.
+ */
+
+import { ObjectId } from 'mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { collections } from '../config/database';
+import { CurriculumService } from './curriculumService';
+import type { Chapter, Topic, SyllabusDocument } from '../types/syllabus';
+
+const nameKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export class SyllabusEditService {
+  static newChapterId(): string {
+    return `ch_${uuidv4().substring(0, 8)}`;
+  }
+
+  static newTopicId(): string {
+    return `t_${uuidv4().substring(0, 8)}`;
+  }
+
+  private static requireName(name: unknown, field: string): string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw { status: 400, detail: `${field} is required` };
+    }
+    if (name.trim().length > 200) {
+      throw { status: 400, detail: `${field} must be at most 200 characters` };
+    }
+    return name.trim().replace(/\s+/g, ' ');
+  }
+
+  private static findChapterIndex(chapters: Chapter[], chapterId: string): number {
+    const index = chapters.findIndex((chapter) => chapter.chapterId === chapterId);
+    if (index < 0) throw { status: 404, detail: `Chapter ${chapterId} not found` };
+    return index;
+  }
+
+  private static assertUniqueChapterName(chapters: Chapter[], name: string, exceptId?: string): void {
+    if (chapters.some((chapter) => chapter.chapterId !== exceptId && nameKey(chapter.chapterName) === nameKey(name))) {
+      throw { status: 409, detail: `A chapter named "${name}" already exists` };
+    }
+  }
+
+  private static assertUniqueTopicName(topics: Topic[], name: string, exceptId?: string): void {
+    if (topics.some((topic) => topic.topicId !== exceptId && nameKey(topic.topicName) === nameKey(name))) {
+      throw { status: 409, detail: `A topic named "${name}" already exists in this chapter` };
+    }
+  }
+
+  /**
+   * ids must list every entry exactly once
+   */
+  private static reorder<T>(items: T[], ids: unknown, idOf: (item: T) => string, what: string): T[] {
+    if (!Array.isArray(ids) || ids.length !== items.length || new Set(ids).size !== ids.length) {
+      throw { status: 400, detail: `${what} must list every ${what.replace(/Ids$/, '')} id exactly once` };
+    }
+
+    const byId = new Map(items.map((item) => [idOf(item), item]));
+    return ids.map((id) => {
+      const item = byId.get(id);
+      if (!item) throw { status: 400, detail: `Unknown id in ${what}: ${id}` };
+      return item;
+    });
+  }
+
+  private static insertAt<T>(items: T[], item: T, position?: number): T[] {
+    const index = position === undefined ? items.length : Math.max(0, Math.min(items.length, Math.floor(position)));
+    return [...items.slice(0, index), item, ...items.slice(index)];
+  }
+
+  // ==========================================================================
+  // Chapter operations
+  // ==========================================================================
+
+  static createChapter(
+    chapters: Chapter[],
+    input: { chapterName: unknown; topics?: unknown; position?: number }
+  ): Chapter[] {
+    const chapterName = this.requireName(input.chapterName, 'chapterName');
+    this.assertUniqueChapterName(chapters, chapterName);
+
+    if (input.topics !== undefined && !Array.isArray(input.topics)) {
+      throw { status: 400, detail: 'topics must be an array of topic names' };
+    }
+
+    const topics: Topic[] = [];
+    ((input.topics as unknown[]) || []).forEach((name) => {
+      const topicName = this.requireName(name, 'topic name');
+      this.assertUniqueTopicName(topics, topicName);
+      topics.push({ topicId: this.newTopicId(), topicName, source: 'manual', locked: true });
+    });
+
+    const chapter: Chapter = {
+      chapterId: this.newChapterId(),
+      chapterName,
+      topics,
+      source: 'manual',
+      locked: true,
+    };
+
+    return this.insertAt(chapters, chapter, input.position);
+  }
+
+  /**
+   * Rename and/or lock or unlock a chapter (renaming locks it)
+   */
+  static updateChapter(chapters: Chapter[], chapterId: string, input: { chapterName?: unknown; locked?: unknown }): Chapter[] {
+    const index = this.findChapterIndex(chapters, chapterId);
+    const chapter = { ...chapters[index] };
+
+    if (input.chapterName !== undefined) {
+      chapter.chapterName = this.requireName(input.chapterName, 'chapterName');
+      this.assertUniqueChapterName(chapters, chapter.chapterName, chapterId);
+      chapter.locked = true;
+    }
+    if (input.locked !== undefined) {
+      if (typeof input.locked !== 'boolean') throw { status: 400, detail: 'locked must be a boolean' };
+      chapter.locked = input.locked;
+    }
+
+    return chapters.map((c, i) => (i === index ? chapter : c));
+  }
+
+  static deleteChapter(chapters: Chapter[], chapterId: string): Chapter[] {
+    const index = this.findChapterIndex(chapters, chapterId);
+    return chapters.filter((_, i) => i !== index);
+  }
+
+  static reorderChapters(chapters: Chapter[], chapterIds: unknown): Chapter[] {
+    return this.reorder(chapters, chapterIds, (chapter) => chapter.chapterId, 'chapterIds');
+  }
+
+  /**
+   * Merge chapters into the first one listed, at its position
+   * Topics are concatenated in the listed order; same-named topics are kept once
+   */
+  static mergeChapters(chapters: Chapter[], chapterIds: unknown, chapterName?: unknown): Chapter[] {
+    if (!Array.isArray(chapterIds) || chapterIds.length < 2 || new Set(chapterIds).size !== chapterIds.length) {
+      throw { status: 400, detail: 'chapterIds must list at least two different chapters' };
+    }
+
+    const merging = chapterIds.map((id) => chapters[this.findChapterIndex(chapters, id)]);
+    const [target] = merging;
+
+    const topics: Topic[] = [];
+    merging.forEach((chapter) =>
+      chapter.topics.forEach((topic) => {
+        if (!topics.some((t) => nameKey(t.topicName) === nameKey(topic.topicName))) {
+          const clash = topics.some((t) => t.topicId === topic.topicId);
+          topics.push(clash ? { ...topic, topicId: this.newTopicId() } : topic);
+        }
+      })
+    );
+
+    const merged: Chapter = {
+      chapterId: target.chapterId,
+      chapterName: chapterName !== undefined ? this.requireName(chapterName, 'chapterName') : target.chapterName,
+      topics,
+      source: merging.some((chapter) => chapter.source === 'manual') ? 'manual' : target.source,
+      locked: true,
+    };
+
+    const rest = chapters.filter((chapter) => !merging.includes(chapter));
+    this.assertUniqueChapterName(rest, merged.chapterName);
+
+    return chapters
+      .filter((chapter) => chapter === target || !merging.includes(chapter))
+      .map((chapter) => (chapter === target ? merged : chapter));
+  }
+
+  /**
+   * Split a chapter before one of its topics; that topic and the ones after it
+   * move to a new chapter placed right after
+   */
+  static splitChapter(chapters: Chapter[], chapterId: string, atTopicId: unknown, newChapterName: unknown): Chapter[] {
+    const index = this.findChapterIndex(chapters, chapterId);
+    const chapter = chapters[index];
+
+    const splitAt = chapter.topics.findIndex((topic) => topic.topicId === atTopicId);
+    if (splitAt < 0) throw { status: 404, detail: `Topic ${atTopicId} not found in chapter ${chapterId}` };
+    if (splitAt === 0) throw { status: 400, detail: 'Cannot split before the first topic' };
+
+    const chapterName = this.requireName(newChapterName, 'newChapterName');
+    this.assertUniqueChapterName(chapters, chapterName);
+
+    const first: Chapter = { ...chapter, topics: chapter.topics.slice(0, splitAt), locked: true };
+    const second: Chapter = {
+      chapterId: this.newChapterId(),
+      chapterName,
+      topics: chapter.topics.slice(splitAt),
+      source: 'manual',
+      locked: true,
+    };
+
+    return [...chapters.slice(0, index), first, second, ...chapters.slice(index + 1)];
+  }
+
+  // ==========================================================================
+  // Topic operations
+  // ==========================================================================
+
+  private static updateTopics(chapters: Chapter[], chapterId: string, update: (topics: Topic[]) => Topic[]): Chapter[] {
+    const index = this.findChapterIndex(chapters, chapterId);
+    return chapters.map((chapter, i) => (i === index ? { ...chapter, topics: update(chapter.topics) } : chapter));
+  }
+
+  private static findTopicIndex(topics: Topic[], topicId: string): number {
+    const index = topics.findIndex((topic) => topic.topicId === topicId);
+    if (index < 0) throw { status: 404, detail: `Topic ${topicId} not found` };
+    return index;
+  }
+
+  static addTopic(chapters: Chapter[], chapterId: string, input: { topicName: unknown; position?: number }): Chapter[] {
+    return this.updateTopics(chapters, chapterId, (topics) => {
+      const topicName = this.requireName(input.topicName, 'topicName');
+      this.assertUniqueTopicName(topics, topicName);
+      return this.insertAt(topics, { topicId: this.newTopicId(), topicName, source: 'manual', locked: true }, input.position);
+    });
+  }
+
+  /**
+   * Rename and/or lock or unlock a topic (renaming locks it)
+   */
+  static updateTopic(
+    chapters: Chapter[],
+    chapterId: string,
+    topicId: string,
+    input: { topicName?: unknown; locked?: unknown }
+  ): Chapter[] {
+    return this.updateTopics(chapters, chapterId, (topics) => {
+      const index = this.findTopicIndex(topics, topicId);
+      const topic = { ...topics[index] };
+
+      if (input.topicName !== undefined) {
+        topic.topicName = this.requireName(input.topicName, 'topicName');
+        this.assertUniqueTopicName(topics, topic.topicName, topicId);
+        topic.locked = true;
+      }
+      if (input.locked !== undefined) {
+        if (typeof input.locked !== 'boolean') throw { status: 400, detail: 'locked must be a boolean' };
+        topic.locked = input.locked;
+      }
+
+      return topics.map((t, i) => (i === index ? topic : t));
+    });
+  }
+
+  static deleteTopic(chapters: Chapter[], chapterId: string, topicId: string): Chapter[] {
+    return this.updateTopics(chapters, chapterId, (topics) => {
+      const index = this.findTopicIndex(topics, topicId);
+      return topics.filter((_, i) => i !== index);
+    });
+  }
+
+  static reorderTopics(chapters: Chapter[], chapterId: string, topicIds: unknown): Chapter[] {
+    return this.updateTopics(chapters, chapterId, (topics) =>
+      this.reorder(topics, topicIds, (topic) => topic.topicId, 'topicIds')
+    );
+  }
+
+  // ==========================================================================
+  // Re-parse
+  // ==========================================================================
+
+  /**
+   * Chapters after a re-parse: the parsed chapters, except that
+   * - a locked chapter replaces the parsed chapter with the same name, or is
+   *   kept at its old position when the parse no longer has it
+   * - locked topics of unlocked chapters are kept in the parsed chapter with
+   *   the same name (replacing a same-named parsed topic), or in a chapter of
+   *   their own when the parse no longer has that chapter
+   * Ids of parsed entries that clash with kept ones are replaced.
+   */
+  static mergeReparsedChapters(existing: Chapter[], parsed: Chapter[]): Chapter[] {
+    const keptIds = new Set(existing.filter((chapter) => chapter.locked).map((chapter) => chapter.chapterId));
+    let result: Chapter[] = parsed.map((chapter) => ({
+      ...chapter,
+      chapterId: keptIds.has(chapter.chapterId) ? this.newChapterId() : chapter.chapterId,
+      source: 'ai',
+    }));
+
+    existing.forEach((old, oldIndex) => {
+      const match = result.findIndex((chapter) => nameKey(chapter.chapterName) === nameKey(old.chapterName));
+      const lockedTopics = old.topics.filter((topic) => topic.locked);
+
+      if (old.locked) {
+        if (match >= 0) result[match] = old;
+        else result = this.insertAt(result, old, oldIndex);
+        return;
+      }
+      if (lockedTopics.length === 0) return;
+
+      if (match < 0) {
+        result = this.insertAt(result, { ...old, topics: lockedTopics }, oldIndex);
+        return;
+      }
+
+      const topics = [...result[match].topics];
+      lockedTopics.forEach((locked) => {
+        const same = topics.findIndex((topic) => nameKey(topic.topicName) === nameKey(locked.topicName));
+        if (same >= 0) {
+          topics[same] = locked;
+        } else {
+          const clash = topics.findIndex((topic) => topic.topicId === locked.topicId);
+          if (clash >= 0) topics[clash] = { ...topics[clash], topicId: this.newTopicId() };
+          topics.push(locked);
+        }
+      });
+      result[match] = { ...result[match], topics };
+    });
+
+    return result;
+  }
+
+  // ==========================================================================
+  // Persistence
+  // ==========================================================================
+
+  static async getSyllabus(syllabusId: string): Promise<SyllabusDocument> {
+    if (!ObjectId.isValid(syllabusId)) throw { status: 400, detail: 'Invalid syllabusId' };
+
+    const syllabus = await collections.syllabi().findOne({ _id: new ObjectId(syllabusId) });
+    if (!syllabus) throw { status: 404, detail: 'Syllabus not found' };
+
+    return syllabus as unknown as SyllabusDocument;
+  }
+
+  /**
+   * Check an admin may use a syllabus: super admins any, school admins only
+   * their own school's override (and read, but not change, board syllabi)
+   */
+  static assertAccess(
+    syllabus: Pick<SyllabusDocument, 'schoolId'>,
+    user: { role: string; schoolId?: string } | undefined,
+    access: 'read' | 'write'
+  ): void {
+    if (user?.role === 'super_admin') return;
+
+    if (syllabus.schoolId) {
+      if (user?.schoolId && syllabus.schoolId === user.schoolId) return;
+      throw { status: 403, detail: 'Forbidden: this syllabus belongs to another school' };
+    }
+    if (access === 'write') {
+      throw { status: 403, detail: 'Forbidden: only super admins can change board syllabi' };
+    }
+  }
+
+  /**
+   * Create a syllabus by hand (no source document)
+   */
+  static async createSyllabus(input: {
+    classLabel?: unknown;
+    classNumber: unknown;
+    subjectName: unknown;
+    board?: unknown;
+    schoolId?: unknown;
+  }): Promise<SyllabusDocument> {
+    const classNumber = input.classNumber;
+    if (typeof classNumber !== 'number' || !Number.isInteger(classNumber) || classNumber < 1 || classNumber > 12) {
+      throw { status: 400, detail: 'classNumber must be an integer between 1 and 12' };
+    }
+    const subjectName = this.requireName(input.subjectName, 'subjectName').toLowerCase();
+    const classLabel =
+      input.classLabel !== undefined ? this.requireName(input.classLabel, 'classLabel') : `Class ${classNumber}`;
+
+    const schoolId = input.schoolId !== undefined ? this.requireName(input.schoolId, 'schoolId') : undefined;
+    const curriculum = {
+      board: schoolId ? await CurriculumService.boardForSchool(schoolId) : CurriculumService.normalizeBoard(input.board),
+      ...(schoolId && { schoolId }),
+    };
+
+    const syllabusCol = collections.syllabi();
+    if (await syllabusCol.findOne({ classNumber, subjectName, ...CurriculumService.syllabusFilter(curriculum) })) {
+      const owner = schoolId ? `school ${schoolId}` : curriculum.board;
+      throw { status: 409, detail: `A ${owner} syllabus for Class ${classNumber} ${subjectName} already exists` };
+    }
+
+    const now = new Date();
+    const syllabus: SyllabusDocument = {
+      classLabel,
+      classNumber,
+      subjectName,
+      board: curriculum.board,
+      ...(schoolId && { schoolId }),
+      chapters: [],
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const result = await syllabusCol.insertOne({ ...syllabus });
+
+    console.log('[SyllabusEditService] Created syllabus:', { classNumber, subjectName, ...curriculum });
+    return { ...syllabus, _id: result.insertedId };
+  }
+
+  /**
+   * Apply an edit to a syllabus's chapters and save it
+   * Returns the saved syllabus and the chapters it had before the edit
+   */
+  static async applyEdit(
+    syllabusId: string,
+    edit: (chapters: Chapter[]) => Chapter[]
+  ): Promise<{ syllabus: SyllabusDocument; previousChapters: Chapter[] }> {
+    const syllabus = await this.getSyllabus(syllabusId);
+    const chapters = edit(syllabus.chapters || []);
+    const updatedAt = new Date();
+    const version = (syllabus.version || 0) + 1;
+
+    const result = await collections.syllabi().updateOne(
+      { _id: syllabus._id, updatedAt: syllabus.updatedAt },
+      { $set: { chapters, updatedAt, version } }
+    );
+    if (result.matchedCount === 0) {
+      throw { status: 409, detail: 'Syllabus was changed by someone else; reload it and try again' };
+    }
+
+    console.log('[SyllabusEditService] Syllabus edited:', { syllabusId, version, chapters: chapters.length });
+    return {
+      syllabus: { ...syllabus, chapters, updatedAt, version },
+      previousChapters: syllabus.chapters || [],
+    };
+  }
+}
@@ -1,25 +1,219 @@
 // src/services/syllabusService.ts
 /**
  * Syllabus Service - AI-powered syllabus parsing and management
+ *
+ * A source PDF may hold several chapters. At upload each parsed chapter is
+ * located in the extracted text by its heading, its text range (offsets and
+ * pages) is recorded on the syllabus, and its text is stored in
+ * chapter_contents so generation only sees the requested chapter.
+ * Re-parsing keeps chapters and topics an admin has locked (see
+ * SyllabusEditService) and the ids of chapters and topics it finds again; each
+ * parse is recorded as a syllabus version (see SyllabusVersionService).
+ * Syllabi are kept per curriculum: a board, or one school's override of it
+ * (see CurriculumService).
  */
 
 import { collections } from '../config/database';
-import { PDFService } from './pdfService';
+import { DocumentTextService } from './documentTextService';
 import { OpenAIService } from './openaiService';
-import { SyllabusDocument } from '../types/syllabus';
-import { getPdfPath } from '../utils/pathUtils';
+import { SyllabusEditService } from './syllabusEditService';
+import { SyllabusVersionService } from './syllabusVersionService';
+import { CurriculumService } from './curriculumService';
+import { SyllabusDocument, Chapter, ChapterTextRange, ChapterContent, Curriculum } from '../types/syllabus';
+
+const TOC_WINDOW = 400;   // Chapter names this close together are a table of contents, not headings
 
 export class SyllabusService {
+  /**
+   * Offsets of every case-insensitive occurrence of a chapter name
+   */
+  private static findOccurrences(text: string, chapterName: string): number[] {
+    const words = chapterName.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    const pattern = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+    const regex = new RegExp(`(^|[^a-z0-9])(${pattern})(?![a-z0-9])`, 'gi');
+
+    const offsets: number[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text))) {
+      offsets.push(match.index + match[1].length);
+    }
+    return offsets;
+  }
+
+  /**
+   * Locate each chapter's heading in the PDF text and derive its text range
+   *
+   * Chapters are expected in syllabus order. An occurrence is skipped when the
+   * previous chapter's name comes just before it or the next chapter's name
+   * just after it (within TOC_WINDOW characters, as in a contents listing), and occurrences at the start of a line are preferred. Chapters
+   * that cannot be located get no range; the chapter before them runs on to
+   * the next located heading.
+   */
+  static segmentChapters(
+    text: string,
+    chapters: Array<Pick<Chapter, 'chapterName'>>,
+    pageOffsets: number[] = [0]
+  ): Array<ChapterTextRange | null> {
+    const occurrences = chapters.map((chapter) => this.findOccurrences(text, chapter.chapterName));
+
+    const isListing = (i: number, offset: number) =>
+      (i > 0 && occurrences[i - 1].some((o) => o < offset && offset - o <= TOC_WINDOW)) ||
+      (i + 1 < chapters.length && occurrences[i + 1].some((o) => o > offset && o - offset <= TOC_WINDOW));
+    const atLineStart = (offset: number) => {
+      const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+      return /^[ \t]*(chapter\s+\d+[\s.:-]*)?$/i.test(text.slice(lineStart, offset));
+    };
+
+    const starts: Array<number | null> = [];
+    let previous = -1;
+    chapters.forEach((_, i) => {
+      const candidates = occurrences[i].filter((offset) => offset > previous && !isListing(i, offset));
+      const start = candidates.find(atLineStart) ?? candidates[0] ?? null;
+      starts.push(start);
+      if (start !== null) previous = start;
+    });
+
+    const pageAt = (offset: number) => {
+      let page = 0;
+      while (page + 1 < pageOffsets.length && pageOffsets[page + 1] <= offset) page++;
+      return page + 1;
+    };
+
+    return starts.map((start, i) => {
+      if (start === null) return null;
+
+      const next = starts.slice(i + 1).find((s): s is number => s !== null);
+      const end = next ?? text.length;
+      return { start, end, startPage: pageAt(start), endPage: pageAt(Math.max(start, end - 1)) };
+    });
+  }
+
+  /**
+   * Replace the stored chapter texts for a syllabus with those cut from its source PDF
+   */
+  private static async saveChapterContents(
+    syllabus: Pick<SyllabusDocument, 'classNumber' | 'subjectName' | 'chapters' | 'board' | 'schoolId'>,
+    sourcePdfId: string,
+    text: string
+  ): Promise<void> {
+    const contentsCol = collections.chapter_contents();
+    const curriculum = CurriculumService.ofSyllabus(syllabus);
+    const now = new Date();
+
+    const contents: ChapterContent[] = syllabus.chapters
+      .filter((chapter) => chapter.textRange)
+      .map((chapter) => ({
+        classNumber: syllabus.classNumber,
+        subjectName: syllabus.subjectName,
+        board: curriculum.board,
+        ...(curriculum.schoolId && { schoolId: curriculum.schoolId }),
+        chapterId: chapter.chapterId,
+        chapterName: chapter.chapterName,
+        chapterKey: chapter.chapterName.trim().toLowerCase(),
+        sourcePdfId,
+        textRange: chapter.textRange!,
+        text: text.slice(chapter.textRange!.start, chapter.textRange!.end),
+        createdAt: now,
+      }));
+
+    await contentsCol.deleteMany({
+      classNumber: syllabus.classNumber,
+      subjectName: syllabus.subjectName,
+      ...CurriculumService.syllabusFilter(curriculum),
+    });
+    if (contents.length > 0) {
+      await contentsCol.insertMany(contents);
+    }
+
+    console.log('[SyllabusService] Saved chapter contents:', {
+      located: contents.length,
+      chapters: syllabus.chapters.length,
+    });
+  }
+
+  /**
+   * Chapters with their text ranges (re)computed against a source text
+   */
+  private static locateChapters(chapters: Chapter[], text: string, pageOffsets: number[]): Chapter[] {
+    const ranges = this.segmentChapters(text, chapters, pageOffsets);
+    return chapters.map(({ textRange, ...chapter }, i) => ({
+      ...chapter,
+      ...(ranges[i] && { textRange: ranges[i]! }),
+    }));
+  }
+
+  /**
+   * Re-cut chapter texts after a syllabus's chapters were edited
+   * The text ranges are only saved if nobody edited the syllabus meanwhile.
+   */
+  static async refreshChapterContents(syllabus: SyllabusDocument): Promise<SyllabusDocument> {
+    if (!syllabus.sourcePdfId) return syllabus;
+
+    const { text, pageOffsets } = await DocumentTextService.getText(syllabus.sourcePdfId);
+    const chapters = this.locateChapters(syllabus.chapters, text, pageOffsets);
+
+    const result = await collections.syllabi().updateOne(
+      { _id: syllabus._id, updatedAt: syllabus.updatedAt },
+      { $set: { chapters } }
+    );
+    if (result.matchedCount === 0) return syllabus;
+
+    const refreshed = { ...syllabus, chapters };
+    await this.saveChapterContents(refreshed, syllabus.sourcePdfId, text);
+    return refreshed;
+  }
+
+  /**
+   * Check an admin may parse an uploaded document: super admins any, school
+   * admins only their own school's uploads (not board documents)
+   */
+  static assertDocumentAccess(
+    doc: { school_id?: string | null },
+    user: { role: string; schoolId?: string } | undefined
+  ): void {
+    if (user?.role === 'super_admin') return;
+    if (user?.schoolId && doc.school_id === user.schoolId) return;
+    throw { status: 403, detail: 'Forbidden: this document belongs to another school' };
+  }
+
+  /**
+   * Check an uploaded document exists and the admin may parse it
+   */
+  static async checkDocumentAccess(
+    documentId: string,
+    user: { role: string; schoolId?: string } | undefined
+  ): Promise<void> {
+    const doc = await collections.chapters().findOne<{ school_id?: string | null }>({ documentId });
+    if (!doc) {
+      throw { status: 404, detail: 'Document not found' };
+    }
+
+    this.assertDocumentAccess(doc, user);
+  }
+
   /**
    * Upload PDF and parse with AI
+   * The syllabus belongs to the given board (default board if omitted), or is
+   * a school's override when schoolId is given (on the school's board)
    */
   static async uploadAndParseSyllabus(
     pdfDocumentId: string,
     classHint?: string,
-    subjectHint?: string
+    subjectHint?: string,
+    parsedBy?: string,
+    target: { board?: string; schoolId?: string } = {}
   ): Promise<SyllabusDocument> {
     console.log('[SyllabusService] Parsing syllabus for document:', pdfDocumentId);
 
+    const curriculum: Curriculum = {
+      board: target.schoolId
+        ? await CurriculumService.boardForSchool(target.schoolId)
+        : CurriculumService.normalizeBoard(target.board),
+      ...(target.schoolId && { schoolId: target.schoolId }),
+    };
+
     // 1. Get PDF metadata from chapters collection
     const pdfDoc = await collections.chapters().findOne({ documentId: pdfDocumentId });
     if (!pdfDoc) {
@@ -29,13 +223,11 @@ export class SyllabusService {
     console.log('[SyllabusService] PDF metadata:', {
       class_id: pdfDoc.class_id,
       subject_id: pdfDoc.subject_id,
-      filename: pdfDoc.stored_filename,
+      storage_key: pdfDoc.storage_key || pdfDoc.stored_filename,
     });
 
-    // 2. Extract text from PDF using ABSOLUTE path
-    const pdfPath = getPdfPath(pdfDoc.stored_filename);
-    console.log('[SyllabusService] Using absolute PDF path:', pdfPath);
-    const pdfText = await PDFService.extractTextFromPDF(pdfPath);
+    // 2. Extract text from PDF (cached per document)
+    const { text: pdfText, pageOffsets } = await DocumentTextService.getText(pdfDocumentId);
 
     console.log('[SyllabusService] Extracted', pdfText.length, 'characters of text');
 
@@ -48,7 +240,8 @@ export class SyllabusService {
     const parsed = await OpenAIService.parseSyllabusFromText(
       pdfText,
       classHint || pdfDoc.class_id,
-      subjectHint || pdfDoc.subject_id
+      subjectHint || pdfDoc.subject_id,
+      curriculum.board
     );
 
     console.log('[SyllabusService] AI parsed result:', {
@@ -58,23 +251,36 @@ export class SyllabusService {
       chapterCount: parsed.chapters.length,
     });
 
-    // 4. Check if syllabus already exists for this class+subject
+    // 4. Check if syllabus already exists for this class+subject in this curriculum
     const syllabusCol = collections.syllabi();
     const existing = await syllabusCol.findOne({
       classNumber: parsed.classNumber,
       subjectName: parsed.subjectName.toLowerCase(),
+      ...CurriculumService.syllabusFilter(curriculum),
     });
 
+    // 4b. Keep locked (admin-curated) chapters and topics and known ids, then locate each chapter in the text
+    const previousChapters: Chapter[] = existing?.chapters || [];
+    const merged = SyllabusVersionService.assignStableIds(
+      previousChapters,
+      SyllabusEditService.mergeReparsedChapters(previousChapters, parsed.chapters)
+    );
+    const chapters = this.locateChapters(merged, pdfText, pageOffsets);
+
     const syllabusDoc: Partial<SyllabusDocument> = {
       classLabel: parsed.classLabel,
       classNumber: parsed.classNumber,
       subjectName: parsed.subjectName.toLowerCase(),
-      chapters: parsed.chapters,
+      board: curriculum.board,
+      ...(curriculum.schoolId && { schoolId: curriculum.schoolId }),
+      chapters,
       sourcePdfId: pdfDocumentId,
+      version: (existing?.version || 0) + 1,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
+    let saved: SyllabusDocument;
     if (existing) {
       // Update existing
       await syllabusCol.updateOne(
@@ -86,30 +292,60 @@ export class SyllabusService {
           },
         }
       );
-      return { ...syllabusDoc, _id: existing._id } as SyllabusDocument;
+      saved = { ...syllabusDoc, _id: existing._id } as SyllabusDocument;
     } else {
       // Insert new
       const result = await syllabusCol.insertOne(syllabusDoc);
-      return { ...syllabusDoc, _id: result.insertedId } as SyllabusDocument;
+      saved = { ...syllabusDoc, _id: result.insertedId } as SyllabusDocument;
     }
+
+    // 5. Record the change; question sets follow renamed topics once an admin migrates it
+    await SyllabusVersionService.recordVersion(saved, previousChapters, 'parse', parsedBy);
+
+    // 6. Cut chapter contents only once the syllabus they belong to is saved
+    await this.saveChapterContents(saved, pdfDocumentId, pdfText);
+    return saved;
+  }
+
+  /**
+   * Stable ids of a chapter and topic, by name, for question sets to reference
+   */
+  static async findTopicIds(
+    classNumber: number,
+    subjectName: string,
+    chapterName: string,
+    topicName: string,
+    curriculum: Curriculum
+  ): Promise<{ chapter_id: string; topic_id: string } | null> {
+    const syllabus = await collections.syllabi().findOne({
+      classNumber,
+      subjectName: subjectName.toLowerCase(),
+      ...CurriculumService.syllabusFilter(curriculum),
+    });
+
+    const chapter = (syllabus?.chapters as Chapter[] | undefined)?.find((c) => c.chapterName === chapterName);
+    const topic = chapter?.topics.find((t) => t.topicName === topicName);
+
+    return chapter && topic ? { chapter_id: chapter.chapterId, topic_id: topic.topicId } : null;
   }
 
   /**
-   * Get subjects for a student's class
+   * Get subjects for a student's class, in the curriculum of their school
    */
-  static async getSubjectsForClass(classNumber: number): Promise<
+  static async getSubjectsForClass(classNumber: number, schoolId?: string): Promise<
     Array<{
       syllabusId: string;
       subjectName: string;
       classLabel: string;
+      board: string;
+      schoolSpecific: boolean;
       chapterCount: number;
       topicCount: number;
     }>
   > {
-    console.log('[SyllabusService] Querying syllabi for classNumber:', classNumber);
+    console.log('[SyllabusService] Querying syllabi for classNumber:', classNumber, 'school:', schoolId);
 
-    const syllabusCol = collections.syllabi();
-    const syllabi = await syllabusCol.find({ classNumber }).toArray();
+    const syllabi = await CurriculumService.listSyllabi(classNumber, schoolId);
 
     console.log('[SyllabusService] Found', syllabi.length, 'syllabi');
     if (syllabi.length > 0) {
@@ -117,6 +353,7 @@ export class SyllabusService {
         classNumber: syllabi[0].classNumber,
         classLabel: syllabi[0].classLabel,
         subject: syllabi[0].subjectName,
+        board: syllabi[0].board,
       });
     }
 
@@ -130,6 +367,8 @@ export class SyllabusService {
         syllabusId: s._id.toString(),
         subjectName: s.subjectName,
         classLabel: s.classLabel,
+        board: CurriculumService.ofSyllabus(s).board,
+        schoolSpecific: Boolean(s.schoolId),
         chapterCount: s.chapters.length,
         topicCount,
       };
@@ -167,16 +406,21 @@ export class SyllabusService {
 
   /**
    * Get chapter text for quiz generation
+   * chapterId may be a chapter id or name; without a stored chapter text the
+   * whole source PDF text is returned. The syllabus is the one of the given
+   * curriculum (the default board's if omitted).
    */
   static async getChapterText(
     classNumber: number,
     subjectName: string,
-    chapterId?: string
+    chapterId?: string,
+    curriculum: Curriculum = { board: CurriculumService.defaultBoard() }
   ): Promise<string> {
     console.log('[SyllabusService] getChapterText called:', {
       classNumber,
       subjectName,
       chapterId,
+      curriculum,
     });
 
     try {
@@ -194,6 +438,7 @@ export class SyllabusService {
         syllabus = await syllabusCol.findOne({
           classNumber,
           subjectName: subjectName.toLowerCase(),
+          ...CurriculumService.syllabusFilter(curriculum),
         });
       } catch (dbError: any) {
         console.error('[SyllabusService] Database error fetching syllabus:', dbError.message);
@@ -202,7 +447,7 @@ export class SyllabusService {
 
       // Null check for syllabus
       if (!syllabus) {
-        const errMsg = `No syllabus found for Class ${classNumber} - ${subjectName}`;
+        const errMsg = `No syllabus found for Class ${classNumber} - ${subjectName} (${curriculum.schoolId ? `school ${curriculum.schoolId}` : curriculum.board})`;
         console.error('[SyllabusService]', errMsg);
         throw new Error(errMsg);
       }
@@ -222,51 +467,35 @@ export class SyllabusService {
 
       console.log('[SyllabusService] Source PDF ID:', syllabus.sourcePdfId);
 
-      // Fetch PDF document from chapters collection
-      const chaptersCol = collections.chapters();
-      if (!chaptersCol) {
-        const errMsg = 'Chapters collection is not initialized';
-        console.error('[SyllabusService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      let pdfDoc;
-      try {
-        pdfDoc = await chaptersCol.findOne({
-          documentId: syllabus.sourcePdfId,
+      if (chapterId) {
+        const content = await collections.chapter_contents().findOne({
+          classNumber,
+          subjectName: syllabus.subjectName,
+          sourcePdfId: syllabus.sourcePdfId,
+          ...CurriculumService.syllabusFilter(curriculum),
+          $or: [{ chapterId }, { chapterKey: chapterId.trim().toLowerCase() }],
         });
-      } catch (dbError: any) {
-        console.error('[SyllabusService] Database error fetching PDF document:', dbError.message);
-        throw new Error(`Database error: Failed to fetch PDF metadata: ${dbError.message}`);
-      }
 
-      // Null check for pdfDoc
-      if (!pdfDoc) {
-        const errMsg = `Source PDF document not found (ID: ${syllabus.sourcePdfId})`;
-        console.error('[SyllabusService]', errMsg);
-        throw new Error(errMsg);
-      }
-
-      console.log('[SyllabusService] Found PDF document:', {
-        documentId: pdfDoc.documentId,
-        filename: pdfDoc.stored_filename,
-      });
+        if (content?.text && content.text.trim().length > 0) {
+          console.log('[SyllabusService] Using stored chapter text:', {
+            chapterId: content.chapterId,
+            chapterName: content.chapterName,
+            textRange: content.textRange,
+          });
+          return content.text;
+        }
 
-      // Null check for stored_filename
-      if (!pdfDoc.stored_filename) {
-        const errMsg = 'PDF document exists but has no stored filename';
-        console.error('[SyllabusService]', errMsg);
-        throw new Error(errMsg);
+        console.warn('[SyllabusService] ⚠️ No stored text for chapter, falling back to full PDF text:', {
+          classNumber,
+          subjectName,
+          chapterId,
+        });
       }
 
-      // Use ABSOLUTE path from path utility
-      const pdfPath = getPdfPath(pdfDoc.stored_filename);
-      console.log('[SyllabusService] Using absolute PDF path:', pdfPath);
-      console.log('[SyllabusService] Extracting text from PDF:', pdfDoc.stored_filename);
-
+      // Full text of the source PDF (parsed once, then served from pdf_texts)
       let fullText;
       try {
-        fullText = await PDFService.extractTextFromPDF(pdfPath);
+        ({ text: fullText } = await DocumentTextService.getText(syllabus.sourcePdfId));
       } catch (pdfError: any) {
         console.error('[SyllabusService] PDF extraction error:', pdfError.message);
         throw new Error(`Failed to extract text from PDF: ${pdfError.message}`);
@@ -278,10 +507,8 @@ export class SyllabusService {
         throw new Error(errMsg);
       }
 
-      console.log('[SyllabusService] Successfully extracted', fullText.length, 'characters');
+      console.log('[SyllabusService] Got', fullText.length, 'characters of PDF text');
 
-      // If specific chapter requested, try to extract that section
-      // For now, return full text (you can improve this with better segmentation)
       return fullText;
     } catch (error: any) {
       console.error('[SyllabusService] Fatal error in getChapterText:', error.message);
@@ -0,0 +1,337 @@
+// src/services/syllabusVersionService.ts
+/**
+ * Syllabus Version Service - History of syllabus changes and topic migration
+ *
+ * Every change to a syllabus (creation, AI parse, admin edit) is stored in
+ * syllabus_versions as a snapshot of its chapters plus a diff against the
+ * previous version. Chapter and topic ids stay stable across re-parses
+ * (assignStableIds), so the diff can tell renames and moves from additions
+ * and removals.
+ *
+ * Question sets, attempts and quiz sessions find their topic by chapter and
+ * topic name. A version's migration, once confirmed by an admin, re-points
+ * them to the new names and ids: automatically for renamed and moved topics,
+ * and for removed topics only through mappings the admin confirms.
+ */
+
+import { ObjectId } from 'mongodb';
+import { collections } from '../config/database';
+import { SyllabusEditService } from './syllabusEditService';
+import { CurriculumService } from './curriculumService';
+import type {
+  Chapter,
+  SyllabusDiff,
+  SyllabusDocument,
+  SyllabusVersion,
+  SyllabusVersionReason,
+  TopicRef,
+  TopicRepoint,
+} from '../types/syllabus';
+
+const SUGGESTION_MIN_SIMILARITY = 0.5;   // Word overlap needed to suggest a removed topic's successor
+
+const nameKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const words = (name: string) => new Set(nameKey(name).split(/[^a-z0-9]+/).filter(Boolean));
+
+const topicRefs = (chapters: Chapter[]): TopicRef[] =>
+  chapters.flatMap((chapter) =>
+    chapter.topics.map((topic) => ({
+      chapterId: chapter.chapterId,
+      chapterName: chapter.chapterName,
+      topicId: topic.topicId,
+      topicName: topic.topicName,
+    }))
+  );
+
+export class SyllabusVersionService {
+  /**
+   * Give re-parsed chapters and topics the ids they had before
+   * A chapter keeps the id of the previous chapter with the same name. A topic
+   * keeps the id of the same-named topic in that chapter, or of the only topic
+   * with that name anywhere in the previous syllabus (it moved). Everything
+   * else gets a fresh id, since AI ids ("ch1", "t1") are only positional.
+   */
+  static assignStableIds(previous: Chapter[], next: Chapter[]): Chapter[] {
+    const usedChapterIds = new Set<string>();
+    const usedTopicIds = new Set<string>();
+    const previousTopics = topicRefs(previous);
+
+    return next.map((chapter) => {
+      const match = previous.find(
+        (old) => !usedChapterIds.has(old.chapterId) && nameKey(old.chapterName) === nameKey(chapter.chapterName)
+      );
+      const chapterId = match ? match.chapterId : SyllabusEditService.newChapterId();
+      usedChapterIds.add(chapterId);
+
+      const topics = chapter.topics.map((topic) => {
+        const key = nameKey(topic.topicName);
+        const sameChapter = match?.topics.find((old) => !usedTopicIds.has(old.topicId) && nameKey(old.topicName) === key);
+        const elsewhere = previousTopics.filter((old) => !usedTopicIds.has(old.topicId) && nameKey(old.topicName) === key);
+
+        const topicId = sameChapter
+          ? sameChapter.topicId
+          : elsewhere.length === 1
+            ? elsewhere[0].topicId
+            : SyllabusEditService.newTopicId();
+        usedTopicIds.add(topicId);
+
+        return { ...topic, topicId };
+      });
+
+      return { ...chapter, chapterId, topics };
+    });
+  }
+
+  /**
+   * Word overlap (Jaccard) of two topic names, 0-1
+   */
+  static similarity(a: string, b: string): number {
+    const wordsA = words(a);
+    const wordsB = words(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+  }
+
+  /**
+   * Changes from one version's chapters to the next, by id
+   */
+  static diffChapters(previous: Chapter[], next: Chapter[]): SyllabusDiff {
+    const previousChapters = new Map(previous.map((chapter) => [chapter.chapterId, chapter]));
+    const nextChapters = new Map(next.map((chapter) => [chapter.chapterId, chapter]));
+
+    // Topic ids from older AI parses may repeat across chapters; prefer the same chapter
+    const previousTopics = topicRefs(previous);
+    const claimed = new Set<TopicRef>();
+    const kept: TopicRepoint[] = [];
+    const addedTopics: TopicRef[] = [];
+
+    topicRefs(next).forEach((to) => {
+      const candidates = previousTopics.filter((ref) => ref.topicId === to.topicId && !claimed.has(ref));
+      const from = candidates.find((ref) => ref.chapterId === to.chapterId) || candidates[0];
+
+      if (from) {
+        claimed.add(from);
+        kept.push({ from, to });
+      } else {
+        addedTopics.push(to);
+      }
+    });
+    const removedTopics = previousTopics.filter((ref) => !claimed.has(ref));
+
+    // Each added topic is suggested for at most one removed topic, best matches first
+    const candidates = removedTopics
+      .flatMap((from) =>
+        addedTopics.map((to) => ({
+          from,
+          to,
+          similarity: Math.round(this.similarity(from.topicName, to.topicName) * 100) / 100,
+        }))
+      )
+      .filter((candidate) => candidate.similarity >= SUGGESTION_MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const suggestedMappings: SyllabusDiff['suggestedMappings'] = [];
+    candidates.forEach((candidate) => {
+      const taken = suggestedMappings.some(
+        (s) => s.from.topicId === candidate.from.topicId || s.to.topicId === candidate.to.topicId
+      );
+      if (!taken) suggestedMappings.push(candidate);
+    });
+
+    return {
+      chapters: {
+        added: next
+          .filter((chapter) => !previousChapters.has(chapter.chapterId))
+          .map(({ chapterId, chapterName }) => ({ chapterId, chapterName })),
+        removed: previous
+          .filter((chapter) => !nextChapters.has(chapter.chapterId))
+          .map(({ chapterId, chapterName }) => ({ chapterId, chapterName })),
+        renamed: next
+          .filter((chapter) => {
+            const old = previousChapters.get(chapter.chapterId);
+            return old && old.chapterName !== chapter.chapterName;
+          })
+          .map((chapter) => ({
+            chapterId: chapter.chapterId,
+            from: previousChapters.get(chapter.chapterId)!.chapterName,
+            to: chapter.chapterName,
+          })),
+      },
+      topics: {
+        added: addedTopics,
+        removed: removedTopics,
+        renamed: kept.filter(({ from, to }) => from.chapterId === to.chapterId && from.topicName !== to.topicName),
+        moved: kept.filter(({ from, to }) => from.chapterId !== to.chapterId),
+      },
+      repoints: kept.filter(({ from, to }) => from.chapterName !== to.chapterName || from.topicName !== to.topicName),
+      suggestedMappings,
+    };
+  }
+
+  /**
+   * Store a new version of a syllabus; previous is its chapters before the change
+   * Failures are logged, not thrown: the change itself is already saved.
+   */
+  static async recordVersion(
+    syllabus: SyllabusDocument,
+    previous: Chapter[],
+    reason: SyllabusVersionReason,
+    createdBy?: string
+  ): Promise<SyllabusVersion | null> {
+    const version: SyllabusVersion = {
+      syllabusId: syllabus._id.toString(),
+      version: syllabus.version || 1,
+      reason,
+      chapters: syllabus.chapters.map(({ textRange, ...chapter }) => chapter),
+      diff: this.diffChapters(previous, syllabus.chapters),
+      ...(syllabus.sourcePdfId && { sourcePdfId: syllabus.sourcePdfId }),
+      ...(createdBy && { createdBy }),
+      createdAt: new Date(),
+    };
+
+    try {
+      await collections.syllabus_versions().insertOne({ ...version });
+      console.log('[SyllabusVersionService] Recorded version:', {
+        syllabusId: version.syllabusId,
+        version: version.version,
+        reason,
+        repoints: version.diff.repoints.length,
+        removedTopics: version.diff.topics.removed.length,
+      });
+      return version;
+    } catch (error: any) {
+      console.warn('[SyllabusVersionService] ⚠️ Could not record version:', error.message);
+      return null;
+    }
+  }
+
+  static async listVersions(syllabusId: string): Promise<SyllabusVersion[]> {
+    const versions = await collections
+      .syllabus_versions()
+      .find({ syllabusId })
+      .project({ chapters: 0 })
+      .sort({ version: -1 })
+      .toArray();
+
+    return versions as unknown as SyllabusVersion[];
+  }
+
+  static async getVersion(syllabusId: string, version: number): Promise<SyllabusVersion> {
+    const entry = await collections.syllabus_versions().findOne({ syllabusId, version });
+    if (!entry) throw { status: 404, detail: `Version ${version} of syllabus ${syllabusId} not found` };
+
+    return entry as unknown as SyllabusVersion;
+  }
+
+  /**
+   * Re-points for a migration: the version's automatic repoints plus confirmed
+   * mappings from removed topics to topics of the version
+   */
+  static resolveRepoints(version: Pick<SyllabusVersion, 'chapters' | 'diff'>, mappings: unknown): TopicRepoint[] {
+    if (mappings !== undefined && !Array.isArray(mappings)) {
+      throw { status: 400, detail: 'mappings must be an array of { fromTopicId, toTopicId }' };
+    }
+
+    const targets = new Map(topicRefs(version.chapters).map((ref) => [ref.topicId, ref]));
+    const repoints = [...version.diff.repoints];
+
+    ((mappings as any[]) || []).forEach((mapping) => {
+      const from = version.diff.topics.removed.find((ref) => ref.topicId === mapping?.fromTopicId);
+      const to = targets.get(mapping?.toTopicId);
+
+      if (!from) throw { status: 400, detail: `Topic ${mapping?.fromTopicId} was not removed in this version` };
+      if (!to) throw { status: 400, detail: `Topic ${mapping?.toTopicId} is not in this version` };
+      if (repoints.some((r) => r.from.topicId === from.topicId)) {
+        throw { status: 400, detail: `Topic ${from.topicId} is mapped more than once` };
+      }
+
+      repoints.push({ from, to });
+    });
+
+    return repoints;
+  }
+
+  /**
+   * Re-point question sets, attempts and quiz sessions of a version's changed
+   * topics. Only the syllabus's latest version can be migrated, and only once.
+   */
+  static async migrate(syllabusId: string, versionNumber: number, mappings: unknown, migratedBy?: string) {
+    if (!ObjectId.isValid(syllabusId)) throw { status: 400, detail: 'Invalid syllabusId' };
+
+    const syllabus = await collections.syllabi().findOne({ _id: new ObjectId(syllabusId) });
+    if (!syllabus) throw { status: 404, detail: 'Syllabus not found' };
+    if ((syllabus.version || 0) !== versionNumber) {
+      throw { status: 409, detail: `Only the latest version (${syllabus.version || 0}) can be migrated` };
+    }
+
+    const version = await this.getVersion(syllabusId, versionNumber);
+    if (version.migration) throw { status: 409, detail: `Version ${versionNumber} was already migrated` };
+
+    const repoints = this.resolveRepoints(version, mappings);
+    const scope = {
+      class_number: syllabus.classNumber,
+      subject: syllabus.subjectName,
+      ...CurriculumService.setFilter(CurriculumService.ofSyllabus(syllabus as unknown as SyllabusDocument)),
+    };
+    const targets = [collections.question_sets(), collections.question_set_attempts(), collections.quiz_sessions()];
+
+    // Find every document first, so chained or swapped names cannot be re-pointed twice
+    const matched = await Promise.all(
+      targets.map((col) =>
+        Promise.all(
+          repoints.map(async ({ from }) => {
+            const docs = await col
+              .find({
+                ...scope,
+                $or: [
+                  { chapter_id: from.chapterId, topic_id: from.topicId },
+                  { chapter: from.chapterName, topic: from.topicName },
+                ],
+              })
+              .project({ _id: 1 })
+              .toArray();
+            return docs.map((doc) => doc._id);
+          })
+        )
+      )
+    );
+
+    const updated = await Promise.all(
+      targets.map(async (col, c) => {
+        let count = 0;
+        for (let r = 0; r < repoints.length; r++) {
+          const { to } = repoints[r];
+          if (matched[c][r].length === 0) continue;
+
+          const result = await col.updateMany(
+            { _id: { $in: matched[c][r] } },
+            { $set: { chapter: to.chapterName, topic: to.topicName, chapter_id: to.chapterId, topic_id: to.topicId } }
+          );
+          count += result.modifiedCount;
+        }
+        return count;
+      })
+    );
+
+    const migration = {
+      migratedAt: new Date(),
+      ...(migratedBy && { migratedBy }),
+      repoints,
+      updated: { question_sets: updated[0], question_set_attempts: updated[1], quiz_sessions: updated[2] },
+    };
+
+    await collections.syllabus_versions().updateOne({ syllabusId, version: versionNumber }, { $set: { migration } });
+
+    console.log('[SyllabusVersionService] Migrated version:', {
+      syllabusId,
+      version: versionNumber,
+      repoints: repoints.length,
+      ...migration.updated,
+    });
+
+    return migration;
+  }
+}
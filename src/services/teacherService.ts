@@ -166,8 +166,9 @@ export class TeacherService {
     class_ids?: string[];
     subject_map?: { class_id: string; subject_id: string }[];
     student_ids?: string[];
+    quiz_time_limit_seconds?: number;
   }) {
-    const { type, school_id, class_ids, subject_map, student_ids } = payload;
+    const { type, school_id, class_ids, subject_map, student_ids, quiz_time_limit_seconds } = payload;
 
     if (!type || !school_id) {
       throw {
@@ -217,6 +218,19 @@ export class TeacherService {
       };
     }
 
+    if (quiz_time_limit_seconds !== undefined && !this.isValidTimeLimit(quiz_time_limit_seconds)) {
+      throw {
+        status: 400,
+        detail: 'Invalid time limit',
+        validation_errors: true,
+        errors: [{ field: 'quiz_time_limit_seconds', message: 'Time limit must be a positive whole number of seconds' }]
+      };
+    }
+
+    if (quiz_time_limit_seconds !== undefined && type !== 'subject') {
+      throw this.subjectOnlyTimeLimitError();
+    }
+
     const assignment: TeacherAssignmentDoc = {
       assignment_id: uuidv4(),
       teacher_id: teacherId,
@@ -229,6 +243,7 @@ export class TeacherService {
     if (class_ids) assignment.class_ids = class_ids;
     if (subject_map) assignment.subject_map = subject_map;
     if (student_ids) assignment.student_ids = student_ids;
+    if (quiz_time_limit_seconds !== undefined) assignment.quiz_time_limit_seconds = quiz_time_limit_seconds;
 
     await collections.teacher_assignments().insertOne(assignment);
 
@@ -239,16 +254,40 @@ export class TeacherService {
     class_ids: string[];
     subject_map: { class_id: string; subject_id: string }[];
     student_ids: string[];
+    quiz_time_limit_seconds: number | null;
   }>) {
     const updateDoc: any = { updated_at: new Date().toISOString() };
+    const unsetDoc: any = {};
 
     if (payload.class_ids) updateDoc.class_ids = payload.class_ids;
     if (payload.subject_map) updateDoc.subject_map = payload.subject_map;
     if (payload.student_ids) updateDoc.student_ids = payload.student_ids;
 
+    // null clears the time limit
+    if (payload.quiz_time_limit_seconds === null) {
+      unsetDoc.quiz_time_limit_seconds = '';
+    } else if (payload.quiz_time_limit_seconds !== undefined) {
+      if (!this.isValidTimeLimit(payload.quiz_time_limit_seconds)) {
+        throw {
+          status: 400,
+          detail: 'Invalid time limit',
+          validation_errors: true,
+          errors: [{ field: 'quiz_time_limit_seconds', message: 'Time limit must be a positive whole number of seconds' }]
+        };
+      }
+      const existing = await collections.teacher_assignments().findOne(
+        { assignment_id: assignmentId, teacher_id: teacherId },
+        { projection: { type: 1 } }
+      );
+      if (existing && existing.type !== 'subject') {
+        throw this.subjectOnlyTimeLimitError();
+      }
+      updateDoc.quiz_time_limit_seconds = payload.quiz_time_limit_seconds;
+    }
+
     const result = await collections.teacher_assignments().updateOne(
       { assignment_id: assignmentId, teacher_id: teacherId },
-      { $set: updateDoc }
+      Object.keys(unsetDoc).length > 0 ? { $set: updateDoc, $unset: unsetDoc } : { $set: updateDoc }
     );
 
     if (result.matchedCount === 0) {
@@ -259,6 +298,64 @@ export class TeacherService {
     return { assignment };
   }
 
+  private static isValidTimeLimit(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+  }
+
+  // Class and manual assignments name no subject, so a time limit on them would apply to every subject
+  private static subjectOnlyTimeLimitError() {
+    return {
+      status: 400,
+      detail: 'Time limits can only be set on subject assignments',
+      validation_errors: true,
+      errors: [{ field: 'quiz_time_limit_seconds', message: 'Time limits can only be set on subject assignments' }]
+    };
+  }
+
+  /**
+   * Whether a subject assignment covers a class and subject (subject ids compare case-insensitively)
+   */
+  static coversSubject(
+    assignment: Pick<TeacherAssignmentDoc, 'subject_map'>,
+    classId: string,
+    subject: string
+  ): boolean {
+    const subjectKey = subject.trim().toLowerCase();
+    return (assignment.subject_map || []).some(
+      (entry) => entry.class_id === classId && entry.subject_id.trim().toLowerCase() === subjectKey
+    );
+  }
+
+  /**
+   * Resolve the quiz time limit for a student from their teachers' assignments
+   * Only subject assignments for the quiz's subject and the student's class
+   * count; the strictest (smallest) limit wins
+   */
+  static async getQuizTimeLimitForStudent(
+    schoolId: string,
+    studentId: string,
+    subject: string
+  ): Promise<number | undefined> {
+    const student = await collections.students().findOne({ student_id: studentId });
+    const classId = student?.class_id;
+    if (!classId) return undefined;
+
+    const assignments = (await collections.teacher_assignments()
+      .find({
+        school_id: schoolId,
+        type: 'subject',
+        quiz_time_limit_seconds: { $gt: 0 },
+        'subject_map.class_id': classId
+      })
+      .toArray()) as unknown as TeacherAssignmentDoc[];
+
+    const limits = assignments
+      .filter((a) => this.coversSubject(a, classId, subject))
+      .map((a) => a.quiz_time_limit_seconds as number);
+
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
   static async deleteAssignment(teacherId: string, assignmentId: string) {
     const result = await collections.teacher_assignments().deleteOne({
       assignment_id: assignmentId,
@@ -0,0 +1,136 @@
+// src/services/uploadScanService.ts
+/**
+ * Upload Scan Service - Malware scanning hook for uploaded documents
+ *
+ * UPLOAD_SCANNER selects the scanner run on every new upload before it is
+ * stored:
+ *   none   - no scanning (default)
+ *   clamav - a clamd daemon, streamed to with INSTREAM over TCP
+ * Rejected files are not stored as documents; they are kept under
+ * quarantine/ in document storage and recorded in quarantined_uploads.
+ * A scanner that cannot be reached fails the upload (closed, not open).
+ */
+
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { collections } from '../config/database';
+import { DocumentStorageService } from './documentStorageService';
+
+const UPLOAD_SCANNER = (process.env.UPLOAD_SCANNER || 'none').toLowerCase();
+const CLAMAV_HOST = process.env.CLAMAV_HOST || '127.0.0.1';
+const CLAMAV_PORT = parseInt(process.env.CLAMAV_PORT || '3310') || 3310;
+const CLAMAV_TIMEOUT_MS = 60 * 1000;
+const CLAMAV_CHUNK_BYTES = 64 * 1024;
+
+export interface ScanResult {
+  clean: boolean;
+  scanner: string;
+  signature?: string;     // Name of the detected threat
+}
+
+export interface UploadScanner {
+  readonly name: string;
+  scan(content: Buffer): Promise<ScanResult>;
+}
+
+class ClamAvScanner implements UploadScanner {
+  readonly name = 'clamav';
+
+  constructor(private readonly host: string, private readonly port: number) {}
+
+  scan(content: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      const replies: Buffer[] = [];
+
+      socket.setTimeout(CLAMAV_TIMEOUT_MS, () => socket.destroy(new Error('clamd timed out')));
+      socket.on('error', (error) => reject(new Error(`ClamAV scan failed: ${error.message}`)));
+      socket.on('data', (data) => replies.push(data));
+      socket.on('end', () => {
+        try {
+          resolve({ ...UploadScanService.parseClamdReply(Buffer.concat(replies).toString('utf8')), scanner: this.name });
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < content.length; offset += CLAMAV_CHUNK_BYTES) {
+          const chunk = content.subarray(offset, offset + CLAMAV_CHUNK_BYTES);
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length, 0);
+          socket.write(size);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4));   // Zero-length chunk ends the stream
+      });
+    });
+  }
+}
+
+export class UploadScanService {
+  /**
+   * The configured scanner; null when scanning is off
+   */
+  static getScanner(): UploadScanner | null {
+    if (UPLOAD_SCANNER === 'none') return null;
+    if (UPLOAD_SCANNER === 'clamav') return new ClamAvScanner(CLAMAV_HOST, CLAMAV_PORT);
+    throw new Error(`Unknown UPLOAD_SCANNER "${UPLOAD_SCANNER}" (expected none or clamav)`);
+  }
+
+  /**
+   * Verdict from a clamd INSTREAM reply ("stream: OK" / "stream: <signature> FOUND")
+   */
+  static parseClamdReply(reply: string): { clean: boolean; signature?: string } {
+    const text = reply.replace(/\0/g, '').trim();
+
+    if (/^stream: OK$/.test(text)) return { clean: true };
+
+    const found = text.match(/^stream: (.+) FOUND$/);
+    if (found) return { clean: false, signature: found[1] };
+
+    throw new Error(`ClamAV scan failed: ${text || 'empty reply'}`);
+  }
+
+  static async scan(content: Buffer): Promise<ScanResult> {
+    const scanner = this.getScanner();
+    if (!scanner) return { clean: true, scanner: 'none' };
+
+    const result = await scanner.scan(content);
+    console.log('[UploadScanService] Scan result:', result);
+    return result;
+  }
+
+  /**
+   * Keep a rejected upload out of document storage's documents/ and record why
+   */
+  static async quarantine(
+    content: Buffer,
+    details: { content_hash: string; original_filename: string; uploaded_by?: string; result: ScanResult }
+  ): Promise<string> {
+    const quarantineId = `qua_${uuidv4().substring(0, 12)}`;
+    const storageKey = `quarantine/${quarantineId}.bin`;
+
+    await DocumentStorageService.getStorage().put(storageKey, content);
+    await collections.quarantined_uploads().insertOne({
+      quarantine_id: quarantineId,
+      storage_key: storageKey,
+      content_hash: details.content_hash,
+      original_filename: details.original_filename,
+      uploaded_by: details.uploaded_by || null,
+      scanner: details.result.scanner,
+      signature: details.result.signature || null,
+      file_size: content.length,
+      created_at: new Date(),
+    });
+
+    console.warn('[UploadScanService] ⚠️ Upload quarantined:', {
+      quarantine_id: quarantineId,
+      signature: details.result.signature,
+      original_filename: details.original_filename,
+    });
+
+    return quarantineId;
+  }
+}
@@ -0,0 +1,58 @@
+import { AdaptiveDifficultyService } from '../services/adaptiveDifficultyService';
+import { QuestionSetService } from '../services/questionSetService';
+import { makeQuestionSet } from './helpers/fixtures';
+
+describe('Adaptive difficulty', () => {
+    it('should step up after strong scores and down after weak ones', () => {
+        expect(AdaptiveDifficultyService.stepLevel(3, 90)).toBe(4);
+        expect(AdaptiveDifficultyService.stepLevel(3, 65)).toBe(3);
+        expect(AdaptiveDifficultyService.stepLevel(3, 30)).toBe(2);
+    });
+
+    it('should stay within levels 1-5', () => {
+        expect(AdaptiveDifficultyService.stepLevel(5, 100)).toBe(5);
+        expect(AdaptiveDifficultyService.stepLevel(1, 0)).toBe(1);
+    });
+
+    it('should map subject accuracy to a starting level', () => {
+        expect(AdaptiveDifficultyService.levelFromAccuracy(20)).toBe(1);
+        expect(AdaptiveDifficultyService.levelFromAccuracy(60)).toBe(3);
+        expect(AdaptiveDifficultyService.levelFromAccuracy(95)).toBe(5);
+    });
+
+    it('should only reuse sets within a requested label\'s levels', async () => {
+        const sets = [1, 3, 5].map((level) => makeQuestionSet({ set_id: `set_${level}`, difficulty_level: level }));
+        const levels = (target: Parameters<typeof QuestionSetService.closestToTarget>[1]) =>
+            QuestionSetService.closestToTarget(sets, target).map((set) => set.difficulty_level);
+
+        const hard = await AdaptiveDifficultyService.resolveTarget({
+            student_id: 'student_001',
+            school_id: 'school_001',
+            class_number: 9,
+            class_label: 'Class 9',
+            subject: 'Physics',
+            chapter: 'Motion',
+            topic: 'Velocity',
+            difficulty_label: 'hard',
+        });
+        expect(hard).toMatchObject({ target_level: 4, min_level: 4, max_level: 5 });
+        expect(levels(hard)).toEqual([5]);
+        expect(levels({ target_level: 2, min_level: 1, max_level: 2 })).toEqual([1]);
+        expect(levels({ target_level: 3, min_level: 3, max_level: 3 })).toEqual([3]);
+
+        // Adaptive targets accept a set one level away
+        expect(levels({ target_level: 4 })).toEqual([3, 5]);
+        expect(levels({ target_level: 2 })).toEqual([1, 3]);
+    });
+
+    it('should move sets from the old 1-10 scale onto levels 1-5', () => {
+        expect(QuestionSetService.difficultyLevelFields({ difficulty_level: 8 }, 4)).toEqual({ difficulty_level: 4 });
+        expect(QuestionSetService.difficultyLevelFields({ difficulty_level: 4 }, 4)).toEqual({});
+
+        // Calibrated levels are already 1-5; only the original LLM estimate moves
+        expect(QuestionSetService.difficultyLevelFields({ difficulty_level: 2, llm_difficulty_level: 7 }, 3)).toEqual({
+            llm_difficulty_level: 3,
+        });
+        expect(QuestionSetService.difficultyLevelFields({ difficulty_level: 2, llm_difficulty_level: 3 }, 3)).toEqual({});
+    });
+});
@@ -0,0 +1,42 @@
+import { CalibrationService } from '../services/calibrationService';
+
+describe('Item calibration', () => {
+    it('should compute p-value and a positive discrimination for a good item', () => {
+        // Students who got the item right also did better on the rest of the set
+        const stats = CalibrationService.computeItemStats([
+            { item: 1, total: 9 },
+            { item: 1, total: 8 },
+            { item: 1, total: 7 },
+            { item: 0, total: 3 },
+            { item: 0, total: 2 },
+        ]);
+        expect(stats.p_value).toBe(0.6);
+        expect(stats.sample_size).toBe(5);
+        expect(stats.discrimination).toBeGreaterThan(0.8);
+    });
+
+    it('should flag a reversed item with negative discrimination', () => {
+        const stats = CalibrationService.computeItemStats([
+            { item: 0, total: 9 },
+            { item: 0, total: 8 },
+            { item: 1, total: 3 },
+            { item: 1, total: 2 },
+        ]);
+        expect(stats.discrimination).toBeLessThan(0);
+    });
+
+    it('should leave discrimination undefined when everyone scores the same', () => {
+        const stats = CalibrationService.computeItemStats([
+            { item: 1, total: 5 },
+            { item: 1, total: 7 },
+        ]);
+        expect(stats.p_value).toBe(1);
+        expect(stats.discrimination).toBeNull();
+    });
+
+    it('should map empirical difficulty onto levels 1-5', () => {
+        expect(CalibrationService.difficultyToLevel(0)).toBe(1);
+        expect(CalibrationService.difficultyToLevel(0.5)).toBe(3);
+        expect(CalibrationService.difficultyToLevel(0.95)).toBe(5);
+    });
+});
@@ -0,0 +1,38 @@
+import { SyllabusService } from '../services/syllabusService';
+
+const chapters = [{ chapterName: 'Matter in Our Surroundings' }, { chapterName: 'Motion' }, { chapterName: 'Sound' }];
+
+const filler = 'Read the passage and answer the questions that follow. '.repeat(10);
+
+const contents = 'Contents\n1. Matter in Our Surroundings 1\n2. Motion 15\n3. Sound 30\n';
+const matter = 'Chapter 1\nMatter in Our Surroundings\nEverything around us is made of matter. ' + filler + 'Sound travels through matter.\n';
+const motion = 'Chapter 2\nMOTION\nAn object is in motion when its position changes with time. ' + filler + '\n';
+const sound = 'Sound\nSound is a form of energy produced by vibrating objects.\n';
+const text = contents + matter + motion + sound;
+
+describe('Chapter segmentation', () => {
+    it('should cut each chapter at its heading, skipping the contents listing', () => {
+        const ranges = SyllabusService.segmentChapters(text, chapters);
+
+        expect(ranges.map((range) => text.slice(range!.start, range!.end))).toEqual([
+            matter.slice('Chapter 1\n'.length) + 'Chapter 2\n',
+            motion.slice('Chapter 2\n'.length),
+            sound,
+        ]);
+    });
+
+    it('should record the pages each chapter spans', () => {
+        const pageOffsets = [0, contents.length, contents.length + matter.length];
+        const ranges = SyllabusService.segmentChapters(text, chapters, pageOffsets);
+
+        expect(ranges.map((range) => [range!.startPage, range!.endPage])).toEqual([[2, 3], [3, 3], [3, 3]]);
+    });
+
+    it('should leave chapters that cannot be found without a range', () => {
+        const ranges = SyllabusService.segmentChapters(matter + sound, [...chapters, { chapterName: 'Gravitation' }]);
+
+        expect(ranges[1]).toBeNull();
+        expect(ranges[3]).toBeNull();
+        expect(ranges[0]).toMatchObject({ start: matter.indexOf('Matter'), end: matter.length });
+    });
+});
@@ -0,0 +1,31 @@
+import { CurriculumService } from '../services/curriculumService';
+
+describe('Curricula', () => {
+    it('should normalize board codes and default a missing board', () => {
+        expect(CurriculumService.normalizeBoard(' icse ')).toBe('ICSE');
+        expect(CurriculumService.normalizeBoard('maharashtra  state')).toBe('MAHARASHTRA STATE');
+        expect(CurriculumService.normalizeBoard(undefined)).toBe(CurriculumService.defaultBoard());
+        expect(() => CurriculumService.normalizeBoard('x')).toThrow();
+        expect(() => CurriculumService.normalizeBoard({ board: 'CBSE' })).toThrow();
+    });
+
+    it('should match pre-board documents only for the default board', () => {
+        expect(CurriculumService.setFilter({ board: CurriculumService.defaultBoard() })).toEqual({
+            board: { $in: [CurriculumService.defaultBoard(), null] },
+            curriculum_school_id: null,
+        });
+        expect(CurriculumService.syllabusFilter({ board: 'ICSE' })).toEqual({ board: 'ICSE', schoolId: null });
+        expect(CurriculumService.syllabusFilter({ board: 'ICSE', schoolId: 'school_001' })).toEqual({
+            schoolId: 'school_001',
+        });
+    });
+
+    it('should carry a school override through question set fields', () => {
+        const curriculum = { board: 'ICSE', schoolId: 'school_001' };
+        const fields = CurriculumService.setFields(curriculum);
+
+        expect(fields).toEqual({ board: 'ICSE', curriculum_school_id: 'school_001' });
+        expect(CurriculumService.ofSet(fields)).toEqual(curriculum);
+        expect(CurriculumService.ofSet({})).toEqual({ board: CurriculumService.defaultBoard() });
+    });
+});
@@ -0,0 +1,82 @@
+import zlib from 'zlib';
+import { DocumentExtractorService } from '../services/documentExtractorService';
+
+// Minimal zip writer: deflated entries, central directory, end record
+function zip(files: Record<string, string>): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    Object.entries(files).forEach(([name, content]) => {
+        const data = zlib.deflateRawSync(Buffer.from(content));
+        const nameBytes = Buffer.from(name);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(Buffer.byteLength(content), 22);
+        local.writeUInt16LE(nameBytes.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(Buffer.byteLength(content), 24);
+        central.writeUInt16LE(nameBytes.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, nameBytes, data);
+        centrals.push(central, nameBytes);
+        offset += local.length + nameBytes.length + data.length;
+    });
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+}
+
+const docx = zip({
+    '[Content_Types].xml': '<Types/>',
+    'word/document.xml':
+        '<w:document><w:body><w:p><w:r><w:t>Motion &amp; Rest</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:instrText>PAGE</w:instrText><w:t xml:space="preserve">Speed is </w:t><w:t>distance/time.</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:br w:type="page"/><w:t>Velocity</w:t></w:r></w:p></w:body></w:document>',
+});
+
+describe('Document extraction', () => {
+    it('should detect the format from the bytes, not the name', () => {
+        expect(DocumentExtractorService.detectFormat(Buffer.from('%PDF-1.7\n...'))).toBe('pdf');
+        expect(DocumentExtractorService.detectFormat(docx)).toBe('docx');
+        expect(DocumentExtractorService.detectFormat(zip({ mimetype: 'application/epub+zip' }))).toBe('epub');
+        expect(DocumentExtractorService.detectFormat(zip({ '[Content_Types].xml': '', 'ppt/slides/slide1.xml': '' }))).toBe('pptx');
+        expect(DocumentExtractorService.detectFormat(zip({ 'notes.txt': 'hello' }))).toBeNull();
+        expect(DocumentExtractorService.detectFormat(Buffer.from('<!DOCTYPE html><html></html>'))).toBe('html');
+        expect(DocumentExtractorService.detectFormat(Buffer.from('# Motion\n\nSpeed is distance over time.'))).toBe('markdown');
+        expect(DocumentExtractorService.detectFormat(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0x00, 0x01]))).toBeNull();
+    });
+
+    it('should extract DOCX paragraphs and start a new page at page breaks', async () => {
+        const extracted = await DocumentExtractorService.extract(docx, 'ch1.bin');
+
+        expect(extracted.format).toBe('docx');
+        expect(extracted.text).toBe('Motion & Rest\nSpeed is distance/time.\n\nVelocity');
+        expect(extracted.pageOffsets).toEqual([0, extracted.text.indexOf('Velocity')]);
+    });
+
+    it('should reduce HTML and Markdown to plain text', () => {
+        const html = '<html><head><title>x</title></head><body><h1>Motion</h1><p>Speed&nbsp;is <b>fast</b>.<br>Next</p><script>alert(1)</script></body></html>';
+        expect(DocumentExtractorService.normalizeText(DocumentExtractorService.htmlToText(html))).toBe('Motion\n\nSpeed is fast.\nNext');
+
+        const markdown = '## Motion ##\n\n> **Speed** is *distance* over `time`.\n\nSee [the notes](notes.md).\n\n---\n';
+        expect(DocumentExtractorService.normalizeText(DocumentExtractorService.markdownToText(markdown))).toBe(
+            'Motion\n\nSpeed is distance over time.\n\nSee the notes.'
+        );
+    });
+});
@@ -0,0 +1,63 @@
+import { GenerationJobService } from '../services/generationJobService';
+import type { GenerateQuizRequest, GenerationJob } from '../types/questionSet';
+
+const request: GenerateQuizRequest = {
+    student_id: 'student_001',
+    school_id: 'school_001',
+    class_number: 9,
+    class_label: 'Class 9',
+    subject: 'Physics',
+    chapter: 'Motion',
+    topic: 'Velocity',
+};
+
+describe('Generation jobs', () => {
+    it('should give identical requests from different students the same dedupe key', () => {
+        const key = GenerationJobService.buildDedupeKey(request, 3);
+
+        expect(
+            GenerationJobService.buildDedupeKey(
+                { ...request, student_id: 'student_002', subject: 'physics ', num_questions: 10, question_types: ['mcq'] },
+                3
+            )
+        ).toBe(key);
+        expect(GenerationJobService.buildDedupeKey(request, 4)).not.toBe(key);
+        expect(GenerationJobService.buildDedupeKey({ ...request, difficulty_label: 'hard' }, 3)).not.toBe(key);
+        expect(GenerationJobService.buildDedupeKey({ ...request, num_questions: 20 }, 3)).not.toBe(key);
+        expect(
+            GenerationJobService.buildDedupeKey({ ...request, question_types: ['numeric', 'mcq'] }, 3)
+        ).toBe(GenerationJobService.buildDedupeKey({ ...request, question_types: ['mcq', 'numeric'] }, 3));
+    });
+
+    it('should only dedupe requests for the same curriculum', () => {
+        const key = GenerationJobService.buildDedupeKey(request, 3);
+
+        expect(GenerationJobService.buildDedupeKey({ ...request, board: 'CBSE' }, 3)).toBe(key);
+        expect(GenerationJobService.buildDedupeKey({ ...request, board: 'ICSE' }, 3)).not.toBe(key);
+        expect(
+            GenerationJobService.buildDedupeKey({ ...request, board: 'CBSE', curriculum_school_id: 'school_001' }, 3)
+        ).not.toBe(key);
+    });
+
+    it('should not expose the requesting students in the job status', () => {
+        const job: GenerationJob = {
+            job_id: 'job_1',
+            status: 'succeeded',
+            request: { ...request, difficulty_label: 'adaptive', num_questions: 10 },
+            target_level: 3,
+            requested_by: ['student_001', 'student_002'],
+            attempts: 1,
+            set_id: 'set_1',
+            created_at: new Date(),
+            updated_at: new Date(),
+        };
+
+        const response = GenerationJobService.toResponse(job);
+
+        expect(response).toMatchObject({ job_id: 'job_1', status: 'succeeded', set_id: 'set_1', target_difficulty_level: 3 });
+        expect(JSON.stringify(response)).not.toContain('student_00');
+
+        // Jobs for adaptive requests store no label, so none is saved on their sets
+        expect(GenerationJobService.toResponse({ ...job, request }).difficulty_label).toBe('adaptive');
+    });
+});
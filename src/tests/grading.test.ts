@@ -0,0 +1,62 @@
+import { GradingService } from '../services/gradingService';
+import { AttemptService } from '../services/attemptService';
+import { makeQuestion } from './helpers/fixtures';
+
+describe('Question grading', () => {
+    it('should grade MCQ and true/false by option index', () => {
+        const mcq = makeQuestion({ options: ['A', 'B', 'C', 'D'], correct_option_index: 2 });
+        expect(GradingService.gradeResponse(mcq, 2)).toEqual({ credit: 1, is_correct: true });
+        expect(GradingService.gradeResponse(mcq, 1).credit).toBe(0);
+        expect(GradingService.gradeResponse(mcq, undefined).credit).toBe(0);
+
+        const tf = makeQuestion({ type: 'true_false', options: ['True', 'False'], correct_option_index: 1 });
+        expect(GradingService.gradeResponse(tf, 1).is_correct).toBe(true);
+    });
+
+    it('should give partial credit for multi-select, cancelled by wrong picks', () => {
+        const q = makeQuestion({
+            type: 'multi_select',
+            options: ['A', 'B', 'C', 'D'],
+            correct_option_indices: [0, 2],
+        });
+        expect(GradingService.gradeResponse(q, [0, 2])).toEqual({ credit: 1, is_correct: true });
+        expect(GradingService.gradeResponse(q, [0])).toEqual({ credit: 0.5, is_correct: false });
+        expect(GradingService.gradeResponse(q, [0, 1]).credit).toBe(0);
+        expect(GradingService.gradeResponse(q, [0, 1, 2, 3]).credit).toBe(0);
+    });
+
+    it('should accept numeric answers within tolerance', () => {
+        const q = makeQuestion({ type: 'numeric', numeric_answer: 9.8, numeric_tolerance: 0.05 });
+        expect(GradingService.gradeResponse(q, 9.84).is_correct).toBe(true);
+        expect(GradingService.gradeResponse(q, '9.76').is_correct).toBe(true);
+        expect(GradingService.gradeResponse(q, 9.9).is_correct).toBe(false);
+        expect(GradingService.gradeResponse(q, 'abc').credit).toBe(0);
+    });
+
+    it('should match fill-in-the-blank variants ignoring case and spacing', () => {
+        const q = makeQuestion({ type: 'fill_blank', accepted_answers: ['photosynthesis', 'photo synthesis'] });
+        expect(GradingService.gradeResponse(q, '  Photosynthesis. ').is_correct).toBe(true);
+        expect(GradingService.gradeResponse(q, 'Photo   Synthesis').is_correct).toBe(true);
+        expect(GradingService.gradeResponse(q, 'respiration').is_correct).toBe(false);
+    });
+
+    it('should give credit per correct pair in match-the-following', () => {
+        const q = makeQuestion({
+            type: 'match',
+            match_left: ['Iron', 'Copper', 'Sodium'],
+            options: ['Na', 'Fe', 'Cu'],
+            correct_matches: [1, 2, 0],
+        });
+        expect(GradingService.gradeResponse(q, [1, 2, 0]).is_correct).toBe(true);
+        expect(GradingService.gradeResponse(q, [1, 0, -1])).toEqual({ credit: 0.3333, is_correct: false });
+    });
+
+    it('should un-shuffle option-based responses only', () => {
+        const order = [2, 0, 1];
+        const multi = makeQuestion({ type: 'multi_select', options: ['A', 'B', 'C'] });
+        const numeric = makeQuestion({ type: 'numeric' });
+
+        expect(AttemptService.toCanonicalResponse(multi, [0, 1], order)).toEqual([2, 0]);
+        expect(AttemptService.toCanonicalResponse(numeric, 1, order)).toBe(1);
+    });
+});
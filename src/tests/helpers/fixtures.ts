@@ -0,0 +1,40 @@
+import type { Question, QuestionSet } from '../../types/questionSet';
+
+/**
+ * A question with neutral defaults; tests set the fields they grade on
+ */
+export const makeQuestion = (fields: Partial<Question> = {}): Question => ({
+    id: 'Q1',
+    question: 'Question',
+    options: [],
+    correct_option_index: -1,
+    skills: ['reasoning'],
+    features: { memorization: 0.2, reasoning: 0.8, numerical: 0.1, language: 0.3 },
+    difficulty_score: 0.5,
+    ...fields,
+});
+
+/**
+ * A four-option multiple choice question keyed at `correct`
+ */
+export const makeMcq = (id: string, correct: number, fields: Partial<Question> = {}): Question =>
+    makeQuestion({
+        id,
+        question: `Question ${id}`,
+        options: ['A', 'B', 'C', 'D'],
+        correct_option_index: correct,
+        ...fields,
+    });
+
+export const makeQuestionSet = (fields: Partial<QuestionSet> = {}): QuestionSet => ({
+    set_id: 'set_1',
+    class_number: 9,
+    class_label: 'Class 9',
+    subject: 'Science',
+    chapter: 'Motion',
+    topic: 'Speed',
+    questions: [],
+    difficulty_level: 3,
+    created_at: new Date('2026-01-01'),
+    ...fields,
+});
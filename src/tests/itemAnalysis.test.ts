@@ -0,0 +1,53 @@
+import { ItemAnalysisService } from '../services/itemAnalysisService';
+import { makeMcq, makeQuestionSet } from './helpers/fixtures';
+
+const set = makeQuestionSet({ questions: [makeMcq('Q1', 0), makeMcq('Q2', 1)] });
+
+// Q1 behaves well; Q2 is keyed B but most students, including the strongest, pick C
+const attempt = (studentId: string, q1: number, q2: number) => ({
+    student_id: studentId,
+    score_percentage: 50,
+    submitted_at: new Date('2026-01-01'),
+    answers: [
+        { question_id: 'Q1', selected_option_index: q1, is_correct: q1 === 0, credit: q1 === 0 ? 1 : 0 },
+        { question_id: 'Q2', selected_option_index: q2, is_correct: q2 === 1, credit: q2 === 1 ? 1 : 0 },
+    ],
+});
+
+const attempts = [
+    ...Array.from({ length: 6 }, (_, i) => attempt(`strong_${i}`, 0, 2)),
+    ...Array.from({ length: 4 }, (_, i) => attempt(`weak_${i}`, 3, i < 2 ? 1 : 2)),
+];
+
+describe('Item analysis', () => {
+    it('should count option choices and percent correct', () => {
+        const report = ItemAnalysisService.analyzeSet(set, attempts);
+        const q1 = report.questions[0];
+
+        expect(report.students).toBe(10);
+        expect(q1.percent_correct).toBe(60);
+        expect(q1.options.map((o) => o.count)).toEqual([6, 0, 0, 4]);
+        expect(q1.options[0].is_key).toBe(true);
+        expect(q1.discrimination_index).toBe(1);
+        expect(q1.flags).toEqual([]);
+    });
+
+    it('should flag a distractor chosen more than the keyed answer', () => {
+        const report = ItemAnalysisService.analyzeSet(set, attempts);
+        const q2 = report.questions[1];
+
+        expect(q2.options.map((o) => o.count)).toEqual([0, 2, 8, 0]);
+        expect(q2.flags).toContain('distractor_over_key');
+        expect(q2.flags).toContain('negative_discrimination');
+        expect(report.flagged_question_count).toBe(1);
+    });
+
+    it('should count only the first attempt per student and hold flags below the minimum', () => {
+        const retake = { ...attempt('strong_0', 0, 1), submitted_at: new Date('2026-02-01') };
+        const report = ItemAnalysisService.analyzeSet(set, [...attempts.slice(0, 3), retake]);
+
+        expect(report.students).toBe(3);
+        expect(report.flags_reliable).toBe(false);
+        expect(report.questions[1].flags).toEqual([]);
+    });
+});
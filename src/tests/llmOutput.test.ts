@@ -0,0 +1,105 @@
+import fixture from '../fixtures/llm/question_generation.json';
+import { LLMOutputService } from '../services/llmOutputService';
+import { setLLMProvider, type LLMCompletionRequest, type LLMProvider } from '../services/llmProvider';
+import { LLMService } from '../services/llmService';
+import { LLMQuestionSchema, LLMStudyPlanSchema } from '../validators/llmSchemas';
+
+// Replies with the queued responses in order and records every request
+class ScriptedProvider implements LLMProvider {
+    readonly name = 'fake' as const;
+    requests: LLMCompletionRequest[] = [];
+
+    constructor(private replies: string[]) {}
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+        this.requests.push(request);
+        return this.replies.shift() || '{}';
+    }
+}
+
+const chapterText = 'Light travels in straight lines and is reflected by smooth surfaces. '.repeat(3);
+
+describe('LLM output validation', () => {
+    afterEach(() => setLLMProvider(null));
+
+    it('should parse fenced JSON with unescaped LaTeX backslashes', () => {
+        const raw = 'Here you go:\n```json\n{ "question": "Find $\\sqrt{4}$" }\n```';
+        expect(LLMOutputService.parseJson(raw)).toEqual({ question: 'Find $\\sqrt{4}$' });
+    });
+
+    it('should reject an MCQ without four options or a valid answer index', () => {
+        const result = LLMQuestionSchema.safeParse({
+            ...fixture.questions[0],
+            options: ['A', 'B', 'C'],
+            correct_option_index: 5,
+        });
+
+        expect(result.success).toBe(false);
+        const issues = LLMOutputService.formatIssues(result.error!);
+        expect(issues.some((i) => i.startsWith('options:'))).toBe(true);
+        expect(issues.some((i) => i.startsWith('correct_option_index:'))).toBe(true);
+    });
+
+    it('should accept a numeric question with unused fields set to null', () => {
+        const result = LLMQuestionSchema.parse({
+            ...fixture.questions[0],
+            type: 'numeric',
+            options: null,
+            correct_option_index: null,
+            numeric_answer: '4',
+            option_rationales: null,
+        });
+
+        expect(result).toMatchObject({ type: 'numeric', options: [], correct_option_index: -1, numeric_answer: 4 });
+    });
+
+    it('should replace rejected questions through a repair round-trip', async () => {
+        const questions = fixture.questions.map((q) => ({ ...q }));
+        questions[3] = { ...questions[3], options: ['only one'] };
+        const replacement = { ...fixture.questions[3], id: 'Q1' };
+
+        const provider = new ScriptedProvider([
+            JSON.stringify({ questions }),
+            JSON.stringify({ questions: [replacement] }),
+        ]);
+        setLLMProvider(provider);
+
+        const result = await LLMService.generateQuestionsFromText(chapterText, 'Class 8', 'Science', 'Light', 8);
+
+        expect(result).toHaveLength(10);
+        expect(result.map((q) => q.id)).toEqual(fixture.questions.map((_, i) => `Q${i + 1}`));
+        expect(provider.requests).toHaveLength(2);
+        expect(provider.requests[1].followUp?.[1].content).toContain('questions[3].options');
+    });
+
+    it('should fail rather than return a short set when repairs run out', async () => {
+        process.env.LLM_MAX_REPAIR_ATTEMPTS = '1';
+        setLLMProvider(
+            new ScriptedProvider([
+                JSON.stringify({ questions: fixture.questions.slice(0, 8) }),
+                JSON.stringify({ questions: fixture.questions.slice(0, 1) }),
+            ])
+        );
+
+        await expect(
+            LLMService.generateQuestionsFromText(chapterText, 'Class 8', 'Science', 'Light', 8)
+        ).rejects.toThrow('Only 8 of 10 generated questions passed validation');
+        delete process.env.LLM_MAX_REPAIR_ATTEMPTS;
+    });
+
+    it('should repair a study plan that does not match its schema', async () => {
+        const provider = new ScriptedProvider([
+            'not json at all',
+            JSON.stringify({ week_overview: 'Revise', subjects: {}, days: [{ day: 'Monday', tasks: [] }] }),
+        ]);
+        setLLMProvider(provider);
+
+        const plan = await LLMOutputService.completeJson(
+            { task: 'study_plan', systemPrompt: 'plan', userPrompt: '{}' },
+            LLMStudyPlanSchema
+        );
+
+        expect(plan.days[0].day).toBe('Monday');
+        expect(provider.requests[1].followUp?.[1].content).toContain('Reply is not valid JSON');
+    });
+});
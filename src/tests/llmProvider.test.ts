@@ -0,0 +1,39 @@
+import { getLLMTaskSettings } from '../config/llm';
+import { FakeLLMProvider, getLLMProvider, setLLMProvider } from '../services/llmProvider';
+import { LLMService } from '../services/llmService';
+
+describe('LLM provider', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+        process.env = { ...env };
+        setLLMProvider(null);
+    });
+
+    it('should use per-task model and temperature overrides', () => {
+        process.env.LLM_MODEL = 'llama3.1:8b';
+        process.env.LLM_STUDY_PLAN_TEMPERATURE = '0.9';
+
+        expect(getLLMTaskSettings('study_plan')).toEqual({ model: 'llama3.1:8b', temperature: 0.9 });
+        expect(getLLMTaskSettings('explanations').temperature).toBe(0.2);
+    });
+
+    it('should select the fake provider without an API key', () => {
+        delete process.env.OPENAI_API_KEY;
+        process.env.LLM_PROVIDER = 'fake';
+
+        expect(getLLMProvider().name).toBe('fake');
+    });
+
+    it('should generate the same questions from fixtures on every call', async () => {
+        setLLMProvider(new FakeLLMProvider(undefined));
+        const chapterText = 'Light travels in straight lines and is reflected by smooth surfaces. '.repeat(3);
+
+        const first = await LLMService.generateQuestionsFromText(chapterText, 'Class 8', 'Science', 'Light', 8);
+        const second = await LLMService.generateQuestionsFromText(chapterText, 'Class 8', 'Science', 'Light', 8);
+
+        expect(first.length).toBe(10);
+        expect(first).toEqual(second);
+        expect(first[0].explanation).toBeTruthy();
+    });
+});
@@ -0,0 +1,27 @@
+import { OcrService } from '../services/ocrService';
+
+const header = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+const word = (block: number, line: number, n: number, conf: number, text: string) =>
+    `5\t1\t${block}\t1\t${line}\t${n}\t0\t0\t10\t10\t${conf}\t${text}`;
+
+describe('OCR', () => {
+    it('should rebuild lines and blocks from tesseract tsv and average word confidence', () => {
+        const tsv = [
+            header,
+            '1\t1\t0\t0\t0\t0\t0\t0\t100\t100\t-1\t',
+            word(1, 1, 1, 90, 'Chapter'),
+            word(1, 1, 2, 80, '8'),
+            word(1, 2, 1, 70, 'Motion'),
+            '4\t1\t2\t1\t1\t0\t0\t0\t100\t10\t-1\t',
+            word(2, 1, 1, 60, 'Velocity'),
+            word(2, 1, 2, -1, ' '),
+        ].join('\n');
+
+        expect(OcrService.parseTesseractTsv(tsv)).toEqual({ text: 'Chapter 8\nMotion\n\nVelocity', confidence: 75 });
+    });
+
+    it('should only OCR pages whose text layer is nearly empty', () => {
+        expect(OcrService.needsOcr(' \n 12 \n', 50)).toBe(true);
+        expect(OcrService.needsOcr('Motion is a change of position with time. '.repeat(3), 50)).toBe(false);
+    });
+});
@@ -0,0 +1,62 @@
+import fixture from '../fixtures/llm/question_generation.json';
+import { setLLMProvider, type LLMCompletionRequest, type LLMProvider } from '../services/llmProvider';
+import { LLMService } from '../services/llmService';
+
+// Answers every request with the fixture questions and records the requests
+class RecordingProvider implements LLMProvider {
+    readonly name = 'fake' as const;
+    requests: LLMCompletionRequest[] = [];
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+        this.requests.push(request);
+        return JSON.stringify(fixture);
+    }
+}
+
+const chapterText = 'Light travels in straight lines and is reflected by smooth surfaces. '.repeat(3);
+
+describe('Question count and difficulty label', () => {
+    afterEach(() => {
+        setLLMProvider(null);
+        delete process.env.LLM_MAX_REPAIR_ATTEMPTS;
+    });
+
+    it('should scale the question mix with the set size', () => {
+        expect(LLMService.questionMix(10)).toEqual({ numerical: 3, reasoning: 3, memory: 2, language: 2 });
+        expect(LLMService.questionMix(5)).toEqual({ numerical: 1, reasoning: 1, memory: 1, language: 1 });
+        expect(LLMService.questionMix(30)).toEqual({ numerical: 9, reasoning: 9, memory: 6, language: 6 });
+        expect(LLMService.setDifficultyLevel([3, 4, 5])).toBe(2);
+        expect(LLMService.setDifficultyLevel([9, 10])).toBe(5);
+    });
+
+    it('should generate the requested number of questions when the label matches', async () => {
+        const provider = new RecordingProvider();
+        setLLMProvider(provider);
+
+        // The fixture averages a difficulty score of 3.9, i.e. set level 2
+        const result = await LLMService.generateQuestionsFromText(chapterText, 'Class 8', 'Science', 'Light', 8, undefined, {
+            questionCount: 5,
+            difficultyLabel: 'easy',
+        });
+
+        expect(result.map((q) => q.id)).toEqual(['Q1', 'Q2', 'Q3', 'Q4', 'Q5']);
+        expect(provider.requests).toHaveLength(1);
+        expect(provider.requests[0].systemPrompt).toContain('Generate EXACTLY 5 multiple-choice questions');
+        expect(provider.requests[0].systemPrompt).toContain('DIFFICULTY LABEL: EASY');
+    });
+
+    it('should regenerate and then fail when the set misses the label', async () => {
+        process.env.LLM_MAX_REPAIR_ATTEMPTS = '1';
+        const provider = new RecordingProvider();
+        setLLMProvider(provider);
+
+        await expect(
+            LLMService.generateQuestionsFromText(chapterText, 'Class 8', 'Science', 'Light', 8, undefined, {
+                difficultyLabel: 'hard',
+            })
+        ).rejects.toThrow('difficulty level 2, outside 4-5 required for "hard"');
+
+        expect(provider.requests).toHaveLength(2);
+        expect(provider.requests[1].userPrompt).toContain('Make the questions harder');
+    });
+});
@@ -0,0 +1,29 @@
+import { QuestionPoolService } from '../services/questionPoolService';
+
+const sets = [
+    { set_id: 'set_a', difficulty_level: 3 },
+    { set_id: 'set_b', difficulty_level: 3 },
+    { set_id: 'set_c', difficulty_level: 2 },
+];
+
+describe('Question pools', () => {
+    it('should stop counting a set once half of the topic students attempted it', () => {
+        const health = QuestionPoolService.assessTopic('Motion', 'Velocity', sets, { set_a: 6, set_b: 4 }, 10, 0, 3);
+
+        expect(health).toMatchObject({ total_sets: 3, available_sets: 2, consumed_sets: 1, needs_refill: true });
+        expect(health.available_by_level).toEqual({ 1: 0, 2: 1, 3: 1, 4: 0, 5: 0 });
+    });
+
+    it('should count queued jobs toward the minimum and treat untouched topics as available', () => {
+        expect(QuestionPoolService.assessTopic('Motion', 'Velocity', sets, {}, 0, 0, 3).needs_refill).toBe(false);
+        expect(QuestionPoolService.assessTopic('Motion', 'Velocity', sets.slice(0, 1), {}, 0, 2, 3).needs_refill).toBe(false);
+        expect(QuestionPoolService.assessTopic('Motion', 'Velocity', [], {}, 0, 1, 3).needs_refill).toBe(true);
+    });
+
+    it('should refill the thinnest difficulty levels first', () => {
+        const health = QuestionPoolService.assessTopic('Motion', 'Velocity', sets, {}, 0, 0, 5);
+
+        expect(QuestionPoolService.levelsToRefill(health, 2)).toEqual([4, 1]);
+        expect(QuestionPoolService.levelsToRefill(health, 0)).toEqual([]);
+    });
+});
@@ -0,0 +1,106 @@
+import { QuizSessionService } from '../services/quizSessionService';
+import { AttemptService } from '../services/attemptService';
+import { makeMcq } from './helpers/fixtures';
+
+describe('Quiz delivery', () => {
+    const questions = [makeMcq('Q1', 0), makeMcq('Q2', 3), makeMcq('Q3', 1)].map((q) => ({
+        ...q,
+        explanation: `Explanation for ${q.id}`,
+        option_rationales: ['a', 'b', 'c', 'd'],
+    }));
+
+    it('should never expose the answer key', () => {
+        const publicQuestions = QuizSessionService.toPublicQuestions(questions);
+        publicQuestions.forEach((q) => {
+            expect(q).not.toHaveProperty('correct_option_index');
+            expect(q).not.toHaveProperty('features');
+            expect(q).not.toHaveProperty('difficulty_score');
+            expect(q).not.toHaveProperty('explanation');
+            expect(q).not.toHaveProperty('option_rationales');
+        });
+    });
+
+    it('should deliver every question with a permutation of its options', () => {
+        const delivery = QuizSessionService.buildDeliveryOrder(questions);
+        expect([...delivery.question_ids].sort()).toEqual(['Q1', 'Q2', 'Q3']);
+        Object.values(delivery.option_orders).forEach((order) => {
+            expect([...order].sort()).toEqual([0, 1, 2, 3]);
+        });
+    });
+
+    it('should map the displayed correct option back to the canonical index', () => {
+        const delivery = QuizSessionService.buildDeliveryOrder(questions);
+        const publicQuestions = QuizSessionService.toPublicQuestions(questions, delivery);
+
+        expect(publicQuestions.map((q) => q.id)).toEqual(delivery.question_ids);
+
+        publicQuestions.forEach((pq) => {
+            const original = questions.find((q) => q.id === pq.id)!;
+            const displayedCorrect = pq.options.indexOf(original.options[original.correct_option_index]);
+            const canonical = AttemptService.toCanonicalOptionIndex(
+                displayedCorrect,
+                delivery.option_orders[pq.id]
+            );
+            expect(canonical).toBe(original.correct_option_index);
+        });
+    });
+
+    it('should leave unanswered selections untouched', () => {
+        expect(AttemptService.toCanonicalOptionIndex(-1, [2, 0, 3, 1])).toBe(-1);
+    });
+
+    it('should let submitted answers override saved drafts', () => {
+        const merged = QuizSessionService.mergeWithSavedAnswers({ saved_answers: { Q1: 2, Q2: 1 } }, [
+            { question_id: 'Q2', selected_option_index: 3 },
+            { question_id: 'Q3', selected_option_index: 0 },
+        ]);
+        expect(merged).toEqual([
+            { question_id: 'Q1', response: 2 },
+            { question_id: 'Q2', selected_option_index: 3 },
+            { question_id: 'Q3', selected_option_index: 0 },
+        ]);
+    });
+
+    it('should grade a partial submission against every delivered question', () => {
+        const answers = QuizSessionService.completeAnswers(
+            ['Q1', 'Q2', 'Q3'],
+            [
+                { question_id: 'Q1', selected_option_index: 0 },
+                { question_id: 'Q9', selected_option_index: 0 },
+            ]
+        );
+        expect(answers).toEqual([
+            { question_id: 'Q1', selected_option_index: 0 },
+            { question_id: 'Q2', selected_option_index: -1 },
+            { question_id: 'Q3', selected_option_index: -1 },
+        ]);
+
+        const graded = answers.map((answer) =>
+            AttemptService.buildGradedAnswer(
+                answer.question_id,
+                questions.find((q) => q.id === answer.question_id),
+                answer.selected_option_index
+            )
+        );
+        const score = AttemptService.scoreAnswers(graded, questions.length);
+
+        expect(score).toMatchObject({ total_questions: 3, correct_count: 1, incorrect_count: 2 });
+        expect(score.score_percentage).toBeCloseTo(33.33, 2);
+
+        // Answers that were never recorded still count against the quiz
+        expect(AttemptService.scoreAnswers(graded.slice(0, 1), questions.length).score_percentage).toBeCloseTo(33.33, 2);
+    });
+
+    it('should only reveal answers for attempts submitted through a quiz session', () => {
+        const submittedAt = new Date('2026-03-01T10:00:00Z');
+        const attempt = { attempt_id: 'attempt_1', session_id: 'session_1', submitted_at: submittedAt };
+        const session = { status: 'submitted' as const, attempt_id: 'attempt_1' };
+
+        expect(QuizSessionService.isReviewable(attempt, session)).toBe(true);
+        expect(QuizSessionService.isReviewable(attempt, { status: 'active', attempt_id: undefined })).toBe(false);
+        expect(QuizSessionService.isReviewable(attempt, { ...session, attempt_id: 'attempt_2' })).toBe(false);
+
+        // Legacy submissions have no session
+        expect(QuizSessionService.isReviewable({ attempt_id: 'attempt_3', submitted_at: submittedAt }, null)).toBe(false);
+    });
+});
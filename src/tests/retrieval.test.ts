@@ -0,0 +1,40 @@
+import { RetrievalService } from '../services/retrievalService';
+
+const filler = 'Matter is made of tiny particles that have space between them. '.repeat(60);
+const longText = [
+    filler,
+    'Chapter 8 Motion. Velocity is the rate of change of displacement. Acceleration is the rate of change of velocity.',
+    filler,
+].join('\n\n');
+
+describe('Topic retrieval', () => {
+    it('should split text into overlapping chunks that cover all of it', () => {
+        const chunks = RetrievalService.chunkText(longText, 500, 100);
+
+        expect(chunks[0].start).toBe(0);
+        expect(chunks[chunks.length - 1].end).toBe(longText.length);
+        chunks.slice(1).forEach((chunk, i) => {
+            expect(chunk.start).toBeLessThan(chunks[i].end);
+            expect(chunk.chunk_id).toBe(`c${i + 1}`);
+        });
+    });
+
+    it('should send the passage about the topic even when it is far into the text', () => {
+        const context = RetrievalService.retrieveContext(longText, 'Motion Velocity Velocity', 1500);
+
+        expect(context.matched).toBe(true);
+        expect(context.text).toContain('Velocity is the rate of change of displacement');
+        expect(context.text.length).toBeLessThan(1700);
+        expect(context.text.startsWith('[c')).toBe(true);
+    });
+
+    it('should ground a question in its cited chunks or else the best matching one', () => {
+        const chunks = RetrievalService.chunkText(longText, 500, 100);
+
+        expect(RetrievalService.groundQuestion(chunks, 'anything', ['c0', 'c99'])).toEqual([
+            { chunk_id: 'c0', start: chunks[0].start, end: chunks[0].end },
+        ]);
+        const [grounded] = RetrievalService.groundQuestion(chunks, 'What is the rate of change of displacement?');
+        expect(longText.slice(grounded.start, grounded.end)).toContain('displacement');
+    });
+});
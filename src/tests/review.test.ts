@@ -0,0 +1,74 @@
+import { ReviewService } from '../services/reviewService';
+import type { QuestionSetAttempt } from '../types/questionSet';
+
+describe('Spaced repetition scheduling', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    const fresh = { ease_factor: 2.5, interval_days: 1, repetitions: 0, lapses: 0, due_at: now };
+
+    it('should grow the interval 1 -> 6 -> interval x ease on correct reviews', () => {
+        const first = ReviewService.schedule(fresh, 4, now);
+        expect(first.interval_days).toBe(1);
+        expect(first.repetitions).toBe(1);
+
+        const second = ReviewService.schedule(first, 4, now);
+        expect(second.interval_days).toBe(6);
+
+        const third = ReviewService.schedule(second, 4, now);
+        expect(third.interval_days).toBe(Math.round(6 * second.ease_factor));
+        expect(third.due_at.getTime()).toBe(now.getTime() + third.interval_days * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reset on a lapse and never drop ease below 1.3', () => {
+        let schedule = { ...fresh, repetitions: 3, interval_days: 15 };
+        for (let i = 0; i < 10; i++) {
+            schedule = ReviewService.schedule(schedule, 1, now);
+        }
+        expect(schedule.repetitions).toBe(0);
+        expect(schedule.interval_days).toBe(1);
+        expect(schedule.lapses).toBe(10);
+        expect(schedule.ease_factor).toBe(1.3);
+    });
+
+    it('should map credit to SM-2 quality', () => {
+        expect(ReviewService.qualityFromCredit(1, true)).toBe(4);
+        expect(ReviewService.qualityFromCredit(0.5, true)).toBe(3);
+        expect(ReviewService.qualityFromCredit(0, true)).toBe(1);
+        expect(ReviewService.qualityFromCredit(0, false)).toBe(0);
+    });
+
+    it('should count a lapse when a queued question is missed again', () => {
+        const attempt = {
+            attempt_id: 'attempt_1',
+            student_id: 'student_1',
+            set_id: 'set_1',
+            answers: [
+                { question_id: 'q1', is_correct: false },
+                { question_id: 'q2', is_correct: true },
+            ],
+        } as unknown as QuestionSetAttempt;
+
+        // Apply the writes the way an ordered bulkWrite would, keyed by question
+        const items = new Map<string, any>();
+        const queue = () => {
+            for (const write of ReviewService.missedAnswerWrites(attempt, now) as any[]) {
+                const { filter, update, upsert } = write.updateOne;
+                const item = items.get(filter.question_id);
+                if (item) {
+                    Object.assign(item, update.$set);
+                    for (const [field, by] of Object.entries(update.$inc || {})) item[field] += by;
+                } else if (upsert) {
+                    items.set(filter.question_id, { ...update.$set, ...update.$setOnInsert });
+                }
+            }
+        };
+
+        queue();
+        expect(items.get('q1').lapses).toBe(0);
+        expect(items.has('q2')).toBe(false);
+
+        items.get('q1').repetitions = 2;
+        queue();
+        expect(items.get('q1').lapses).toBe(1);
+        expect(items.get('q1').repetitions).toBe(0);
+    });
+});
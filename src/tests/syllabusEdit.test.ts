@@ -0,0 +1,80 @@
+import { SyllabusEditService } from '../services/syllabusEditService';
+import { SyllabusService } from '../services/syllabusService';
+import { Chapter } from '../types/syllabus';
+
+const chapters: Chapter[] = [
+    {
+        chapterId: 'ch_1',
+        chapterName: 'Matter',
+        topics: [
+            { topicId: 't_1', topicName: 'States of matter' },
+            { topicId: 't_2', topicName: 'Evaporation' },
+            { topicId: 't_3', topicName: 'Motion basics' },
+        ],
+    },
+    { chapterId: 'ch_2', chapterName: 'Motion', topics: [{ topicId: 't_4', topicName: 'Velocity' }] },
+    { chapterId: 'ch_3', chapterName: 'Sound', topics: [{ topicId: 't_5', topicName: 'Echo' }] },
+];
+
+const names = (list: Chapter[]) => list.map((chapter) => chapter.chapterName);
+
+describe('Syllabus editing', () => {
+    it('should split, merge and reorder chapters, locking what was edited', () => {
+        const split = SyllabusEditService.splitChapter(chapters, 'ch_1', 't_3', 'Motion intro');
+        expect(names(split)).toEqual(['Matter', 'Motion intro', 'Motion', 'Sound']);
+        expect(split[1].topics.map((topic) => topic.topicId)).toEqual(['t_3']);
+        expect(split[1]).toMatchObject({ source: 'manual', locked: true });
+
+        const merged = SyllabusEditService.mergeChapters(split, [split[2].chapterId, split[1].chapterId]);
+        expect(names(merged)).toEqual(['Matter', 'Motion', 'Sound']);
+        expect(merged[1].topics.map((topic) => topic.topicName)).toEqual(['Velocity', 'Motion basics']);
+        expect(merged[1].locked).toBe(true);
+
+        const reordered = SyllabusEditService.reorderChapters(merged, ['ch_3', 'ch_1', 'ch_2']);
+        expect(names(reordered)).toEqual(['Sound', 'Matter', 'Motion']);
+    });
+
+    it('should reject invalid edits', () => {
+        expect(() => SyllabusEditService.reorderChapters(chapters, ['ch_1', 'ch_2'])).toThrow();
+        expect(() => SyllabusEditService.updateChapter(chapters, 'ch_2', { chapterName: 'sound' })).toThrow();
+        expect(() => SyllabusEditService.splitChapter(chapters, 'ch_1', 't_1', 'Nothing before')).toThrow();
+        expect(() => SyllabusEditService.deleteTopic(chapters, 'ch_2', 'missing')).toThrow();
+    });
+
+    it('should keep locked chapters and topics when the syllabus is re-parsed', () => {
+        let curated = SyllabusEditService.updateChapter(chapters, 'ch_1', { chapterName: 'Matter Around Us' });
+        curated = SyllabusEditService.addTopic(curated, 'ch_2', { topicName: 'Acceleration' });
+
+        const parsed: Chapter[] = [
+            { chapterId: 'ch_1', chapterName: 'Matter', topics: [{ topicId: 't_1', topicName: 'Solids' }] },
+            { chapterId: 'ch_2', chapterName: 'Motion', topics: [{ topicId: 't_1', topicName: 'Speed' }] },
+        ];
+        const result = SyllabusEditService.mergeReparsedChapters(curated, parsed);
+
+        // The renamed chapter no longer matches a parsed name and stays at its old position
+        expect(names(result)).toEqual(['Matter Around Us', 'Matter', 'Motion']);
+        expect(result[0]).toBe(curated[0]);
+        expect(result[1].chapterId).not.toBe('ch_1');
+        expect(result[2].topics.map((topic) => topic.topicName)).toEqual(['Speed', 'Acceleration']);
+        expect(result.every((chapter) => chapter.source === 'ai' || chapter.locked)).toBe(true);
+    });
+
+    it('should only let school admins use their own school\'s syllabi', () => {
+        const schoolAdmin = { role: 'school_admin', schoolId: 'school_001' };
+
+        expect(() => SyllabusEditService.assertAccess({}, { role: 'super_admin' }, 'write')).not.toThrow();
+        expect(() => SyllabusEditService.assertAccess({ schoolId: 'school_001' }, schoolAdmin, 'write')).not.toThrow();
+        expect(() => SyllabusEditService.assertAccess({}, schoolAdmin, 'read')).not.toThrow();
+        expect(() => SyllabusEditService.assertAccess({}, schoolAdmin, 'write')).toThrow();
+        expect(() => SyllabusEditService.assertAccess({ schoolId: 'school_002' }, schoolAdmin, 'read')).toThrow();
+    });
+
+    it('should only let school admins parse their own school\'s uploads', () => {
+        const schoolAdmin = { role: 'school_admin', schoolId: 'school_001' };
+        expect(() => SyllabusService.assertDocumentAccess({ school_id: null }, { role: 'super_admin' })).not.toThrow();
+        expect(() => SyllabusService.assertDocumentAccess({ school_id: 'school_001' }, schoolAdmin)).not.toThrow();
+        expect(() => SyllabusService.assertDocumentAccess({ school_id: 'school_002' }, schoolAdmin)).toThrow();
+        expect(() => SyllabusService.assertDocumentAccess({ school_id: null }, schoolAdmin)).toThrow();
+        expect(() => SyllabusService.assertDocumentAccess({ school_id: null }, { role: 'school_admin' })).toThrow();
+    });
+});
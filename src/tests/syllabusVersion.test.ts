@@ -0,0 +1,77 @@
+import { SyllabusVersionService } from '../services/syllabusVersionService';
+import { Chapter } from '../types/syllabus';
+
+const previous: Chapter[] = [
+    {
+        chapterId: 'ch_a',
+        chapterName: 'Motion',
+        topics: [
+            { topicId: 't_a1', topicName: 'Speed and Velocity' },
+            { topicId: 't_a2', topicName: 'Graphs of Motion' },
+        ],
+    },
+    { chapterId: 'ch_b', chapterName: 'Sound', topics: [{ topicId: 't_b1', topicName: 'Echo' }] },
+];
+
+// An AI re-parse: positional ids, a reworded topic, a renamed chapter
+const reparsed: Chapter[] = [
+    {
+        chapterId: 'ch1',
+        chapterName: 'Motion',
+        topics: [
+            { topicId: 't1', topicName: 'Speed and Velocity' },
+            { topicId: 't2', topicName: 'Distance-Time Graphs of Motion' },
+        ],
+    },
+    { chapterId: 'ch2', chapterName: 'Sound Waves', topics: [{ topicId: 't3', topicName: 'Echo' }] },
+];
+
+describe('Syllabus versions', () => {
+    it('should keep ids of chapters and topics found again by name', () => {
+        const next = SyllabusVersionService.assignStableIds(previous, reparsed);
+
+        expect(next[0].chapterId).toBe('ch_a');
+        expect(next[0].topics.map((topic) => topic.topicId)).toEqual(['t_a1', expect.stringMatching(/^t_/)]);
+        expect(next[0].topics[1].topicId).not.toBe('t_a2');
+        // The chapter is new, but its only topic moved with the same name
+        expect(next[1].chapterId).toMatch(/^ch_/);
+        expect(next[1].chapterId).not.toBe('ch_b');
+        expect(next[1].topics[0].topicId).toBe('t_b1');
+    });
+
+    it('should diff versions and suggest successors for removed topics', () => {
+        const next = SyllabusVersionService.assignStableIds(previous, reparsed);
+        const diff = SyllabusVersionService.diffChapters(previous, next);
+
+        expect(diff.chapters.added.map((c) => c.chapterName)).toEqual(['Sound Waves']);
+        expect(diff.chapters.removed.map((c) => c.chapterName)).toEqual(['Sound']);
+        expect(diff.topics.removed.map((t) => t.topicName)).toEqual(['Graphs of Motion']);
+        expect(diff.topics.moved.map(({ from, to }) => [from.chapterName, to.chapterName])).toEqual([
+            ['Sound', 'Sound Waves'],
+        ]);
+        expect(diff.repoints.map(({ to }) => to.topicId)).toEqual(['t_b1']);
+        expect(diff.suggestedMappings).toEqual([
+            expect.objectContaining({
+                from: expect.objectContaining({ topicId: 't_a2' }),
+                to: expect.objectContaining({ topicName: 'Distance-Time Graphs of Motion' }),
+                similarity: 0.6,
+            }),
+        ]);
+    });
+
+    it('should only migrate removed topics through confirmed mappings', () => {
+        const chapters = SyllabusVersionService.assignStableIds(previous, reparsed);
+        const version = { chapters, diff: SyllabusVersionService.diffChapters(previous, chapters) };
+        const newTopicId = chapters[0].topics[1].topicId;
+
+        expect(SyllabusVersionService.resolveRepoints(version, undefined)).toHaveLength(1);
+
+        const repoints = SyllabusVersionService.resolveRepoints(version, [{ fromTopicId: 't_a2', toTopicId: newTopicId }]);
+        expect(repoints.map(({ from, to }) => [from.topicName, to.topicName])).toEqual([
+            ['Echo', 'Echo'],
+            ['Graphs of Motion', 'Distance-Time Graphs of Motion'],
+        ]);
+
+        expect(() => SyllabusVersionService.resolveRepoints(version, [{ fromTopicId: 't_a1', toTopicId: newTopicId }])).toThrow();
+    });
+});
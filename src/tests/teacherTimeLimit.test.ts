@@ -0,0 +1,28 @@
+import { TeacherService } from '../services/teacherService';
+
+describe('Teacher quiz time limits', () => {
+    const assignment = {
+        subject_map: [
+            { class_id: 'class_9a', subject_id: 'Physics' },
+            { class_id: 'class_9b', subject_id: 'Chemistry' },
+        ],
+    };
+
+    it('should only cover the mapped subject of the student\'s class', () => {
+        expect(TeacherService.coversSubject(assignment, 'class_9a', 'physics')).toBe(true);
+        expect(TeacherService.coversSubject(assignment, 'class_9a', 'Chemistry')).toBe(false);
+        expect(TeacherService.coversSubject(assignment, 'class_9b', 'Physics')).toBe(false);
+        expect(TeacherService.coversSubject({}, 'class_9a', 'Physics')).toBe(false);
+    });
+
+    it('should reject time limits on assignments without a subject', async () => {
+        await expect(
+            TeacherService.createAssignment('teacher_001', {
+                type: 'class',
+                school_id: 'school_001',
+                class_ids: ['class_9a'],
+                quiz_time_limit_seconds: 600,
+            })
+        ).rejects.toMatchObject({ status: 400 });
+    });
+});
@@ -0,0 +1,44 @@
+import { UploadScanService } from '../services/uploadScanService';
+import { DocumentTextService } from '../services/documentTextService';
+
+describe('Upload scanning', () => {
+    it('should read clean and infected verdicts from clamd replies', () => {
+        expect(UploadScanService.parseClamdReply('stream: OK\0')).toEqual({ clean: true });
+        expect(UploadScanService.parseClamdReply('stream: Win.Test.EICAR_HDB-1 FOUND\0')).toEqual({
+            clean: false,
+            signature: 'Win.Test.EICAR_HDB-1',
+        });
+    });
+
+    it('should treat clamd errors as a failed scan, not a clean file', () => {
+        expect(() => UploadScanService.parseClamdReply('INSTREAM size limit exceeded. ERROR\0')).toThrow('ClamAV scan failed');
+        expect(() => UploadScanService.parseClamdReply('')).toThrow('empty reply');
+    });
+
+    it('should pass files through when no scanner is configured', async () => {
+        await expect(UploadScanService.scan(Buffer.from('%PDF-1.7'))).resolves.toEqual({ clean: true, scanner: 'none' });
+    });
+});
+
+describe('Upload deduplication', () => {
+    const matches = (doc: Record<string, unknown>, filter: Record<string, unknown>) =>
+        Object.entries(filter).every(([field, value]) => (doc[field] ?? null) === value);
+
+    it('should only find a duplicate among uploads by the same school', () => {
+        const contentHash = DocumentTextService.hashContent(Buffer.from('%PDF-1.7 same syllabus'));
+        const uploadedBySchoolA = { documentId: 'doc_a', content_hash: contentHash, school_id: 'school_a' };
+
+        expect(matches(uploadedBySchoolA, DocumentTextService.duplicateFilter(contentHash, 'school_a'))).toBe(true);
+        expect(matches(uploadedBySchoolA, DocumentTextService.duplicateFilter(contentHash, 'school_b'))).toBe(false);
+        expect(matches(uploadedBySchoolA, DocumentTextService.duplicateFilter(contentHash, undefined))).toBe(false);
+    });
+
+    it('should treat board syllabi (no school) as their own tenant', () => {
+        const contentHash = DocumentTextService.hashContent(Buffer.from('%PDF-1.7 board syllabus'));
+        const boardUpload = { documentId: 'doc_board', content_hash: contentHash };
+
+        expect(DocumentTextService.duplicateFilter(contentHash, '')).toEqual({ content_hash: contentHash, school_id: null });
+        expect(matches(boardUpload, DocumentTextService.duplicateFilter(contentHash))).toBe(true);
+        expect(matches(boardUpload, DocumentTextService.duplicateFilter(contentHash, 'school_a'))).toBe(false);
+    });
+});
@@ -0,0 +1,71 @@
+// src/types/itemAnalysis.ts
+/**
+ * TypeScript interfaces for the teacher item analysis report
+ */
+
+import type { QuestionType } from './questionSet';
+
+// ============================================================
+// ITEM ANALYSIS TYPES
+// ============================================================
+
+/**
+ * Scope of a report: a school, optionally narrowed to a class and syllabus
+ */
+export interface ItemAnalysisFilter {
+  school_id: string;
+  class_number?: number;
+  class_id?: string;               // Section, e.g. "Class 9" (matched through student records)
+  subject?: string;
+  chapter?: string;
+  topic?: string;
+}
+
+export type ItemFlag =
+  | 'distractor_over_key'          // A wrong option was chosen more often than the keyed answer
+  | 'negative_discrimination'      // Weaker students did better on the item than stronger ones
+  | 'low_discrimination'           // Item barely separates stronger from weaker students
+  | 'too_easy'
+  | 'too_hard';
+
+/**
+ * How often one option was chosen
+ */
+export interface OptionAnalysis {
+  option_index: number;            // Canonical (un-shuffled) index
+  text: string;
+  is_key: boolean;
+  count: number;
+  percentage: number;              // Share of answered responses (0-100)
+}
+
+export interface QuestionAnalysis {
+  question_id: string;
+  question: string;
+  type: QuestionType;
+  responses: number;               // Students who answered the question
+  omitted: number;                 // Students who left it blank
+  percent_correct: number;         // Full-credit responses (0-100)
+  p_value: number;                 // Mean credit (0-1)
+  discrimination_index: number | null;  // Upper 27% minus lower 27% mean credit
+  point_biserial: number | null;   // Corrected item-rest correlation
+  options: OptionAnalysis[];       // Empty for numeric, fill-in-the-blank and match questions
+  flags: ItemFlag[];
+}
+
+export interface SetItemAnalysis {
+  set_id: string;
+  subject: string;
+  chapter: string;
+  topic: string;
+  difficulty_level: number;
+  students: number;                // First attempts included in the report
+  mean_score_percentage: number;
+  flags_reliable: boolean;         // Enough students for the flags to be meaningful
+  flagged_question_count: number;
+  questions: QuestionAnalysis[];
+}
+
+export type SetItemAnalysisSummary = Omit<SetItemAnalysis, 'questions'> & {
+  last_submitted_at: Date;
+};
@@ -0,0 +1,47 @@
+// src/types/questionPool.ts
+/**
+ * TypeScript interfaces for pre-warmed question set pools
+ */
+
+// ============================================================
+// QUESTION POOL TYPES
+// ============================================================
+
+/**
+ * Pool state of one syllabus topic
+ * A set is available while fewer than the consumed share of the topic's
+ * students have attempted it
+ */
+export interface TopicPoolHealth {
+  chapter: string;
+  topic: string;
+  total_sets: number;
+  available_sets: number;
+  consumed_sets: number;
+  pending_jobs: number;            // Generation jobs queued or running for the topic
+  students: number;                // Distinct students who attempted the topic
+  available_by_level: Record<number, number>;  // difficulty_level (1-5) -> available sets
+  needs_refill: boolean;           // available_sets + pending_jobs below the minimum
+}
+
+/**
+ * Pool health of one class and subject (one syllabus)
+ */
+export interface SubjectPoolHealth {
+  class_number: number;
+  class_label: string;
+  subject: string;
+  board: string;
+  school_id?: string;              // Set for a school's own syllabus
+  min_sets_per_topic: number;
+  topic_count: number;
+  healthy_topics: number;
+  topics_needing_refill: number;
+  topics: TopicPoolHealth[];
+}
+
+export interface PoolRefillResult {
+  topics_checked: number;
+  topics_needing_refill: number;
+  jobs_queued: number;
+}
@@ -16,14 +16,69 @@ export interface QuestionFeatures {
   language: number;       // 0-1
 }
 
-export interface Question {
+/**
+ * Supported question formats. Questions without a type are "mcq".
+ */
+export type QuestionType =
+  | 'mcq'            // Single correct option
+  | 'multi_select'   // One or more correct options
+  | 'true_false'     // options: ["True", "False"]
+  | 'numeric'        // Numeric entry, graded within a tolerance
+  | 'fill_blank'     // Free text, graded against accepted variants
+  | 'match';         // Match each left item to one of the options (right column)
+
+/**
+ * Type-specific question fields (answer keys and extra prompts)
+ */
+export interface QuestionTypeFields {
+  type?: QuestionType;               // Default "mcq"
+  correct_option_indices?: number[]; // multi_select
+  numeric_answer?: number;           // numeric
+  numeric_tolerance?: number;        // numeric: absolute tolerance, default 0
+  unit?: string;                     // numeric: display unit, e.g. "m/s"
+  accepted_answers?: string[];       // fill_blank: accepted variants (case/space-insensitive)
+  match_left?: string[];             // match: items to be matched against options
+  correct_matches?: number[];        // match: correct option index for each left item
+}
+
+/**
+ * Worked solution shown after submission
+ */
+export interface QuestionExplanation {
+  explanation?: string;              // Why the answer is correct (worked steps for numerical)
+  option_rationales?: string[];      // Why each option is right or wrong, same order as options
+}
+
+/**
+ * Passage of the extracted chapter text a generated question is grounded in
+ */
+export interface SourceChunk {
+  chunk_id: string;                // e.g. "c12": chunk number in the extracted text
+  start: number;                   // Character offsets in the extracted text
+  end: number;
+}
+
+/**
+ * Empirical item statistics estimated from attempts (classical test theory)
+ */
+export interface ItemCalibration {
+  p_value: number;                 // Mean credit earned (0-1), higher = easier
+  difficulty: number;              // 1 - p_value (0-1), higher = harder
+  discrimination: number | null;   // Corrected point-biserial (-1..1); null if undefined
+  sample_size: number;             // Responses used
+  calibrated_at: Date;
+}
+
+export interface Question extends QuestionTypeFields, QuestionExplanation {
   id: string;                      // e.g. "Q1", "Q2"
   question: string;                // Can contain LaTeX
-  options: string[];               // Array of 4 options
-  correct_option_index: number;    // 0-3
+  options: string[];               // Array of 4 options (mcq); [] for numeric / fill_blank
+  correct_option_index: number;    // 0-3 for mcq / true_false, -1 for other types
   skills: string[];                // e.g. ["numerical", "reasoning"]
   features: QuestionFeatures;
-  difficulty_score: number;        // 0-1
+  difficulty_score: number;        // LLM estimate from features
+  calibration?: ItemCalibration;   // Set once enough students have answered
+  source_chunks?: SourceChunk[];   // Chapter text passages the question was generated from
 }
 
 export interface QuestionSet {
@@ -34,21 +89,69 @@ export interface QuestionSet {
   subject: string;                 // Normalized subject name
   chapter: string;
   topic: string;
+  chapter_id?: string;             // Stable syllabus ids; missing when the topic is not in a syllabus
+  topic_id?: string;
+  board?: string;                  // Curriculum board; missing on sets from before boards (default board)
+  curriculum_school_id?: string;   // Generated from this school's own syllabus; reused only there
   questions: Question[];
-  difficulty_level: number;        // Overall set difficulty (numeric 1-10)
-  difficulty_label?: string;       // "easy" | "medium" | "hard" | "adaptive"
+  difficulty_level: number;        // Overall set difficulty (calibrated once available)
+  llm_difficulty_level?: number;   // Original LLM estimate, kept when calibration overrides it
+  calibrated_at?: Date;            // Last item calibration run for this set
+  difficulty_label?: string;       // Requested "easy" | "medium" | "hard"; missing for adaptive sets (older ones: "adaptive")
+  time_limit_seconds?: number;     // Optional: quiz time limit for this set
   created_at: Date;
   created_by?: string;             // Optional: student_id who triggered generation
 }
 
+/**
+ * Question as delivered to the student - no answer key or scoring metadata
+ */
+export type PublicQuestion = Omit<
+  Question,
+  | 'correct_option_index'
+  | 'correct_option_indices'
+  | 'numeric_answer'
+  | 'numeric_tolerance'
+  | 'accepted_answers'
+  | 'correct_matches'
+  | 'explanation'
+  | 'option_rationales'
+  | 'calibration'
+  | 'features'
+  | 'difficulty_score'
+  | 'source_chunks'
+>;
+
 // ============================================================
 // ATTEMPT TYPES
 // ============================================================
 
+/**
+ * Student response to a question:
+ * - mcq / true_false: option index
+ * - multi_select: option indices
+ * - numeric: the value entered
+ * - fill_blank: the text entered
+ * - match: option index chosen for each left item
+ */
+export type AnswerValue = number | number[] | string;
+
+/**
+ * Answer as submitted by the client
+ * MCQ clients may keep sending selected_option_index; other types use response
+ */
+export interface AnswerInput {
+  question_id: string;
+  selected_option_index?: number;  // mcq / true_false, as displayed
+  response?: AnswerValue;          // Any type, option indices as displayed
+}
+
 export interface QuestionAnswer {
   question_id: string;             // e.g. "Q1"
-  selected_option_index: number;   // 0-3
-  is_correct: boolean;
+  selected_option_index: number;   // 0-3, canonical (un-shuffled) index; -1 for other types
+  response?: AnswerValue;          // Canonical response for non-MCQ types
+  is_correct: boolean;             // Full credit only
+  credit?: number;                 // 0-1 partial credit (absent on older attempts)
 }
 
 export interface QuestionSetAttempt {
@@ -57,21 +160,144 @@ export interface QuestionSetAttempt {
   student_id: string;
   school_id: string;
   set_id: string;                  // Reference to question_sets
+  session_id?: string;             // Reference to quiz_sessions (V2 flow only)
+  question_order?: string[];       // Delivered question order (V2 flow only)
+  option_orders?: OptionOrders;    // Delivered option shuffle; answers are stored canonical
   class_number: number;
   class_label: string;
   subject: string;
   chapter: string;
   topic: string;
+  chapter_id?: string;             // Copied from the question set
+  topic_id?: string;
+  board?: string;
+  curriculum_school_id?: string;
   answers: QuestionAnswer[];
-  score_total: number;             // 0-100
+  score_total: number;             // Sum of per-question credit
   score_percentage: number;        // 0-100
   total_questions: number;
   correct_count: number;
   incorrect_count: number;
   features_aggregated: QuestionFeatures;  // Weighted average based on correctness
+  started_at?: Date;               // When the quiz session was opened
+  time_taken_seconds?: number;     // Time on task (capped at the time limit when auto-submitted)
+  time_limit_seconds?: number;     // Time limit in force for this attempt, if any
+  is_late?: boolean;               // Submitted after the deadline (+ grace)
+  late_penalty_percent?: number;   // Penalty applied to score_percentage
+  auto_submitted?: boolean;        // Finalized by the server after the deadline
   submitted_at: Date;
 }
 
+/**
+ * Timing details recorded on an attempt graded from a quiz session
+ */
+export interface AttemptTiming {
+  started_at: Date;
+  submitted_at: Date;
+  time_limit_seconds?: number;
+  is_late: boolean;
+  late_penalty_percent?: number;
+  auto_submitted: boolean;
+}
+
+// ============================================================
+// QUIZ SESSION TYPES
+// ============================================================
+
+export type QuizSessionStatus = 'active' | 'submitted';
+
+/**
+ * Option permutation per question: order[displayed_index] = canonical_index
+ */
+export type OptionOrders = Record<string, number[]>;
+
+export interface QuizSession {
+  _id?: ObjectId;
+  session_id: string;              // Unique identifier handed to the client
+  student_id: string;
+  school_id: string;
+  set_id: string;                  // Question set being delivered (answer key stays server-side)
+  class_number: number;
+  subject: string;
+  chapter: string;
+  topic: string;
+  chapter_id?: string;             // Copied from the question set
+  topic_id?: string;
+  board?: string;
+  curriculum_school_id?: string;
+  question_ids: string[];          // Questions delivered in this session, in delivered order
+  option_orders: OptionOrders;     // Per-question option shuffle for this delivery
+  status: QuizSessionStatus;
+  attempt_id?: string;             // Set once the session is submitted
+  started_at: Date;                // Server clock when the quiz was handed out
+  time_limit_seconds?: number;     // Resolved from teacher assignment or question set
+  expires_at?: Date;               // started_at + time_limit_seconds
+  saved_answers?: Record<string, AnswerValue>;  // Draft answers: question_id -> response as displayed
+  last_saved_at?: Date;
+  difficulty_target?: DifficultyTarget;  // Adaptive target used to pick the set
+  created_at: Date;
+  submitted_at?: Date;
+}
+
+// ============================================================
+// ADAPTIVE DIFFICULTY TYPES
+// ============================================================
+
+export type DifficultyTargetSource =
+  | 'requested'        // difficulty_label sent by the client
+  | 'recent_attempt'   // stepped from the last attempt in this topic
+  | 'skill_stats'      // derived from subject accuracy
+  | 'default';         // no history yet
+
+export interface DifficultyTarget {
+  target_level: number;            // 1-5, matched against QuestionSet.difficulty_level
+  min_level?: number;              // Levels a requested difficulty_label accepts
+  max_level?: number;
+  source: DifficultyTargetSource;
+  rationale: string;               // Human-readable reason for the target
+}
+
+// ============================================================
+// GENERATION JOB TYPES
+// ============================================================
+
+export type GenerationJobStatus = 'queued' | 'running' | 'failed' | 'succeeded';
+
+export interface GenerationJob {
+  _id?: ObjectId;
+  job_id: string;                  // Unique identifier (e.g., "job_abc123")
+  active_key?: string;             // Dedupe key while queued/running, removed when the job finishes
+  dedupe_key?: string;             // Same key, kept after the job finishes to hand its set to requesting students
+  status: GenerationJobStatus;
+  request: GenerateQuizRequest;    // Request of the first student who triggered the job
+  target_level: number;            // 1-5 difficulty the set is generated for
+  requested_by: string[];          // Students attached to this job
+  attempts: number;                // Times a worker has picked the job up
+  set_id?: string;                 // Resulting question set, once succeeded
+  error?: string;                  // Failure reason, once failed
+  created_at: Date;
+  updated_at: Date;
+  started_at?: Date;
+  finished_at?: Date;
+}
+
+export interface GenerationJobResponse {
+  job_id: string;
+  status: GenerationJobStatus;
+  set_id?: string;
+  error?: string;
+  class_number: number;
+  subject: string;
+  chapter: string;
+  topic: string;
+  difficulty_label?: string;
+  target_difficulty_level: number;
+  num_questions: number;
+  created_at: Date;
+  started_at?: Date;
+  finished_at?: Date;
+}
+
 // ============================================================
 // SKILL STATS TYPES
 // ============================================================
@@ -115,26 +341,36 @@ export interface GenerateQuizRequest {
   chapter: string;
   topic: string;
   difficulty_label?: string;       // "easy" | "medium" | "hard" | Optional
-  num_questions?: number;          // Default 10
+  num_questions?: number;          // 5-30, default 10
+  question_types?: QuestionType[]; // Formats to generate, default ["mcq"]
+  resume?: boolean;                // Default true: return the open quiz for this topic if any
+  board?: string;                  // Resolved from the student's school (see CurriculumService)
+  curriculum_school_id?: string;   // Set when the school has its own syllabus for the subject
 }
 
 export interface GenerateQuizResponse {
+  session_id: string;
   set_id: string;
-  questions: Question[];
+  questions: PublicQuestion[];
   difficulty_level: number;
+  started_at: Date;
+  time_limit_seconds?: number;
+  expires_at?: Date;
   is_new_set: boolean;             // true if newly generated, false if reused
+  is_resumed?: boolean;            // true if an open session was returned
+  target_difficulty_level?: number;  // Adaptive target the set was chosen for
+  difficulty_rationale?: string;
+  saved_answers?: Record<string, AnswerValue>;
   message?: string;
 }
 
 export interface SubmitQuizRequest {
   attempt_id?: string;             // Optional, can be generated server-side
+  session_id?: string;             // Quiz session returned by generate
   student_id: string;
   school_id: string;
   set_id: string;
-  answers: Array<{
-    question_id: string;
-    selected_option_index: number;
-  }>;
+  answers: AnswerInput[];
 }
 
 export interface SubmitQuizResponse {
@@ -146,6 +382,9 @@ export interface SubmitQuizResponse {
   total_questions: number;
   features_aggregated: QuestionFeatures;
   skill_breakdown: SkillScore[];
+  time_taken_seconds?: number;
+  is_late?: boolean;
+  late_penalty_percent?: number;
 }
 
 // ============================================================
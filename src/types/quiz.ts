@@ -3,6 +3,8 @@
  * Quiz System Types
  */
 
+import type { QuestionTypeFields, QuestionExplanation, SourceChunk } from './questionSet';
+
 export interface FeatureScores {
   memorization: number;  // 0-1
   reasoning: number;     // 0-1
@@ -15,13 +17,14 @@ export interface QuestionFeatures extends FeatureScores {
   difficulty_level: number;  // 1-10
 }
 
-export interface Question {
+export interface Question extends QuestionTypeFields, QuestionExplanation {
   id: string;
   question: string;
   options: string[];
   correct_option_index: number;
   skills: string[];
   features: QuestionFeatures;
+  source_chunks?: SourceChunk[];  // Chapter text passages the question was generated from
 }
 
 export interface QuizAttempt {
@@ -93,7 +96,7 @@ export interface StudyPlanRequest {
 
 // LLM Response formats
 export interface LLMQuestionResponse {
-  questions: Array<{
+  questions: Array<QuestionTypeFields & QuestionExplanation & {
     id: string;
     question: string;
     options: string[];
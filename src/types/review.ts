@@ -0,0 +1,104 @@
+// src/types/review.ts
+/**
+ * TypeScript interfaces for the spaced-repetition review queue
+ */
+
+import { ObjectId } from 'mongodb';
+import type { AnswerInput, AnswerValue, OptionOrders, PublicQuestion } from './questionSet';
+
+// ============================================================
+// REVIEW QUEUE TYPES
+// ============================================================
+
+/**
+ * One question a student got wrong, scheduled with SM-2
+ */
+export interface ReviewItem {
+  _id?: ObjectId;
+  item_id: string;                 // Unique identifier, also the question id in review quizzes
+  student_id: string;
+  school_id: string;
+  class_number: number;
+  subject: string;
+  chapter: string;
+  topic: string;
+  set_id: string;                  // Question set the question belongs to
+  question_id: string;             // Question id within the set
+  ease_factor: number;             // SM-2 ease, starts at 2.5, never below 1.3
+  interval_days: number;           // Days until the next review after the last one
+  repetitions: number;             // Consecutive successful reviews
+  lapses: number;                  // Times the question was missed again
+  due_at: Date;
+  source_attempt_id: string;       // Attempt where the question was (last) missed
+  last_reviewed_at?: Date;
+  last_quality?: number;           // SM-2 quality (0-5) of the last review
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * SM-2 scheduling state
+ */
+export type ReviewSchedule = Pick<
+  ReviewItem,
+  'ease_factor' | 'interval_days' | 'repetitions' | 'lapses' | 'due_at'
+>;
+
+// ============================================================
+// REVIEW SESSION TYPES
+// ============================================================
+
+export interface ReviewSession {
+  _id?: ObjectId;
+  session_id: string;
+  student_id: string;
+  school_id: string;
+  item_ids: string[];              // Review items in delivered order
+  option_orders: OptionOrders;     // Keyed by item_id
+  status: 'active' | 'submitted';
+  created_at: Date;
+  submitted_at?: Date;
+}
+
+// ============================================================
+// REQUEST/RESPONSE TYPES
+// ============================================================
+
+export interface GenerateReviewRequest {
+  student_id: string;
+  school_id: string;
+  subject?: string;                // Optional: limit to one subject
+  limit?: number;                  // Default 10
+}
+
+export interface GenerateReviewResponse {
+  session_id: string | null;
+  questions: PublicQuestion[];     // Question ids are review item ids
+  due_count: number;               // Total items due (may exceed questions returned)
+  message?: string;
+}
+
+export interface SubmitReviewRequest {
+  session_id: string;
+  student_id: string;
+  answers: AnswerInput[];          // question_id = review item id
+}
+
+export interface ReviewItemResult {
+  item_id: string;
+  topic: string;
+  is_correct: boolean;
+  credit: number;
+  response?: AnswerValue;
+  quality: number;
+  next_due_at: Date;
+  interval_days: number;
+  explanation?: string;
+}
+
+export interface SubmitReviewResponse {
+  session_id: string;
+  correct_count: number;
+  total_questions: number;
+  results: ReviewItemResult[];
+}
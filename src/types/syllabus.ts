@@ -3,12 +3,32 @@
 export interface Topic {
   topicId: string;
   topicName: string;
+  source?: 'ai' | 'manual';       // Missing on AI-parsed topics from before manual curation
+  locked?: boolean;               // Curated by an admin; kept when the syllabus is re-parsed
+}
+
+export interface ChapterTextRange {
+  start: number;       // Character offsets into the extracted source PDF text
+  end: number;
+  startPage: number;   // 1-based, inclusive
+  endPage: number;
 }
 
 export interface Chapter {
   chapterId: string;
   chapterName: string;
   topics: Topic[];
+  textRange?: ChapterTextRange;   // Missing when the chapter could not be located in the PDF text
+  source?: 'ai' | 'manual';
+  locked?: boolean;               // Curated by an admin; kept (with all its topics) on re-parse
+}
+
+/**
+ * Curriculum a syllabus, and the question sets generated from it, belong to
+ */
+export interface Curriculum {
+  board: string;                  // Normalized board code, e.g. "CBSE", "ICSE", "MSBSHSE"
+  schoolId?: string;              // Set for one school's override of its board's syllabus
 }
 
 export interface SyllabusDocument {
@@ -16,8 +36,96 @@ export interface SyllabusDocument {
   classLabel: string;
   classNumber: number;
   subjectName: string;
+  board?: string;                 // Missing on syllabi from before boards: the default board
+  schoolId?: string;              // School-specific override; missing for the board syllabus
   chapters: Chapter[];
   sourcePdfId?: string;
+  version?: number;               // Latest entry in syllabus_versions; missing before versioning
   createdAt: Date;
   updatedAt: Date;
 }
+
+/**
+ * Per-chapter text cut from a syllabus source PDF at upload time
+ */
+export interface ChapterContent {
+  _id?: any;
+  classNumber: number;
+  subjectName: string;
+  board?: string;                // Curriculum of the syllabus, as on SyllabusDocument
+  schoolId?: string;
+  chapterId: string;
+  chapterName: string;
+  chapterKey: string;            // Lower-cased chapter name, for lookups by name
+  sourcePdfId: string;
+  textRange: ChapterTextRange;
+  text: string;
+  createdAt: Date;
+}
+
+// ============================================================
+// VERSION TYPES
+// ============================================================
+
+/**
+ * A topic and the chapter it sits in, as of one syllabus version
+ */
+export interface TopicRef {
+  chapterId: string;
+  chapterName: string;
+  topicId: string;
+  topicName: string;
+}
+
+/**
+ * A topic whose question sets and attempts should follow it to a new place
+ */
+export interface TopicRepoint {
+  from: TopicRef;
+  to: TopicRef;
+}
+
+/**
+ * Changes between two consecutive syllabus versions, matched by chapter and topic id
+ */
+export interface SyllabusDiff {
+  chapters: {
+    added: Array<{ chapterId: string; chapterName: string }>;
+    removed: Array<{ chapterId: string; chapterName: string }>;
+    renamed: Array<{ chapterId: string; from: string; to: string }>;
+  };
+  topics: {
+    added: TopicRef[];
+    removed: TopicRef[];
+    renamed: TopicRepoint[];     // Same id and chapter, new name
+    moved: TopicRepoint[];       // Same id, different chapter
+  };
+  repoints: TopicRepoint[];      // Every kept topic whose chapter or topic name changed
+  suggestedMappings: Array<TopicRepoint & { similarity: number }>;  // Removed topic -> likely successor
+}
+
+export type SyllabusVersionReason = 'create' | 'parse' | 'edit';
+
+export interface SyllabusMigration {
+  migratedAt: Date;
+  migratedBy?: string;
+  repoints: TopicRepoint[];      // Automatic repoints plus the confirmed mappings
+  updated: {
+    question_sets: number;
+    question_set_attempts: number;
+    quiz_sessions: number;
+  };
+}
+
+export interface SyllabusVersion {
+  _id?: any;
+  syllabusId: string;
+  version: number;               // 1, 2, ... per syllabus
+  reason: SyllabusVersionReason;
+  chapters: Chapter[];           // Snapshot after the change (without text ranges)
+  diff: SyllabusDiff;            // Against the previous version
+  sourcePdfId?: string;
+  createdBy?: string;
+  createdAt: Date;
+  migration?: SyllabusMigration; // Set once an admin confirmed the migration
+}
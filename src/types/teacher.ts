@@ -20,6 +20,7 @@ export interface TeacherAssignmentDoc {
   class_ids?: string[];
   subject_map?: { class_id: string; subject_id: string }[];
   student_ids?: string[];
+  quiz_time_limit_seconds?: number;  // Optional, subject assignments only: time limit for quizzes in the mapped subjects
   meta?: Record<string, any>;
   created_at?: string;
   updated_at?: string;
@@ -12,13 +12,13 @@ import fs from 'fs/promises';
 
 /**
  * Get absolute path to PDF directory
- * ALWAYS resolves to /opt/render/project/src/pdfs/ on Render
+ * PDF_FOLDER if set, otherwise /opt/render/project/src/pdfs/ on Render
  */
 export function getPdfDirectory(): string {
   // process.cwd() returns the directory where node was started
   // On Render running "node dist/index.js", cwd is /opt/render/project/src/
   const baseDir = process.cwd();
-  const pdfDir = path.join(baseDir, 'pdfs');
+  const pdfDir = process.env.PDF_FOLDER ? path.resolve(baseDir, process.env.PDF_FOLDER) : path.join(baseDir, 'pdfs');
 
   console.log('[PathUtils] Base directory (cwd):', baseDir);
   console.log('[PathUtils] PDF directory resolved to:', pdfDir);
@@ -0,0 +1,92 @@
+// src/utils/s3Signer.ts
+/**
+ * S3 Signer - AWS Signature Version 4 for S3-compatible object storage
+ *
+ * Signs single requests (header authorization, unsigned query) for AWS S3,
+ * MinIO and other S3-compatible services.
+ */
+
+import crypto from 'crypto';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export interface S3Request {
+  method: string;
+  host: string;                      // Including the port, if not the default
+  path: string;                      // Already URI-encoded
+  query?: string;                    // Canonical query string (sorted, encoded)
+  headers?: Record<string, string>;  // Extra headers to sign (e.g. content-type, range)
+  payloadHash: string;               // Hex SHA-256 of the body
+}
+
+export function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * URI-encode an object key for the request path (slashes kept)
+ */
+export function encodeS3Key(key: string): string {
+  return key
+    .split('/')
+    .map((segment) =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    )
+    .join('/');
+}
+
+/**
+ * Headers to send with the request: the signed headers plus Authorization
+ */
+export function signS3Request(
+  request: S3Request,
+  credentials: S3Credentials,
+  date: Date = new Date()
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    host: request.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+  Object.entries(request.headers || {}).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, ' ');
+  });
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    request.path,
+    request.query || '',
+    names.map((name) => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region)
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
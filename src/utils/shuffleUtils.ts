@@ -0,0 +1,27 @@
+// src/utils/shuffleUtils.ts
+/**
+ * Shuffle Utilities - Randomized ordering for quiz delivery
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Return a shuffled copy of an array (Fisher-Yates, crypto-backed)
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
+
+/**
+ * Random permutation of 0..n-1
+ */
+export function randomPermutation(n: number): number[] {
+  return shuffle(Array.from({ length: n }, (_, i) => i));
+}
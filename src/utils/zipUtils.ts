@@ -0,0 +1,96 @@
+// src/utils/zipUtils.ts
+/**
+ * Zip Utilities - Read entries of DOCX, PPTX and EPUB archives
+ *
+ * Only what those formats need: stored and deflated entries listed in the
+ * central directory (no Zip64, encryption or multi-disk archives).
+ */
+
+import zlib from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;   // Refuse entries that inflate beyond this (zip bombs)
+
+export interface ZipArchive {
+  names: string[];
+  read(name: string): Buffer | null;
+  readText(name: string): string | null;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Whether a buffer starts with a zip local file header
+ */
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_SIGNATURE;
+}
+
+/**
+ * Open a zip archive held in memory
+ */
+export function openZip(buffer: Buffer): ZipArchive {
+  // The end of central directory record is in the last 22 bytes plus a comment of up to 64 KB
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid zip archive: end of central directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = (name: string): Buffer | null => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+
+    const header = entry.localHeaderOffset;
+    if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_SIGNATURE) {
+      throw new Error(`Invalid zip archive: corrupt entry ${name}`);
+    }
+
+    const dataStart = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+    const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+    throw new Error(`Unsupported zip compression method ${entry.method} for ${name}`);
+  };
+
+  return {
+    names: Array.from(entries.keys()),
+    read,
+    readText: (name: string) => read(name)?.toString('utf8') ?? null,
+  };
+}
@@ -0,0 +1,257 @@
+// src/validators/llmSchemas.ts
+/**
+ * LLM Response Schemas
+ *
+ * Every JSON shape the LLM is asked to produce is validated here before it is
+ * used or stored. Issue messages are sent back to the model in repair prompts,
+ * so they should say plainly what is wrong.
+ */
+
+import { z } from 'zod';
+import type { QuestionType } from '../types/questionSet';
+
+const QUESTION_TYPES = ['mcq', 'multi_select', 'true_false', 'numeric', 'fill_blank', 'match'] as const satisfies readonly QuestionType[];
+
+const unitInterval = z.coerce
+  .number()
+  .transform((v) => Math.max(0, Math.min(1, v)));
+
+const nonEmptyText = z.coerce.string().trim().min(1);
+
+// ============================================================
+// QUESTION GENERATION
+// ============================================================
+
+/**
+ * One generated question, validated for its type and normalized to the
+ * stored shape (fields unused by the type are dropped)
+ * Unused answer fields are often sent as null, so they are tolerated
+ */
+export const LLMQuestionSchema = z
+  .object({
+    id: z.coerce.string().nullish(),
+    type: z.enum(QUESTION_TYPES).nullish().transform((t) => t || 'mcq'),
+    question: z.string().trim().min(1, 'question text is empty'),
+    options: z.array(nonEmptyText).nullish().transform((o) => o || []),
+    correct_option_index: z.number().int().nullish(),
+    correct_option_indices: z.array(z.number().int()).nullish(),
+    numeric_answer: z.coerce.number().nullish(),
+    numeric_tolerance: z.coerce.number().min(0).nullish(),
+    unit: z.string().nullish(),
+    accepted_answers: z.array(z.coerce.string()).nullish(),
+    match_left: z.array(nonEmptyText).nullish(),
+    correct_matches: z.array(z.number().int()).nullish(),
+    skills: z.array(z.string()).nullish().transform((s) => s || []),
+    explanation: z.string().nullish(),
+    option_rationales: z.array(z.coerce.string()).nullish(),
+    source_chunks: z.array(z.coerce.string()).nullish(),
+    features: z.object({
+      memorization: unitInterval,
+      reasoning: unitInterval,
+      numerical: unitInterval,
+      language: unitInterval,
+    }),
+  })
+  .superRefine((q, ctx) => {
+    const issue = (path: string, message: string) => ctx.addIssue({ code: 'custom', path: [path], message });
+    const inRange = (n: number) => Number.isInteger(n) && n >= 0 && n < q.options.length;
+    const distinct = new Set(q.options.map((o) => o.toLowerCase()));
+
+    if (distinct.size !== q.options.length) {
+      issue('options', 'options must all be different');
+    }
+
+    switch (q.type) {
+      case 'mcq':
+        if (q.options.length !== 4) issue('options', `mcq needs exactly 4 options, got ${q.options.length}`);
+        if (q.correct_option_index == null || !inRange(q.correct_option_index)) {
+          issue('correct_option_index', 'must be the index (0-3) of the correct option');
+        }
+        break;
+
+      case 'true_false':
+        if (q.correct_option_index !== 0 && q.correct_option_index !== 1) {
+          issue('correct_option_index', 'must be 0 (True) or 1 (False)');
+        }
+        break;
+
+      case 'multi_select': {
+        const correct = q.correct_option_indices || [];
+        if (q.options.length < 4 || q.options.length > 6) {
+          issue('options', `multi_select needs 4-6 options, got ${q.options.length}`);
+        }
+        if (correct.length < 2 || !correct.every(inRange) || new Set(correct).size !== correct.length) {
+          issue('correct_option_indices', 'must list two or more distinct indices into options');
+        }
+        break;
+      }
+
+      case 'numeric':
+        if (q.numeric_answer == null || !Number.isFinite(q.numeric_answer)) {
+          issue('numeric_answer', 'numeric questions need a numeric_answer number');
+        }
+        break;
+
+      case 'fill_blank':
+        if (!q.question.includes('____')) issue('question', 'fill_blank question text must contain "____"');
+        if (!(q.accepted_answers || []).some((a) => a.trim().length > 0)) {
+          issue('accepted_answers', 'list at least one accepted answer');
+        }
+        break;
+
+      case 'match': {
+        const left = q.match_left || [];
+        const matches = q.correct_matches || [];
+        if (left.length < 2) issue('match_left', 'match questions need at least 2 left items');
+        if (q.options.length < left.length) issue('options', 'need at least as many options as match_left items');
+        if (matches.length !== left.length || !matches.every(inRange)) {
+          issue('correct_matches', 'must give one option index per match_left item');
+        }
+        break;
+      }
+    }
+  })
+  .transform((q) => {
+    const common = {
+      question: q.question,
+      skills: q.skills,
+      features: q.features,
+      ...(q.explanation != null && { explanation: q.explanation }),
+      ...(q.option_rationales != null && { option_rationales: q.option_rationales }),
+      ...(q.source_chunks != null && { source_chunks: q.source_chunks }),
+    };
+
+    switch (q.type) {
+      case 'mcq':
+        return { ...common, options: q.options, correct_option_index: q.correct_option_index! };
+      case 'true_false':
+        return { ...common, type: q.type, options: ['True', 'False'], correct_option_index: q.correct_option_index! };
+      case 'multi_select':
+        return { ...common, type: q.type, options: q.options, correct_option_index: -1, correct_option_indices: q.correct_option_indices! };
+      case 'numeric':
+        return {
+          ...common,
+          type: q.type,
+          options: [],
+          correct_option_index: -1,
+          numeric_answer: q.numeric_answer!,
+          numeric_tolerance: q.numeric_tolerance || 0,
+          ...(q.unit && { unit: q.unit }),
+        };
+      case 'fill_blank':
+        return {
+          ...common,
+          type: q.type,
+          options: [],
+          correct_option_index: -1,
+          accepted_answers: q.accepted_answers!.map((a) => a.trim()).filter((a) => a.length > 0),
+        };
+      case 'match':
+        return {
+          ...common,
+          type: q.type,
+          options: q.options,
+          correct_option_index: -1,
+          match_left: q.match_left!,
+          correct_matches: q.correct_matches!,
+        };
+    }
+  });
+
+export type LLMQuestion = z.output<typeof LLMQuestionSchema>;
+
+/**
+ * Envelope of a question generation reply; questions are validated one by one
+ * so a single bad question does not discard the others
+ */
+export const LLMQuestionListSchema = z.object({
+  questions: z.array(z.unknown()).min(1, 'no questions returned'),
+});
+
+// ============================================================
+// EXPLANATIONS
+// ============================================================
+
+export const LLMExplanationSchema = z.object({
+  id: z.coerce.string(),
+  explanation: z.string().trim().min(1, 'explanation is empty'),
+  option_rationales: z.array(z.coerce.string()).nullish(),
+});
+
+export const LLMExplanationListSchema = z.object({
+  explanations: z.array(z.unknown()).min(1, 'no explanations returned'),
+});
+
+// ============================================================
+// SYLLABUS PARSING
+// ============================================================
+
+export const LLMSyllabusSchema = z.object({
+  classLabel: nonEmptyText,
+  classNumber: z.coerce.number().int().min(1).max(12),
+  subjectName: nonEmptyText,
+  chapters: z
+    .array(
+      z.object({
+        chapterId: nonEmptyText,
+        chapterName: nonEmptyText,
+        topics: z
+          .array(z.object({ topicId: nonEmptyText, topicName: nonEmptyText }))
+          .min(1, 'each chapter needs at least one topic'),
+      })
+    )
+    .min(1, 'no chapters found'),
+});
+
+export type LLMSyllabus = z.output<typeof LLMSyllabusSchema>;
+
+/**
+ * Legacy camelCase MCQ shape (OpenAIService.generateQuestions)
+ */
+export const LLMLegacyMcqSchema = z.object({
+  id: z.coerce.string(),
+  content: nonEmptyText,
+  type: z.literal('mcq').default('mcq'),
+  options: z.array(nonEmptyText).length(4, 'need exactly 4 options'),
+  correctOptionIndex: z.number().int().min(0).max(3),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  classLabel: z.string(),
+  subjectName: z.string(),
+  chapterName: z.string(),
+  topicName: z.string().optional(),
+});
+
+export const LLMLegacyMcqListSchema = z
+  .union([z.array(LLMLegacyMcqSchema), z.object({ questions: z.array(LLMLegacyMcqSchema) })])
+  .transform((value) => (Array.isArray(value) ? value : value.questions));
+
+// ============================================================
+// STUDY PLANS
+// ============================================================
+
+export const LLMStudyPlanSchema = z.object({
+  week_overview: z.string(),
+  subjects: z.record(
+    z.string(),
+    z.object({
+      summary: z.string(),
+      skills: z.record(z.string(), z.coerce.number()).optional(),
+    })
+  ),
+  days: z
+    .array(
+      z.object({
+        day: nonEmptyText,
+        tasks: z.array(
+          z.object({
+            subject: nonEmptyText,
+            focus_skills: z.array(z.string()).default([]),
+            chapter_hint: z.string().optional(),
+            activity: nonEmptyText,
+            estimated_time_min: z.coerce.number().int().positive(),
+          })
+        ),
+      })
+    )
+    .min(1, 'the plan has no days'),
+});
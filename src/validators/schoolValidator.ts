@@ -4,6 +4,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { CurriculumService } from '../services/curriculumService';
 
 interface ValidationError {
   field: string;
@@ -86,6 +87,14 @@ export const validateSchoolCreate = (req: Request, res: Response, next: NextFunc
     }
   }
 
+  // Board validation (optional, defaults to DEFAULT_BOARD)
+  if (req.body.board !== undefined && !CurriculumService.isValidBoard(req.body.board)) {
+    errors.push({
+      field: 'board',
+      message: 'Board must be 2-32 letters, numbers, spaces, hyphens, or underscores (e.g., CBSE, ICSE)',
+    });
+  }
+
   if (errors.length > 0) {
     const errorMsg = errors.length === 1 ? errors[0].message : 'Please fix the errors in the form';
     return res.status(422).json({
@@ -125,6 +134,13 @@ export const validateSchoolUpdate = (req: Request, res: Response, next: NextFunc
     }
   }
 
+  if (req.body.board !== undefined && !CurriculumService.isValidBoard(req.body.board)) {
+    errors.push({
+      field: 'board',
+      message: 'Board must be 2-32 letters, numbers, spaces, hyphens, or underscores',
+    });
+  }
+
   if (errors.length > 0) {
     return res.status(422).json({
       detail: 'Validation failed',